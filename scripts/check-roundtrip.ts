@@ -0,0 +1,137 @@
+/**
+ * Round-trip check for the canvas converter: for every workflow in the
+ * corpus, reactFlowToN8n(n8nToReactFlow(wf)) must deep-equal wf.
+ *
+ *   npm run check:roundtrip               # synced workflow_templates
+ *   npm run check:roundtrip -- a.json dir # workflow JSON files instead
+ *
+ * The default corpus needs DATABASE_URL (from the environment or
+ * .env.local, when there is one) and synced templates; files need neither.
+ * Exits with 1 when any workflow doesn't survive the round trip.
+ */
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import { asc, gt } from "drizzle-orm";
+import { getDb } from "@/lib/db";
+import { workflowTemplates } from "@/lib/db/schema";
+import { n8nToReactFlow, reactFlowToN8n } from "@/lib/n8n/converter";
+import type { N8nWorkflow } from "@/lib/n8n/types";
+
+const PAGE_SIZE = 200;
+// Failures printed in full; the rest are only counted
+const MAX_REPORTED = 20;
+
+interface CorpusEntry {
+  label: string;
+  workflow: N8nWorkflow;
+}
+
+/**
+ * A workflow as n8n stores it. Templates carry only nodes and connections,
+ * so they get the `active` and `settings` every stored workflow has.
+ */
+function asWorkflow(name: string, json: Partial<N8nWorkflow>): N8nWorkflow {
+  return {
+    name,
+    active: false,
+    settings: {},
+    ...json,
+    nodes: json.nodes ?? [],
+    connections: json.connections ?? {},
+  } as N8nWorkflow;
+}
+
+async function* fromTemplates(): AsyncGenerator<CorpusEntry> {
+  if (existsSync(".env.local")) process.loadEnvFile(".env.local");
+  let after = 0;
+  for (;;) {
+    const page = await getDb()
+      .select({
+        id: workflowTemplates.id,
+        templateId: workflowTemplates.templateId,
+        name: workflowTemplates.name,
+        workflowJson: workflowTemplates.workflowJson,
+      })
+      .from(workflowTemplates)
+      .where(gt(workflowTemplates.id, after))
+      .orderBy(asc(workflowTemplates.id))
+      .limit(PAGE_SIZE);
+    for (const row of page) {
+      if (!row.workflowJson) continue;
+      yield {
+        label: `template ${row.templateId} "${row.name}"`,
+        workflow: asWorkflow(row.name, row.workflowJson as Partial<N8nWorkflow>),
+      };
+    }
+    if (page.length < PAGE_SIZE) return;
+    after = page[page.length - 1].id;
+  }
+}
+
+function* fromFiles(paths: string[]): Generator<CorpusEntry> {
+  for (const path of paths) {
+    if (statSync(path).isDirectory()) {
+      yield* fromFiles(
+        readdirSync(path)
+          .filter((f) => f.endsWith(".json"))
+          .map((f) => join(path, f))
+      );
+      continue;
+    }
+    const json = JSON.parse(readFileSync(path, "utf8")) as Partial<N8nWorkflow>;
+    yield { label: path, workflow: asWorkflow(json.name ?? path, json) };
+  }
+}
+
+/** The first path at which two JSON values differ, e.g. "nodes.3.position". */
+function firstDifference(a: unknown, b: unknown, path: string[] = []): string | null {
+  if (isDeepStrictEqual(a, b)) return null;
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      const diff = firstDifference(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+        [...path, key]
+      );
+      if (diff) return diff;
+    }
+  }
+  const show = (v: unknown) => JSON.stringify(v)?.slice(0, 120) ?? "undefined";
+  return `${path.join(".") || "(root)"}: expected ${show(a)}, got ${show(b)}`;
+}
+
+async function main() {
+  const files = process.argv.slice(2);
+  const corpus = files.length > 0 ? fromFiles(files) : fromTemplates();
+
+  let checked = 0;
+  const failures: string[] = [];
+  for await (const { label, workflow } of corpus) {
+    checked++;
+    let diff: string | null;
+    try {
+      const { nodes, edges } = n8nToReactFlow(workflow);
+      diff = firstDifference(workflow, reactFlowToN8n(nodes, edges, workflow));
+    } catch (err) {
+      diff = `threw ${err instanceof Error ? err.message : String(err)}`;
+    }
+    if (diff) failures.push(`${label}\n    ${diff}`);
+  }
+
+  console.log(`${checked} workflows, ${failures.length} changed by the round trip`);
+  for (const failure of failures.slice(0, MAX_REPORTED)) console.log(`  ${failure}`);
+  if (failures.length > MAX_REPORTED) {
+    console.log(`  … and ${failures.length - MAX_REPORTED} more`);
+  }
+  if (checked === 0) {
+    console.error("No workflows to check. Sync templates or pass workflow JSON files.");
+  }
+  process.exit(failures.length > 0 || checked === 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
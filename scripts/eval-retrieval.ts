@@ -0,0 +1,123 @@
+/**
+ * Recall of node documentation retrieval on a labelled query set, for pure
+ * vector search (the old findRelevantNodeDocs) against hybrid search.
+ *
+ *   npm run eval:retrieval
+ *
+ * Needs DATABASE_URL and the embedding provider's settings (read from
+ * .env.local) and node docs synced with that provider. recall@k is the share of a query's expected node types found
+ * among the first k distinct node types returned.
+ */
+import {
+  findRelevantNodeDocs,
+  findRelevantNodeDocsByVector,
+  type RelevantNodeDoc,
+} from "@/lib/rag/retrieval";
+
+const K_VALUES = [1, 3, 5, 10];
+// Chunks fetched per query; enough for 10 distinct node types from either search
+const FETCH_LIMIT = 30;
+
+const base = (name: string) => `n8n-nodes-base.${name}`;
+const langchain = (name: string) => `@n8n/n8n-nodes-langchain.${name}`;
+
+// Exact names, typical phrasings and vaguer descriptions, each with the
+// node types a good answer includes
+const LABELLED_QUERIES: Array<{ query: string; expected: string[] }> = [
+  { query: "httpRequest", expected: [base("httpRequest")] },
+  { query: "call a REST API", expected: [base("httpRequest")] },
+  { query: "Postgres upsert", expected: [base("postgres")] },
+  { query: "MySQL query", expected: [base("mySql")] },
+  { query: "send a Slack message", expected: [base("slack")] },
+  { query: "append a row to Google Sheets", expected: [base("googleSheets")] },
+  { query: "run every hour", expected: [base("scheduleTrigger")] },
+  { query: "cron", expected: [base("scheduleTrigger")] },
+  { query: "receive data from a webhook", expected: [base("webhook")] },
+  { query: "respond to webhook with JSON", expected: [base("respondToWebhook")] },
+  { query: "merge two branches", expected: [base("merge")] },
+  { query: "IF condition true false branch", expected: [base("if")] },
+  { query: "loop over items in batches", expected: [base("splitInBatches")] },
+  { query: "send email via SMTP", expected: [base("emailSend")] },
+  { query: "read Gmail messages", expected: [base("gmail")] },
+  { query: "run custom JavaScript", expected: [base("code")] },
+  { query: "set fields on items", expected: [base("set")] },
+  { query: "wait 5 minutes", expected: [base("wait")] },
+  { query: "Airtable create record", expected: [base("airtable")] },
+  { query: "add a page to a Notion database", expected: [base("notion")] },
+  { query: "create a GitHub issue", expected: [base("github")] },
+  { query: "Telegram bot message", expected: [base("telegram")] },
+  { query: "extract data from HTML", expected: [base("html")] },
+  { query: "convert XML to JSON", expected: [base("xml")] },
+  { query: "remove duplicate items", expected: [base("removeDuplicates")] },
+  { query: "aggregate items into a list", expected: [base("aggregate")] },
+  { query: "read an RSS feed", expected: [base("rssFeedRead")] },
+  { query: "AI agent with tools", expected: [langchain("agent")] },
+  { query: "OpenAI chat model", expected: [langchain("lmChatOpenAi")] },
+  { query: "chatbot memory", expected: [langchain("memoryBufferWindow")] },
+  { query: "Pinecone vector store", expected: [langchain("vectorStorePinecone")] },
+  {
+    query: "when a new Stripe payment arrives post it to Slack",
+    expected: [base("stripeTrigger"), base("slack")],
+  },
+];
+
+type Search = (query: string) => Promise<RelevantNodeDoc[]>;
+
+const SEARCHES: Record<string, Search> = {
+  vector: (query) => findRelevantNodeDocsByVector(query, FETCH_LIMIT),
+  hybrid: (query) => findRelevantNodeDocs(query, FETCH_LIMIT),
+};
+
+function distinctNodeTypes(docs: RelevantNodeDoc[]): string[] {
+  return [...new Set(docs.map((d) => d.nodeType))];
+}
+
+function recallAt(k: number, found: string[], expected: string[]): number {
+  const top = new Set(found.slice(0, k));
+  return expected.filter((type) => top.has(type)).length / expected.length;
+}
+
+async function main() {
+  const totals: Record<string, Record<string, number>> = {};
+  const misses: Record<string, string[]> = {};
+
+  for (const [name, search] of Object.entries(SEARCHES)) {
+    totals[name] = Object.fromEntries(K_VALUES.map((k) => [`recall@${k}`, 0]));
+    misses[name] = [];
+    for (const { query, expected } of LABELLED_QUERIES) {
+      const found = distinctNodeTypes(await search(query));
+      for (const k of K_VALUES) {
+        totals[name][`recall@${k}`] += recallAt(k, found, expected);
+      }
+      const maxK = K_VALUES[K_VALUES.length - 1];
+      if (recallAt(maxK, found, expected) < 1) {
+        misses[name].push(`${query} → ${found.slice(0, 3).join(", ") || "(nothing)"}`);
+      }
+    }
+  }
+
+  console.log(`${LABELLED_QUERIES.length} queries\n`);
+  console.table(
+    Object.fromEntries(
+      Object.entries(totals).map(([name, sums]) => [
+        name,
+        Object.fromEntries(
+          Object.entries(sums).map(([metric, sum]) => [
+            metric,
+            Number((sum / LABELLED_QUERIES.length).toFixed(3)),
+          ])
+        ),
+      ])
+    )
+  );
+  for (const [name, list] of Object.entries(misses)) {
+    if (list.length === 0) continue;
+    console.log(`\n${name} missed within top ${K_VALUES[K_VALUES.length - 1]}:`);
+    for (const line of list) console.log(`  ${line}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,16 +1,26 @@
 import { streamText, convertToModelMessages, generateText, stepCountIs } from "ai";
-import { createGatewayProvider } from "@ai-sdk/gateway";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createAnthropic } from "@ai-sdk/anthropic";
+import { createModel } from "@/lib/ai/model";
 import { SYSTEM_PROMPT } from "@/lib/ai/system-prompt";
 import { createWorkflowTools } from "@/lib/ai/tools";
-import type { LanguageModel } from "ai";
+import { formatWorkflowContext, type WorkflowContext } from "@/lib/ai/workflow-context";
+import { getNodeDocsByType } from "@/lib/rag/retrieval";
 
-export const maxDuration = 60;
+// Fix loops re-run the workflow and wait for executions, so allow longer
+export const maxDuration = 300;
+
+// "Fix with AI": how many executions the model may start, and its step budget
+const FIX_LOOP_MAX_RUNS = 3;
+const FIX_LOOP_MAX_STEPS = 20;
 
 export async function POST(req: Request) {
   const body = await req.json();
   const { messages } = body;
+  // What is on the canvas right now, sent by the chat with every message
+  const context = body.context as WorkflowContext | undefined;
+  // Set by "Fix with AI": the failed execution and, when known, the failing node
+  const fix = body.fix as
+    | { executionId: string; nodeName?: string; nodeType?: string }
+    | undefined;
 
   // Read keys from headers (sent by client from localStorage)
   const aiKey =
@@ -21,6 +31,8 @@ export async function POST(req: Request) {
     req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
   const n8nUrl =
     req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  // Approval mode: edits to existing workflows come back as proposals
+  const approvalMode = req.headers.get("x-approval-mode") === "true";
 
   if (!aiKey) {
     return new Response(
@@ -48,49 +60,59 @@ export async function POST(req: Request) {
 
   // Build tools only if n8n is configured
   const tools =
-    n8nUrl && n8nKey ? createWorkflowTools(n8nUrl, n8nKey) : undefined;
+    n8nUrl && n8nKey
+      ? createWorkflowTools(n8nUrl, n8nKey, {
+          approvalMode,
+          maxExecutions: fix ? FIX_LOOP_MAX_RUNS : undefined,
+          canvasPins:
+            context?.workflowId && context.pinData
+              ? { workflowId: context.workflowId, pinData: context.pinData }
+              : undefined,
+        })
+      : undefined;
 
   const modelMessages = await convertToModelMessages(messages);
 
+  let system = context ? SYSTEM_PROMPT + formatWorkflowContext(context) : SYSTEM_PROMPT;
+  if (fix) system += await buildFixContext(fix);
+
   const result = streamText({
     model: createModel(aiProvider, aiModel, aiKey),
-    system: SYSTEM_PROMPT,
+    system,
     messages: modelMessages,
     tools,
-    stopWhen: stepCountIs(5), // Allow multiple tool-call rounds so the model can use RAG results
+    // Allow multiple tool-call rounds so the model can use RAG results;
+    // a fix loop needs room to inspect, patch, re-run and check several times
+    stopWhen: stepCountIs(fix ? FIX_LOOP_MAX_STEPS : 5),
   });
 
   return result.toUIMessageStreamResponse();
 }
 
-function createModel(
-  provider: string,
-  model: string,
-  apiKey: string
-): LanguageModel {
-  if (provider === "gateway") {
-    const gw = createGatewayProvider({ apiKey });
-    return gw(model);
-  }
+/**
+ * System prompt section for a "Fix with AI" request: the execution to debug,
+ * the run budget, and the failing node's documentation when it is available.
+ */
+async function buildFixContext(fix: {
+  executionId: string;
+  nodeName?: string;
+  nodeType?: string;
+}): Promise<string> {
+  let context =
+    `\n\n## Fixing a Failed Execution\nThe user asked you to fix execution "${fix.executionId}"` +
+    (fix.nodeName ? `, which failed at node "${fix.nodeName}"` : "") +
+    `. You may start at most ${FIX_LOOP_MAX_RUNS} executions while fixing it.`;
+  if (!fix.nodeType) return context;
 
-  if (provider === "openai") {
-    const openai = createOpenAI({ apiKey });
-    // Strip "openai/" prefix if present
-    const modelId = model.startsWith("openai/")
-      ? model.slice("openai/".length)
-      : model;
-    return openai(modelId);
-  }
-
-  if (provider === "anthropic") {
-    const anthropic = createAnthropic({ apiKey });
-    const modelId = model.startsWith("anthropic/")
-      ? model.slice("anthropic/".length)
-      : model;
-    return anthropic(modelId);
+  try {
+    const docs = await getNodeDocsByType(fix.nodeType);
+    if (docs.length > 0) {
+      context +=
+        `\n\n### Documentation for ${docs[0].displayName} (${fix.nodeType}, latest typeVersion ${docs[0].typeVersion})\n` +
+        docs.map((d) => `#### ${d.chunkType}\n${d.content}`).join("\n\n");
+    }
+  } catch {
+    // Docs database unavailable — the model can still call getNodeDetails
   }
-
-  // Fallback: try gateway
-  const gw = createGatewayProvider({ apiKey });
-  return gw(model);
+  return context;
 }
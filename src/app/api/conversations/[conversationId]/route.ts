@@ -0,0 +1,117 @@
+import {
+  conversationOwner,
+  deleteConversation,
+  getConversation,
+  isConversationStorageConfigured,
+  saveConversation,
+  updateConversation,
+} from "@/lib/chat/conversation-store";
+import type { ConversationInput } from "@/lib/chat/types";
+import { NextRequest } from "next/server";
+
+type Params = { params: Promise<{ conversationId: string }> };
+
+function storageUnavailable() {
+  return Response.json({ error: "DATABASE_URL is not set" }, { status: 503 });
+}
+
+function getOwner(req: NextRequest): string | null {
+  const n8nUrl = req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  const n8nKey = req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) return null;
+  return conversationOwner(n8nUrl, n8nKey);
+}
+
+function notConfigured() {
+  return Response.json({ error: "n8n not configured" }, { status: 400 });
+}
+
+function notFound() {
+  return Response.json({ error: "Conversation not found" }, { status: 404 });
+}
+
+function failure(err: unknown, fallback: string) {
+  return Response.json(
+    { error: err instanceof Error ? err.message : fallback },
+    { status: 500 }
+  );
+}
+
+export async function GET(req: NextRequest, { params }: Params) {
+  if (!isConversationStorageConfigured()) return storageUnavailable();
+  const owner = getOwner(req);
+  if (!owner) return notConfigured();
+  const { conversationId } = await params;
+  try {
+    const conversation = await getConversation(owner, conversationId);
+    if (!conversation) return notFound();
+    return Response.json(conversation);
+  } catch (err) {
+    return failure(err, "Failed to load conversation");
+  }
+}
+
+/**
+ * PUT /api/conversations/[conversationId]
+ *
+ * Save the whole conversation, creating it on first save.
+ * Body: { workflowId, title, messages }.
+ */
+export async function PUT(req: NextRequest, { params }: Params) {
+  if (!isConversationStorageConfigured()) return storageUnavailable();
+  const owner = getOwner(req);
+  if (!owner) return notConfigured();
+  const { conversationId } = await params;
+  const body = (await req.json()) as Partial<ConversationInput>;
+  if (!Array.isArray(body.messages)) {
+    return Response.json({ error: "messages must be an array" }, { status: 400 });
+  }
+  try {
+    const saved = await saveConversation(owner, {
+      id: conversationId,
+      workflowId: body.workflowId ?? null,
+      title: body.title ?? "",
+      messages: body.messages,
+    });
+    if (!saved) return notFound();
+    return Response.json({ success: true });
+  } catch (err) {
+    return failure(err, "Failed to save conversation");
+  }
+}
+
+/**
+ * PATCH /api/conversations/[conversationId]
+ *
+ * Rename a conversation or tie it to a workflow. Body: { title?, workflowId? }.
+ */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  if (!isConversationStorageConfigured()) return storageUnavailable();
+  const owner = getOwner(req);
+  if (!owner) return notConfigured();
+  const { conversationId } = await params;
+  const body = (await req.json()) as Partial<ConversationInput>;
+  const changes = {
+    ...(typeof body.title === "string" && { title: body.title }),
+    ...(body.workflowId !== undefined && { workflowId: body.workflowId }),
+  };
+  try {
+    if (!(await updateConversation(owner, conversationId, changes))) return notFound();
+    return Response.json({ success: true });
+  } catch (err) {
+    return failure(err, "Failed to update conversation");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  if (!isConversationStorageConfigured()) return storageUnavailable();
+  const owner = getOwner(req);
+  if (!owner) return notConfigured();
+  const { conversationId } = await params;
+  try {
+    await deleteConversation(owner, conversationId);
+    return Response.json({ success: true });
+  } catch (err) {
+    return failure(err, "Failed to delete conversation");
+  }
+}
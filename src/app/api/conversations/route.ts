@@ -0,0 +1,41 @@
+import {
+  conversationOwner,
+  isConversationStorageConfigured,
+  listConversations,
+} from "@/lib/chat/conversation-store";
+import { NextRequest } from "next/server";
+
+/** The n8n connection whose conversations the request may see. */
+function getOwner(req: NextRequest): string | null {
+  const n8nUrl = req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  const n8nKey = req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) return null;
+  return conversationOwner(n8nUrl, n8nKey);
+}
+
+/**
+ * GET /api/conversations?workflowId=123
+ *
+ * The connected n8n instance's saved chat conversations, most recent first.
+ * Returns { data }; 503 when no database is configured, so the client keeps
+ * conversations in the browser.
+ */
+export async function GET(req: NextRequest) {
+  if (!isConversationStorageConfigured()) {
+    return Response.json({ error: "DATABASE_URL is not set" }, { status: 503 });
+  }
+  const owner = getOwner(req);
+  if (!owner) {
+    return Response.json({ error: "n8n not configured" }, { status: 400 });
+  }
+
+  try {
+    const workflowId = req.nextUrl.searchParams.get("workflowId") ?? undefined;
+    return Response.json({ data: await listConversations(owner, workflowId) });
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Failed to list conversations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { N8nClient } from "@/lib/n8n/client";
+import { isPreviewableMimeType } from "@/lib/execution/node-io";
+import { NextRequest } from "next/server";
+
+/**
+ * Return one binary property of an execution item as a file.
+ * Query: node, run, output, item (indexes, default 0) and key (e.g. "data").
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ executionId: string }> }
+) {
+  const n8nUrl = req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  const n8nKey = req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) {
+    return Response.json({ error: "n8n not configured" }, { status: 400 });
+  }
+
+  const { executionId } = await params;
+  const search = req.nextUrl.searchParams;
+  const nodeName = search.get("node");
+  const key = search.get("key");
+  if (!nodeName || !key) {
+    return Response.json({ error: "node and key are required" }, { status: 400 });
+  }
+  const index = (name: string) => Number(search.get(name) ?? 0);
+
+  const client = new N8nClient(n8nUrl, n8nKey);
+  try {
+    const execution = await client.getExecution(executionId);
+    const binary =
+      execution.data?.resultData?.runData?.[nodeName]?.[index("run")]?.data
+        ?.main?.[index("output")]?.[index("item")]?.binary?.[key];
+    if (!binary) {
+      return Response.json({ error: "Binary data not found" }, { status: 404 });
+    }
+    if (binary.id || !binary.data) {
+      return Response.json(
+        {
+          error:
+            "n8n stores this file outside the execution (filesystem or S3 binary mode); open the execution in n8n to download it.",
+        },
+        { status: 422 }
+      );
+    }
+
+    const fileName = binary.fileName ?? `${key}${binary.fileExtension ? `.${binary.fileExtension}` : ""}`;
+    // The type and name come from the workflow: never let the browser render
+    // the file on this origin, where the n8n and AI keys live
+    const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    // RFC 5987: encodeURIComponent leaves ' ( ) * unescaped
+    const encodedName = encodeURIComponent(fileName).replace(
+      /['()*]/g,
+      (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return new Response(Buffer.from(binary.data, "base64"), {
+      headers: {
+        "Content-Type": isPreviewableMimeType(binary.mimeType)
+          ? binary.mimeType
+          : "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "sandbox",
+      },
+    });
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Failed to get binary data" },
+      { status: 500 }
+    );
+  }
+}
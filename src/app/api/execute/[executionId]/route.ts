@@ -1,4 +1,5 @@
 import { N8nClient } from "@/lib/n8n/client";
+import { runCopySource } from "@/lib/execution/strategies";
 import { NextRequest } from "next/server";
 
 export async function GET(
@@ -16,7 +17,12 @@ export async function GET(
 
   try {
     const execution = await client.getExecution(executionId);
-    return Response.json(execution);
+    // Test runs execute in the workflow's run copy; name the workflow they ran
+    return Response.json({
+      ...execution,
+      sourceWorkflowId:
+        runCopySource(execution.workflowData?.name) ?? execution.workflowId,
+    });
   } catch (err) {
     return Response.json(
       { error: err instanceof Error ? err.message : "Failed to get execution" },
@@ -0,0 +1,208 @@
+import { N8nClient } from "@/lib/n8n/client";
+import {
+  diffRunData,
+  formatSseEvent,
+  type ExecutionStreamEvent,
+} from "@/lib/execution/stream-events";
+import type { N8nExecution } from "@/lib/n8n/types";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+export const maxDuration = 300;
+
+// Polling backoff: start fast, slow down while nothing changes
+const MIN_INTERVAL_MS = 500;
+const MAX_INTERVAL_MS = 5000;
+const BACKOFF_FACTOR = 1.5;
+// Give up on executions that run longer than this, counted from the POST
+const MAX_DURATION_MS = 10 * 60 * 1000;
+// End each response before the platform cuts it; EventSource reconnects
+const RESPONSE_BUDGET_MS = (maxDuration - 15) * 1000;
+// Consecutive n8n errors before the stream reports the execution unreachable
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+const STREAM_COOKIE = "n8n-execution-stream";
+// AES-256-GCM key the cookie is sealed with. Without a secret each server
+// process makes its own, which is enough for a single dev server
+const COOKIE_KEY = process.env.STREAM_COOKIE_SECRET
+  ? createHash("sha256").update(process.env.STREAM_COOKIE_SECRET).digest()
+  : randomBytes(32);
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface StreamSession {
+  n8nUrl: string;
+  n8nKey: string;
+  startedAt: number;
+}
+
+type Params = { params: Promise<{ executionId: string }> };
+
+/**
+ * POST /api/execute/[executionId]/stream
+ *
+ * Open a progress stream. EventSource can't send headers and a URL ends up
+ * in logs and history, so the n8n connection is sent here once and kept in
+ * an httpOnly cookie scoped to this execution's stream, together with when
+ * tracking started, so the deadline holds across reconnects. The cookie is
+ * encrypted and authenticated (sealSession), so the key can't be read from
+ * it and a forged or edited cookie is ignored.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const { executionId } = await params;
+  const session: StreamSession = {
+    n8nUrl: req.headers.get("x-n8n-url") || "",
+    n8nKey: req.headers.get("x-n8n-key") || "",
+    startedAt: Date.now(),
+  };
+  const res = NextResponse.json({ success: true });
+  res.cookies.set(STREAM_COOKIE, sealSession(session, executionId), {
+    httpOnly: true,
+    secure: req.nextUrl.protocol === "https:",
+    sameSite: "strict",
+    path: `/api/execute/${encodeURIComponent(executionId)}/stream`,
+    maxAge: MAX_DURATION_MS / 1000 + 60,
+  });
+  return res;
+}
+
+/** Encrypt a session for one execution's stream: iv, auth tag, ciphertext. */
+function sealSession(session: StreamSession, executionId: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", COOKIE_KEY, iv);
+  // Bound to the execution, so the cookie can't be replayed for another
+  cipher.setAAD(Buffer.from(executionId));
+  const data = Buffer.concat([cipher.update(JSON.stringify(session)), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64url");
+}
+
+function readSession(req: NextRequest, executionId: string): StreamSession | null {
+  const cookie = req.cookies.get(STREAM_COOKIE)?.value;
+  if (!cookie) return null;
+  try {
+    const sealed = Buffer.from(cookie, "base64url");
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      COOKIE_KEY,
+      sealed.subarray(0, IV_BYTES)
+    );
+    decipher.setAAD(Buffer.from(executionId));
+    decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const json = Buffer.concat([
+      decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString();
+    return JSON.parse(json) as StreamSession;
+  } catch {
+    // Sealed with another key (e.g. another server process) or tampered with
+    return null;
+  }
+}
+
+/**
+ * GET /api/execute/[executionId]/stream
+ *
+ * Stream execution progress as Server-Sent Events, with the connection the
+ * POST stored, falling back to the environment.
+ */
+export async function GET(req: NextRequest, { params }: Params) {
+  const { executionId } = await params;
+  const session = readSession(req, executionId);
+  const n8nUrl = session?.n8nUrl || process.env.N8N_BASE_URL || "";
+  const n8nKey = session?.n8nKey || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) {
+    return Response.json({ error: "n8n not configured" }, { status: 400 });
+  }
+
+  const client = new N8nClient(n8nUrl, n8nKey);
+  const encoder = new TextEncoder();
+  // Set when the client goes away, so nothing is written to a closed stream
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ExecutionStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(formatSseEvent(event)));
+      };
+
+      const seen = new Map<string, string>();
+      const respondingSince = Date.now();
+      const startedAt = session?.startedAt ?? respondingSince;
+      let interval = MIN_INTERVAL_MS;
+      let errors = 0;
+      let lastStatus: N8nExecution["status"] | undefined;
+
+      while (!cancelled && !req.signal.aborted) {
+        if (Date.now() - startedAt > MAX_DURATION_MS) {
+          send({
+            event: "failure",
+            data: {
+              reason: "timeout",
+              message: `Stopped tracking after ${MAX_DURATION_MS / 60000} minutes; the execution may still be running in n8n.`,
+            },
+          });
+          break;
+        }
+        if (Date.now() - respondingSince > RESPONSE_BUDGET_MS) break;
+
+        let changed = false;
+        try {
+          const execution = await client.getExecution(executionId);
+          errors = 0;
+
+          for (const data of diffRunData(
+            execution.data?.resultData?.runData ?? {},
+            seen
+          )) {
+            send({ event: "node", data });
+            changed = true;
+          }
+          if (execution.status !== lastStatus) {
+            lastStatus = execution.status;
+            send({ event: "status", data: { status: execution.status } });
+            changed = true;
+          }
+          if (execution.finished || execution.stoppedAt) {
+            send({
+              event: "done",
+              data: {
+                status: execution.status,
+                error: execution.data?.resultData?.error?.message,
+              },
+            });
+            break;
+          }
+        } catch (err) {
+          if (++errors >= MAX_CONSECUTIVE_ERRORS) {
+            send({
+              event: "failure",
+              data: {
+                reason: "unreachable",
+                message: err instanceof Error ? err.message : "Failed to get execution",
+              },
+            });
+            break;
+          }
+        }
+
+        interval = changed
+          ? MIN_INTERVAL_MS
+          : Math.min(interval * BACKOFF_FACTOR, MAX_INTERVAL_MS);
+        await new Promise((r) => setTimeout(r, interval));
+      }
+
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { N8nClient } from "@/lib/n8n/client";
+import { NextRequest } from "next/server";
+
+/**
+ * GET /api/n8n/credentials
+ *
+ * The instance's credentials, without secrets. Returns { data, source };
+ * source is "workflows" when they were collected from existing workflows
+ * because the instance's API can't list them.
+ */
+export async function GET(req: NextRequest) {
+  const n8nUrl = req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  const n8nKey = req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) {
+    return Response.json({ error: "n8n not configured" }, { status: 400 });
+  }
+
+  const client = new N8nClient(n8nUrl, n8nKey);
+  try {
+    return Response.json(await client.listCredentials());
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Failed" },
+      { status: 500 }
+    );
+  }
+}
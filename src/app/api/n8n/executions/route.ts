@@ -1,4 +1,5 @@
 import { N8nClient } from "@/lib/n8n/client";
+import { listWorkflowExecutions, summarizeExecution } from "@/lib/execution/history";
 import { NextRequest } from "next/server";
 
 export async function GET(req: NextRequest) {
@@ -10,12 +11,24 @@ export async function GET(req: NextRequest) {
 
   const client = new N8nClient(n8nUrl, n8nKey);
   try {
-    const workflowId = req.nextUrl.searchParams.get("workflowId") ?? undefined;
-    const limit = req.nextUrl.searchParams.get("limit");
-    const result = await client.listExecutions({
-      workflowId,
+    const search = req.nextUrl.searchParams;
+    const workflowId = search.get("workflowId") ?? undefined;
+    const limit = search.get("limit");
+    const page = {
       limit: limit ? parseInt(limit, 10) : 10,
-    });
+      cursor: search.get("cursor") ?? undefined,
+    };
+    // A workflow's history includes its test runs, which ran in its run copy
+    const result = workflowId
+      ? await listWorkflowExecutions(client, workflowId, page)
+      : await client.listExecutions(page);
+    // ?summary=true returns compact rows for the history list instead of runData
+    if (search.get("summary") === "true") {
+      return Response.json({
+        data: result.data.map(summarizeExecution),
+        nextCursor: result.nextCursor ?? null,
+      });
+    }
     return Response.json(result);
   } catch (err) {
     return Response.json(
@@ -0,0 +1,69 @@
+import { N8nClient, WorkflowConflictError } from "@/lib/n8n/client";
+import type { N8nWorkflow } from "@/lib/n8n/types";
+import { NextRequest } from "next/server";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  const n8nUrl = req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  const n8nKey = req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) {
+    return Response.json({ error: "n8n not configured" }, { status: 400 });
+  }
+
+  const { workflowId } = await params;
+  const client = new N8nClient(n8nUrl, n8nKey);
+
+  try {
+    const workflow = await client.getWorkflow(workflowId);
+    return Response.json(workflow);
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Failed to get workflow" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/n8n/workflows/[workflowId]
+ *
+ * Saves a canvas-edited workflow back to n8n. When `expectedUpdatedAt` is
+ * given, the save is rejected with 409 if the workflow changed in n8n since.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  const n8nUrl = req.headers.get("x-n8n-url") || process.env.N8N_BASE_URL || "";
+  const n8nKey = req.headers.get("x-n8n-key") || process.env.N8N_API_KEY || "";
+  if (!n8nUrl || !n8nKey) {
+    return Response.json({ error: "n8n not configured" }, { status: 400 });
+  }
+
+  const { workflowId } = await params;
+  const client = new N8nClient(n8nUrl, n8nKey);
+
+  try {
+    const { workflow, expectedUpdatedAt } = (await req.json()) as {
+      workflow: Partial<N8nWorkflow>;
+      expectedUpdatedAt?: string;
+    };
+    const updated = await client.updateWorkflow(workflowId, workflow, {
+      expectedUpdatedAt,
+    });
+    return Response.json(updated);
+  } catch (err) {
+    if (err instanceof WorkflowConflictError) {
+      return Response.json(
+        { error: err.message, conflict: true, updatedAt: err.actualUpdatedAt },
+        { status: 409 }
+      );
+    }
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Failed to save workflow" },
+      { status: 500 }
+    );
+  }
+}
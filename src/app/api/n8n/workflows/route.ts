@@ -21,6 +21,9 @@ export async function GET(req: NextRequest) {
     const result = await client.listWorkflows({
       limit: limit ? parseInt(limit, 10) : undefined,
       active: active ? active === "true" : undefined,
+      name: req.nextUrl.searchParams.get("name") ?? undefined,
+      tags: req.nextUrl.searchParams.get("tags") ?? undefined,
+      cursor: req.nextUrl.searchParams.get("cursor") ?? undefined,
     });
     return Response.json(result);
   } catch (err) {
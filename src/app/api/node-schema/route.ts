@@ -0,0 +1,57 @@
+import { getLatestNodeVersions, getParameterSchemas } from "@/lib/rag/retrieval";
+import { NextRequest } from "next/server";
+
+/**
+ * GET /api/node-schema?type=n8n-nodes-base.slack&version=2.2
+ *
+ * The synced parameter schema of one node type version, for the parameter
+ * form and credential checks. Returns { properties, credentials }; 404 when
+ * the type or version isn't synced.
+ *
+ * GET /api/node-schema?type=n8n-nodes-base.slack&version=latest
+ *
+ * The latest synced typeVersion (the one the workflow validator expects) as
+ * { typeVersion }; 404 when the type has no docs.
+ */
+export async function GET(req: NextRequest) {
+  const search = req.nextUrl.searchParams;
+  const nodeType = search.get("type");
+  const version = Number(search.get("version") ?? 1);
+  if (nodeType && search.get("version") === "latest") {
+    try {
+      const typeVersion = (await getLatestNodeVersions([nodeType])).get(nodeType);
+      if (typeVersion === undefined) {
+        return Response.json({ error: `No docs for ${nodeType}` }, { status: 404 });
+      }
+      return Response.json({ typeVersion });
+    } catch (err) {
+      return Response.json(
+        { error: err instanceof Error ? err.message : "Failed to load versions" },
+        { status: 500 }
+      );
+    }
+  }
+  if (!nodeType || Number.isNaN(version)) {
+    return Response.json({ error: "type and version are required" }, { status: 400 });
+  }
+
+  try {
+    const schemas = await getParameterSchemas([nodeType]);
+    const schema = schemas.get(nodeType)?.find((s) => s.typeVersions.includes(version));
+    if (!schema) {
+      return Response.json(
+        { error: `No parameter schema for ${nodeType} v${version}` },
+        { status: 404 }
+      );
+    }
+    return Response.json({
+      properties: schema.properties,
+      credentials: schema.credentials,
+    });
+  } catch (err) {
+    return Response.json(
+      { error: err instanceof Error ? err.message : "Failed to load schema" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { generateText } from "ai";
+import { createModel } from "@/lib/ai/model";
+import { normalizePinItems } from "@/lib/execution/pin-data";
+import { getNodeDocsByType } from "@/lib/rag/retrieval";
+
+const ITEM_COUNT = 3;
+
+/**
+ * POST /api/pin-data/generate
+ *
+ * Generate realistic sample output for a node to pin, based on its
+ * documentation and configuration. Body: { nodeName, nodeType, parameters }.
+ * Returns { items } in n8n's `{ json }` item shape.
+ */
+export async function POST(req: Request) {
+  const aiKey =
+    req.headers.get("x-ai-key") || process.env.AI_GATEWAY_API_KEY || "";
+  const aiModel = req.headers.get("x-ai-model") || "openai/gpt-4o";
+  const aiProvider = req.headers.get("x-ai-provider") || "gateway";
+  if (!aiKey) {
+    return Response.json(
+      { error: "No AI API key configured. Go to Settings." },
+      { status: 401 }
+    );
+  }
+
+  const { nodeName, nodeType, parameters } = (await req.json()) as {
+    nodeName?: string;
+    nodeType?: string;
+    parameters?: Record<string, unknown>;
+  };
+  if (!nodeType) {
+    return Response.json({ error: "nodeType is required" }, { status: 400 });
+  }
+
+  let docs = "";
+  try {
+    const chunks = await getNodeDocsByType(nodeType);
+    docs = chunks.map((d) => `## ${d.chunkType}\n${d.content}`).join("\n\n");
+  } catch {
+    // Docs database unavailable — the model still knows most common nodes
+  }
+
+  try {
+    const { text } = await generateText({
+      model: createModel(aiProvider, aiModel, aiKey),
+      system:
+        "You generate sample output data for n8n nodes, used to test workflows without calling real services. " +
+        "Reply with a JSON array only — no prose, no code fences. Each element is one output item's JSON object, " +
+        "with the fields and value types the node really returns for its configuration, filled with realistic but fake values.",
+      prompt:
+        `Generate ${ITEM_COUNT} output items for the node "${nodeName ?? nodeType}" (${nodeType}).\n\n` +
+        `Configuration:\n${JSON.stringify(parameters ?? {}, null, 2)}` +
+        (docs ? `\n\nDocumentation:\n${docs}` : ""),
+    });
+    const json = text.trim().replace(/^```(?:json)?\s*/, "").replace(/```$/, "");
+    return Response.json({ items: normalizePinItems(JSON.parse(json)) });
+  } catch (err) {
+    return Response.json(
+      {
+        error:
+          err instanceof SyntaxError
+            ? "The model did not return valid JSON. Try again."
+            : err instanceof Error
+              ? err.message
+              : "Failed to generate sample data",
+      },
+      { status: 500 }
+    );
+  }
+}
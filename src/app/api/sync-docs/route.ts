@@ -1,14 +1,52 @@
-import { runIngestion, type SyncResult } from "@/lib/rag/ingest";
+import { hasUnfinishedSync, runIngestion, type SyncResult } from "@/lib/rag/ingest";
+import { getEmbeddingProvider, sameEmbeddingSpace } from "@/lib/rag/embedding";
 import { db } from "@/lib/db";
-import { syncLog } from "@/lib/db/schema";
-import { desc, eq } from "drizzle-orm";
+import { nodeDocs, syncLog, workflowTemplates } from "@/lib/db/schema";
+import { count, desc, eq, ne, not } from "drizzle-orm";
 
 export const maxDuration = 300; // 5 minutes — ingestion can be slow
 
+// Stop starting new work a minute before maxDuration; the next run resumes
+const TIME_BUDGET_MS = 240_000;
+// Changed chunk keys listed in a dry run's response
+const DRY_RUN_LIST_LIMIT = 100;
+const ALREADY_RUNNING = "Another sync is already running.";
+
+function syncResponse(result: SyncResult) {
+  const { added, changed, reembedded, unchanged } = result.changes;
+  return {
+    success: result.success,
+    complete: result.complete,
+    resumed: result.resumed,
+    dryRun: result.dryRun,
+    nodesProcessed: result.nodesProcessed,
+    chunksCreated: result.chunksCreated,
+    changes: {
+      added: added.length,
+      changed: changed.length,
+      reembedded: reembedded.length,
+      unchanged,
+    },
+    ...(result.dryRun && {
+      changedChunks: {
+        added: added.slice(0, DRY_RUN_LIST_LIMIT),
+        changed: changed.slice(0, DRY_RUN_LIST_LIMIT),
+        reembedded: reembedded.slice(0, DRY_RUN_LIST_LIMIT),
+      },
+    }),
+    templatesProcessed: result.templatesProcessed,
+    schemasProcessed: result.schemasProcessed,
+    errors: result.errors.slice(0, 10), // Limit error output
+    durationMs: result.duration,
+  };
+}
+
 /**
  * POST /api/sync-docs
  *
- * Triggers the n8n node documentation + template ingestion pipeline.
+ * Triggers the n8n node documentation + template ingestion pipeline, or
+ * continues an unfinished one. With `?dryRun=1`, only reports which node
+ * doc chunks would be added, changed or re-embedded.
  * Protected by CRON_SECRET (for Vercel Cron) or the user's AI key (for manual trigger).
  */
 export async function POST(req: Request) {
@@ -30,16 +68,16 @@ export async function POST(req: Request) {
   }
 
   try {
-    const result: SyncResult = await runIngestion();
-
-    return Response.json({
-      success: result.success,
-      nodesProcessed: result.nodesProcessed,
-      chunksCreated: result.chunksCreated,
-      templatesProcessed: result.templatesProcessed,
-      errors: result.errors.slice(0, 10), // Limit error output
-      durationMs: result.duration,
+    const dryRun = new URL(req.url).searchParams.get("dryRun") === "1";
+    const result: SyncResult = await runIngestion({
+      dryRun,
+      timeBudgetMs: TIME_BUDGET_MS,
     });
+    if (result.alreadyRunning) {
+      return Response.json({ success: false, error: ALREADY_RUNNING }, { status: 409 });
+    }
+
+    return Response.json(syncResponse(result));
   } catch (err) {
     console.error("[sync-docs] Ingestion failed:", err);
     return Response.json(
@@ -65,16 +103,18 @@ export async function GET(req: Request) {
   const isVercelCron = cronSecret && authHeader === `Bearer ${cronSecret}`;
 
   if (isVercelCron) {
-    // This is a cron trigger — run the ingestion
+    // This is a cron trigger — run the ingestion. The follow-up crons
+    // (`?resume=only`) only continue a run that stopped at its time budget
     try {
-      const result: SyncResult = await runIngestion();
-      return Response.json({
-        success: result.success,
-        nodesProcessed: result.nodesProcessed,
-        chunksCreated: result.chunksCreated,
-        templatesProcessed: result.templatesProcessed,
-        durationMs: result.duration,
-      });
+      const resumeOnly = new URL(req.url).searchParams.get("resume") === "only";
+      if (resumeOnly && !(await hasUnfinishedSync())) {
+        return Response.json({ success: true, skipped: "No unfinished sync to resume." });
+      }
+      const result: SyncResult = await runIngestion({ timeBudgetMs: TIME_BUDGET_MS });
+      if (result.alreadyRunning) {
+        return Response.json({ success: true, skipped: ALREADY_RUNNING });
+      }
+      return Response.json(syncResponse(result));
     } catch (err) {
       return Response.json(
         {
@@ -88,7 +128,7 @@ export async function GET(req: Request) {
 
   // Regular GET: return latest sync status for both sources
   try {
-    const [docsSync, templatesSync] = await Promise.all([
+    const [docsSync, templatesSync, embedding] = await Promise.all([
       db
         .select()
         .from(syncLog)
@@ -101,6 +141,7 @@ export async function GET(req: Request) {
         .where(eq(syncLog.source, "n8n-templates"))
         .orderBy(desc(syncLog.syncedAt))
         .limit(1),
+      getEmbeddingStatus().catch(() => null),
     ]);
 
     const docsLog = docsSync[0] ?? null;
@@ -110,6 +151,7 @@ export async function GET(req: Request) {
       return Response.json({
         lastSync: null,
         lastTemplateSync: null,
+        embedding,
         message: "No sync has been performed yet.",
       });
     }
@@ -121,6 +163,8 @@ export async function GET(req: Request) {
             source: docsLog.source,
             nodesProcessed: docsLog.nodesProcessed,
             error: docsLog.error,
+            stage: docsLog.stage,
+            progress: docsLog.progress,
             syncedAt: docsLog.syncedAt,
           }
         : null,
@@ -133,6 +177,7 @@ export async function GET(req: Request) {
             syncedAt: templatesLog.syncedAt,
           }
         : null,
+      embedding,
     });
   } catch (err) {
     // Database might not be set up yet
@@ -144,3 +189,21 @@ export async function GET(req: Request) {
     });
   }
 }
+
+/**
+ * The configured embedding model, and how many stored rows were embedded
+ * with another one. Those are left out of vector search until a sync
+ * re-embeds them.
+ */
+async function getEmbeddingStatus() {
+  const provider = getEmbeddingProvider();
+  const otherSpace = (table: typeof nodeDocs | typeof workflowTemplates) =>
+    provider.dimensions
+      ? not(sameEmbeddingSpace(table, provider.model, provider.dimensions))
+      : ne(table.embeddingModel, provider.model);
+  const [[docs], [templates]] = await Promise.all([
+    db.select({ rows: count() }).from(nodeDocs).where(otherSpace(nodeDocs)),
+    db.select({ rows: count() }).from(workflowTemplates).where(otherSpace(workflowTemplates)),
+  ]);
+  return { model: provider.model, staleRows: docs.rows + templates.rows };
+}
@@ -25,6 +25,7 @@ interface SyncStatusData {
     source: string;
     nodesProcessed: number;
     error: string | null;
+    stage: string | null; // next stage of an unfinished run
     syncedAt: string;
   } | null;
   lastTemplateSync: {
@@ -34,6 +35,7 @@ interface SyncStatusData {
     error: string | null;
     syncedAt: string;
   } | null;
+  embedding?: { model: string; staleRows: number } | null;
   message?: string;
 }
 
@@ -49,9 +51,12 @@ export default function SettingsPage() {
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncResult, setSyncResult] = useState<{
     success: boolean;
+    complete?: boolean;
     nodesProcessed?: number;
     chunksCreated?: number;
+    changes?: { unchanged: number };
     templatesProcessed?: number;
+    schemasProcessed?: number;
     error?: string;
   } | null>(null);
 
@@ -351,10 +356,16 @@ export default function SettingsPage() {
                         className={
                           syncStatus.lastSync.status === "success"
                             ? "text-green-600"
-                            : "text-destructive"
+                            : syncStatus.lastSync.status === "error"
+                              ? "text-destructive"
+                              : "text-amber-600"
                         }
                       >
-                        {syncStatus.lastSync.status === "success" ? "Success" : "Error"}
+                        {syncStatus.lastSync.status === "success"
+                          ? "Success"
+                          : syncStatus.lastSync.status === "error"
+                            ? "Error"
+                            : "Incomplete"}
                       </span>
                     </p>
                     <p className="text-xs text-muted-foreground">
@@ -362,6 +373,13 @@ export default function SettingsPage() {
                     </p>
                   </div>
                 </div>
+                {(syncStatus.lastSync.status === "running" ||
+                  syncStatus.lastSync.status === "partial") && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Stopped before finishing ({syncStatus.lastSync.stage ?? "docs"} stage).
+                    The next sync continues from there.
+                  </p>
+                )}
                 {syncStatus.lastSync.error && (
                   <p className="mt-2 text-xs text-destructive">
                     {syncStatus.lastSync.error}
@@ -411,6 +429,20 @@ export default function SettingsPage() {
               </div>
             )}
 
+            {/* Embedding model */}
+            {syncStatus?.embedding && (
+              <p className="text-xs text-muted-foreground">
+                Embeddings: {syncStatus.embedding.model}
+                {syncStatus.embedding.staleRows > 0 && (
+                  <span className="text-destructive">
+                    {" "}
+                    — {syncStatus.embedding.staleRows} rows were embedded with another
+                    model and are skipped by search until the next sync.
+                  </span>
+                )}
+              </p>
+            )}
+
             {/* Sync result (after triggering) */}
             {syncResult && (
               <div
@@ -422,10 +454,19 @@ export default function SettingsPage() {
               >
                 {syncResult.success ? (
                   <p>
-                    Sync completed: {syncResult.nodesProcessed} nodes processed,{" "}
-                    {syncResult.chunksCreated} documentation chunks created
+                    {syncResult.complete === false
+                      ? "Sync stopped at the time limit; run it again to continue"
+                      : "Sync completed"}
+                    : {syncResult.nodesProcessed} nodes processed,{" "}
+                    {syncResult.chunksCreated} documentation chunks updated
+                    {syncResult.changes
+                      ? ` (${syncResult.changes.unchanged} unchanged)`
+                      : ""}
                     {syncResult.templatesProcessed
                       ? `, ${syncResult.templatesProcessed} templates synced`
+                      : ""}
+                    {syncResult.schemasProcessed
+                      ? `, ${syncResult.schemasProcessed} parameter schemas stored`
                       : ""}.
                   </p>
                 ) : (
@@ -450,7 +491,8 @@ export default function SettingsPage() {
                 {isSyncing ? "Syncing..." : "Sync Now"}
               </Button>
               <p className="text-xs text-muted-foreground">
-                Fetches latest node docs and workflow templates. May take a few minutes.
+                Fetches latest node docs and workflow templates; only changed docs are
+                re-embedded. May take a few minutes.
               </p>
             </div>
 
@@ -7,22 +7,141 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useWorkflowStore } from "@/stores/workflow-store";
 import { useSettings } from "@/contexts/settings-context";
-import { runWorkflow, stopPolling } from "@/lib/execution/execution-manager";
+import {
+  dryRunWorkflow,
+  runWorkflow,
+  stopTracking,
+} from "@/lib/execution/execution-manager";
+import type { ExecutionStrategy } from "@/lib/execution/strategies";
+import { requestExecutionFix } from "@/lib/execution/fix-with-ai";
+import { saveWorkflow } from "@/lib/n8n/workflow-sync";
+import { reactFlowToN8n } from "@/lib/n8n/converter";
+import { NODE_REGISTRY, type NodeTypeInfo } from "@/lib/n8n/node-registry";
+import { ExecutionsPanel } from "./executions-panel";
 import {
   Play,
   Square,
   RotateCcw,
   Download,
   Loader2,
+  Plus,
+  Save,
+  Undo2,
+  Redo2,
+  History,
+  Sparkles,
+  FlaskConical,
 } from "lucide-react";
-import { useCallback } from "react";
+import { Fragment, useCallback, useEffect, useState } from "react";
 import { toast } from "sonner";
 
+const NODE_GROUPS: Array<{ label: string; category: NodeTypeInfo["category"] }> = [
+  { label: "Triggers", category: "trigger" },
+  { label: "Actions", category: "action" },
+  { label: "Logic", category: "logic" },
+  { label: "Output", category: "output" },
+];
+
+const STRATEGY_LABELS: Record<ExecutionStrategy, string> = {
+  "test-webhook": "test URL",
+  manual: "run copy",
+  mock: "pinned data",
+};
+
 export function CanvasToolbar() {
-  const { workflow, executionStatus, resetExecution } = useWorkflowStore();
-  const { settings, isN8nConfigured } = useSettings();
+  const {
+    workflow,
+    executionStatus,
+    resetExecution,
+    isDirty,
+    addNode,
+    past,
+    future,
+  } = useWorkflowStore();
+  const { settings, isN8nConfigured, isAiConfigured } = useSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const isRunning = executionStatus === "running";
+
+  const handleSave = useCallback(async () => {
+    const save = async (force: boolean) => {
+      setIsSaving(true);
+      const result = await saveWorkflow(settings, { force });
+      setIsSaving(false);
+      if (result.success) {
+        toast.success("Workflow saved to n8n");
+      } else if (result.conflict) {
+        toast.error("Workflow was changed in n8n since you opened it", {
+          description: "Saving now would overwrite those changes.",
+          action: { label: "Overwrite", onClick: () => save(true) },
+        });
+      } else {
+        toast.error(result.error);
+      }
+    };
+    await save(false);
+  }, [settings]);
+
+  const handleHistory = useCallback(
+    (direction: "undo" | "redo") => {
+      const store = useWorkflowStore.getState();
+      const entry = direction === "undo" ? store.undo() : store.redo();
+      if (!entry) return;
+      const restored = useWorkflowStore.getState().workflow;
+      toast(`${direction === "undo" ? "Undid" : "Redid"}: ${entry.label}`, {
+        // The canvas is local; n8n keeps whatever was last saved until asked
+        action:
+          restored?.id && isN8nConfigured
+            ? {
+                label: "Apply in n8n",
+                onClick: async () => {
+                  const result = await saveWorkflow(settings, { force: true });
+                  if (result.success) toast.success("n8n workflow reverted");
+                  else toast.error(result.error);
+                },
+              }
+            : undefined,
+      });
+    },
+    [settings, isN8nConfigured]
+  );
+
+  // Cmd/Ctrl+Z to undo, Cmd/Ctrl+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA"
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        handleHistory(e.shiftKey ? "redo" : "undo");
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        handleHistory("redo");
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleHistory]);
 
   const handleRun = useCallback(async () => {
     if (!workflow?.id) {
@@ -35,19 +154,36 @@ export function CanvasToolbar() {
     }
     const result = await runWorkflow(workflow.id, settings);
     if (result.success) {
+      const via = `via ${STRATEGY_LABELS[result.strategy]}`;
       if (result.executionId) {
-        toast.success("Execution started — tracking progress");
+        toast.success(`Execution started ${via} — tracking progress`);
       } else {
-        toast.info(result.message || "Workflow activated");
+        toast.info(result.message || `Trigger called ${via}`);
       }
     } else {
       toast.error(result.error || "Execution failed");
     }
   }, [workflow, settings, isN8nConfigured]);
 
+  const handleDryRun = useCallback(() => {
+    const result = dryRunWorkflow();
+    const nodes = Object.values(result.nodes);
+    if (nodes.length === 0) {
+      toast.error("Nothing to simulate — add a trigger first");
+      return;
+    }
+    const skipped = nodes.filter((n) => n.status === "skipped").length;
+    const summary =
+      `${nodes.length - skipped} node${nodes.length - skipped !== 1 ? "s" : ""} simulated` +
+      (skipped > 0 ? `, ${skipped} skipped` : "");
+    if (result.status === "error") toast.error(`Dry run failed — ${summary}`);
+    else toast.success(`Dry run finished — ${summary}`);
+  }, []);
+
   const handleStop = useCallback(() => {
-    stopPolling();
-    useWorkflowStore.getState().finishExecution("error");
+    const { executionId, finishExecution } = useWorkflowStore.getState();
+    if (executionId) stopTracking(executionId);
+    finishExecution("error");
     toast.info("Execution stopped");
   }, []);
 
@@ -57,7 +193,9 @@ export function CanvasToolbar() {
 
   const handleExport = useCallback(() => {
     if (!workflow) return;
-    const json = JSON.stringify(workflow, null, 2);
+    // The canvas as it is now, including edits not saved to n8n yet
+    const { nodes, edges } = useWorkflowStore.getState();
+    const json = JSON.stringify(reactFlowToN8n(nodes, edges, workflow), null, 2);
     const blob = new Blob([json], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -68,10 +206,108 @@ export function CanvasToolbar() {
     toast.success("Workflow exported");
   }, [workflow]);
 
-  const isRunning = executionStatus === "running";
-
   return (
     <div className="absolute top-3 right-3 z-10 flex items-center gap-2">
+      <div className="flex items-center">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-8"
+              onClick={() => handleHistory("undo")}
+              disabled={past.length === 0 || isRunning}
+            >
+              <Undo2 className="size-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {past.length > 0 ? `Undo ${past[past.length - 1].label}` : "Undo"}
+          </TooltipContent>
+        </Tooltip>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-8"
+              onClick={() => handleHistory("redo")}
+              disabled={future.length === 0 || isRunning}
+            >
+              <Redo2 className="size-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            {future.length > 0
+              ? `Redo ${future[future.length - 1].label}`
+              : "Redo"}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      {isDirty && (
+        <Badge variant="outline" className="text-amber-500">
+          Unsaved changes
+        </Badge>
+      )}
+
+      {workflow?.id && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleSave}
+              disabled={!isDirty || isSaving || !isN8nConfigured || isRunning}
+            >
+              {isSaving ? (
+                <Loader2 className="mr-1 size-3 animate-spin" />
+              ) : (
+                <Save className="mr-1 size-3" />
+              )}
+              Save
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Save canvas changes to n8n</TooltipContent>
+        </Tooltip>
+      )}
+
+      <DropdownMenu>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="size-8">
+                <Plus className="size-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+          </TooltipTrigger>
+          <TooltipContent>Add node</TooltipContent>
+        </Tooltip>
+        <DropdownMenuContent align="end" className="max-h-96 overflow-y-auto">
+          {NODE_GROUPS.map((group, i) => (
+            <Fragment key={group.category}>
+              {i > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuLabel className="text-[10px] text-muted-foreground">
+                {group.label}
+              </DropdownMenuLabel>
+              <DropdownMenuGroup>
+                {Object.entries(NODE_REGISTRY)
+                  .filter(([, info]) => info.category === group.category)
+                  .map(([type, info]) => (
+                    <DropdownMenuItem
+                      key={type}
+                      className="text-xs"
+                      onSelect={() => addNode(type)}
+                    >
+                      {info.label}
+                    </DropdownMenuItem>
+                  ))}
+              </DropdownMenuGroup>
+            </Fragment>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
       {executionStatus !== "idle" && (
         <Badge
           variant={
@@ -97,6 +333,18 @@ export function CanvasToolbar() {
         </Badge>
       )}
 
+      {executionStatus === "error" && isAiConfigured && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button size="sm" variant="outline" onClick={() => requestExecutionFix()}>
+              <Sparkles className="mr-1 size-3" />
+              Fix with AI
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Ask the AI to debug and fix this execution</TooltipContent>
+        </Tooltip>
+      )}
+
       {isRunning ? (
         <Tooltip>
           <TooltipTrigger asChild>
@@ -124,6 +372,18 @@ export function CanvasToolbar() {
         </Tooltip>
       )}
 
+      {!isRunning && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button size="sm" variant="outline" onClick={handleDryRun} disabled={!workflow}>
+              <FlaskConical className="mr-1 size-3" />
+              Dry run
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Simulate core logic nodes locally with pinned data</TooltipContent>
+        </Tooltip>
+      )}
+
       {executionStatus !== "idle" && !isRunning && (
         <Tooltip>
           <TooltipTrigger asChild>
@@ -135,6 +395,24 @@ export function CanvasToolbar() {
         </Tooltip>
       )}
 
+      {workflow?.id && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-8"
+              disabled={!isN8nConfigured}
+              onClick={() => setIsHistoryOpen(true)}
+            >
+              <History className="size-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Execution history</TooltipContent>
+        </Tooltip>
+      )}
+      <ExecutionsPanel open={isHistoryOpen} onOpenChange={setIsHistoryOpen} />
+
       {workflow && (
         <Tooltip>
           <TooltipTrigger asChild>
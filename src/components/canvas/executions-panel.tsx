@@ -0,0 +1,209 @@
+"use client";
+
+import { useSettings } from "@/contexts/settings-context";
+import { useWorkflowStore } from "@/stores/workflow-store";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { replayExecution } from "@/lib/execution/execution-manager";
+import type { ExecutionSummary } from "@/lib/execution/history";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Partial<Record<ExecutionSummary["status"], string>> = {
+  success: "bg-green-500/10 text-green-600 dark:text-green-400",
+  error: "bg-red-500/10 text-red-600 dark:text-red-400",
+  crashed: "bg-red-500/10 text-red-600 dark:text-red-400",
+  running: "animate-pulse",
+  waiting: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+};
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+interface ExecutionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExecutionsPanel({ open, onOpenChange }: ExecutionsPanelProps) {
+  const { settings } = useSettings();
+  const workflowId = useWorkflowStore((s) => s.workflow?.id);
+  const shownExecutionId = useWorkflowStore((s) => s.executionId);
+  const [executions, setExecutions] = useState<ExecutionSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  // Ignore responses for a workflow that is no longer open
+  const requestIdRef = useRef(0);
+
+  const loadPage = useCallback(
+    async (cursor?: string) => {
+      if (!workflowId) return;
+      const requestId = ++requestIdRef.current;
+      setIsLoading(true);
+      setError("");
+      try {
+        const params = new URLSearchParams({
+          workflowId,
+          limit: String(PAGE_SIZE),
+          summary: "true",
+        });
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/n8n/executions?${params}`, {
+          headers: {
+            "x-n8n-key": settings.n8nApiKey,
+            "x-n8n-url": settings.n8nBaseUrl,
+          },
+        });
+        const data = await res.json();
+        if (requestId !== requestIdRef.current) return;
+        if (!res.ok) {
+          setError(data.error || `HTTP ${res.status}`);
+          return;
+        }
+        const page = (data.data ?? []) as ExecutionSummary[];
+        setExecutions((prev) => (cursor ? [...prev, ...page] : page));
+        setNextCursor(data.nextCursor ?? null);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        setError(err instanceof Error ? err.message : "Failed to load executions");
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    },
+    [workflowId, settings.n8nApiKey, settings.n8nBaseUrl]
+  );
+
+  // (Re)load the first page when the panel opens or another workflow is loaded
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(() => loadPage(), 0);
+    return () => clearTimeout(timer);
+  }, [open, loadPage]);
+
+  const handleReplay = useCallback(
+    async (id: string) => {
+      setReplayingId(id);
+      const result = await replayExecution(id, settings);
+      setReplayingId(null);
+      if (!result.success) toast.error(result.error);
+    },
+    [settings]
+  );
+
+  return (
+    // Non-modal, so the canvas stays visible and clickable beside the list
+    <Sheet open={open} onOpenChange={onOpenChange} modal={false}>
+      <SheetContent
+        side="right"
+        className="w-96 gap-0 sm:max-w-md"
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <SheetHeader className="border-b">
+          <div className="flex items-center justify-between pr-6">
+            <SheetTitle>Executions</SheetTitle>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              disabled={isLoading || !workflowId}
+              onClick={() => loadPage()}
+            >
+              <RefreshCw className="size-3.5" />
+            </Button>
+          </div>
+          <SheetDescription>
+            Past runs of this workflow. Select one to show it on the canvas.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="min-h-0 flex-1">
+          {!workflowId ? (
+            <p className="p-4 text-xs text-muted-foreground">
+              Open a workflow saved in n8n to see its executions
+            </p>
+          ) : error ? (
+            <p className="p-4 text-xs text-destructive">{error}</p>
+          ) : executions.length === 0 && !isLoading ? (
+            <p className="p-4 text-xs text-muted-foreground">No executions yet</p>
+          ) : (
+            <div className="divide-y">
+              {executions.map((e) => (
+                <button
+                  key={e.id}
+                  onClick={() => handleReplay(e.id)}
+                  disabled={replayingId !== null}
+                  className={`flex w-full flex-col gap-1 px-4 py-2 text-left transition-colors hover:bg-muted/50 disabled:opacity-60 ${
+                    shownExecutionId === e.id ? "bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={`h-4 text-[10px] ${STATUS_STYLES[e.status] ?? ""}`}
+                    >
+                      {e.status}
+                    </Badge>
+                    <span className="text-xs font-medium">#{e.id}</span>
+                    <span className="text-[10px] text-muted-foreground">{e.mode}</span>
+                    <span className="ml-auto text-[10px] text-muted-foreground">
+                      {formatDuration(e.durationMs)}
+                    </span>
+                    {replayingId === e.id && (
+                      <Loader2 className="size-3 animate-spin text-muted-foreground" />
+                    )}
+                  </div>
+                  <span className="text-[10px] text-muted-foreground">
+                    {new Date(e.startedAt).toLocaleString()}
+                  </span>
+                  {e.error && (
+                    <p className="line-clamp-2 text-[11px] text-destructive">
+                      {e.errorNode && <span className="font-medium">{e.errorNode}: </span>}
+                      {e.error}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          {isLoading && (
+            <div className="flex justify-center p-3">
+              <Loader2 className="size-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </ScrollArea>
+
+        {nextCursor && (
+          <div className="border-t p-3">
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={isLoading}
+              onClick={() => loadPage(nextCursor)}
+            >
+              Load more
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
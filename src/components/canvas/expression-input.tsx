@@ -0,0 +1,177 @@
+"use client";
+
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { Textarea } from "@/components/ui/textarea";
+import { reactFlowToN8n } from "@/lib/n8n/converter";
+import { lintExpression, upstreamNodes } from "@/lib/n8n/expression-linter";
+import {
+  getCompletions,
+  type CompletionContext,
+  type CompletionResult,
+} from "@/lib/n8n/expression-completions";
+import { isExpression } from "@/lib/n8n/expressions";
+import { cn } from "@/lib/utils";
+import { useMemo, useRef, useState } from "react";
+
+/**
+ * Text field for a node parameter. When the value is an expression ("=…")
+ * it suggests variables, upstream nodes and field paths of their captured
+ * output inside `{{ … }}`, and flags references to unknown or later nodes.
+ */
+export function ExpressionInput({
+  nodeId,
+  value,
+  onChange,
+  placeholder,
+  className,
+}: {
+  nodeId: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}) {
+  const { nodes, edges, workflow, nodeOutputs } = useWorkflowStore();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [completions, setCompletions] = useState<CompletionResult | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const nodeName = nodes.find((n) => n.id === nodeId)?.data.label as string | undefined;
+  const graph = useMemo(
+    () => reactFlowToN8n(nodes, edges, workflow ?? undefined),
+    [nodes, edges, workflow]
+  );
+  const upstream = useMemo(
+    () => (nodeName ? upstreamNodes(graph, nodeName) : new Set<string>()),
+    [graph, nodeName]
+  );
+
+  const context = useMemo((): CompletionContext => {
+    const idByName = new Map(nodes.map((n) => [n.data.label as string, n.id]));
+    const outputOf = (id: string | undefined) =>
+      id ? nodeOutputs[id]?.runs.at(-1)?.outputs.flat() : undefined;
+    // What the node received last time, or else what its first parent sent
+    const parent = edges.find((e) => e.target === nodeId)?.source;
+    return {
+      upstream: [...upstream],
+      inputItems:
+        nodeOutputs[nodeId]?.runs.at(-1)?.inputs[0] ?? outputOf(parent) ?? [],
+      getNodeItems: (name) => outputOf(idByName.get(name)),
+    };
+  }, [nodes, edges, nodeOutputs, nodeId, upstream]);
+
+  const issues = useMemo(
+    () =>
+      isExpression(value)
+        ? lintExpression(value, {
+            nodeNames: new Set(graph.nodes.map((n) => n.name)),
+            upstream,
+          })
+        : [],
+    [value, graph, upstream]
+  );
+
+  const refreshCompletions = (text: string, cursor: number) => {
+    const result = getCompletions(text.slice(0, cursor), context);
+    setCompletions(result && result.options.length > 0 ? result : null);
+    setHighlighted(0);
+  };
+
+  const accept = (index: number) => {
+    const textarea = textareaRef.current;
+    const option = completions?.options[index];
+    if (!textarea || !completions || !option) return;
+    const cursor = textarea.selectionStart;
+    const from = option.from ?? completions.from;
+    const next = value.slice(0, from) + option.insertText + value.slice(cursor);
+    onChange(next);
+    setCompletions(null);
+    const caret = from + option.insertText.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completions) return;
+    const count = completions.options.length;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % count);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + count) % count);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      accept(highlighted);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setCompletions(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        spellCheck={false}
+        rows={1}
+        aria-invalid={issues.some((i) => i.code !== "node_reference_not_upstream")}
+        onChange={(e) => {
+          onChange(e.target.value);
+          refreshCompletions(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={onKeyDown}
+        onBlur={() => setCompletions(null)}
+        className={cn(
+          "min-h-7 resize-none px-2 py-1 font-mono text-[11px] md:text-[11px]",
+          isExpression(value) && "text-violet-600 dark:text-violet-400",
+          className
+        )}
+      />
+      {completions && (
+        <div className="absolute inset-x-0 top-full z-10 mt-1 max-h-48 overflow-y-auto rounded-md border bg-popover p-1 shadow-md">
+          {completions.options.map((option, i) => (
+            <button
+              key={`${option.kind}-${option.label}`}
+              type="button"
+              // Keep focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(i);
+              }}
+              className={cn(
+                "flex w-full items-center gap-2 rounded px-2 py-0.5 text-left text-[11px]",
+                i === highlighted && "bg-accent"
+              )}
+            >
+              <span className="font-mono">{option.label}</span>
+              {option.detail && (
+                <span className="ml-auto truncate text-[10px] text-muted-foreground">
+                  {option.detail}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      {issues.map((issue, i) => (
+        <p
+          key={i}
+          className={cn(
+            "mt-0.5 text-[10px]",
+            issue.code === "node_reference_not_upstream"
+              ? "text-amber-600"
+              : "text-destructive"
+          )}
+        >
+          {issue.message}
+          {issue.fix && <span className="text-muted-foreground"> {issue.fix}</span>}
+        </p>
+      ))}
+    </div>
+  );
+}
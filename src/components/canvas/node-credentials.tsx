@@ -0,0 +1,156 @@
+"use client";
+
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { useSettings } from "@/contexts/settings-context";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  fetchCredentials,
+  missingCredentialTypes,
+  requiredCredentialTypes,
+} from "@/lib/n8n/credentials";
+import type { N8nCredential, N8nNode } from "@/lib/n8n/types";
+import { useNodeSchema } from "./use-node-schema";
+import { KeyRound, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+
+const NONE = "__none__";
+
+/** Credential types the node needs for its current parameters (empty until known). */
+export function useRequiredCredentials(
+  node: Pick<N8nNode, "type" | "typeVersion" | "parameters">
+): string[] {
+  const schema = useNodeSchema(node.type, node.typeVersion);
+  if (schema?.status !== "ready") return [];
+  return requiredCredentialTypes(node, [
+    { typeVersions: [node.typeVersion], ...schema.schema },
+  ]);
+}
+
+/** Required credential types with nothing assigned, for the canvas warning. */
+export function useMissingCredentials(
+  node: Pick<N8nNode, "type" | "typeVersion" | "parameters" | "credentials">
+): string[] {
+  return missingCredentialTypes(node, useRequiredCredentials(node));
+}
+
+/**
+ * Pick, for each credential type the node needs, one of the credentials
+ * stored in n8n. Secrets stay in n8n; the node only references them by id.
+ */
+export function CredentialPicker({ nodeId }: { nodeId: string }) {
+  const node = useWorkflowStore((s) => s.nodes.find((n) => n.id === nodeId));
+  const setNodeCredential = useWorkflowStore((s) => s.setNodeCredential);
+  const { settings } = useSettings();
+  const n8nNode = node?.data.n8nNode as N8nNode | undefined;
+  const required = useRequiredCredentials({
+    type: (node?.data.n8nType as string) ?? "",
+    typeVersion: n8nNode?.typeVersion ?? 1,
+    parameters: (node?.data.parameters as Record<string, unknown>) ?? {},
+  });
+  const [available, setAvailable] = useState<N8nCredential[] | null>(null);
+  const [error, setError] = useState("");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (required.length === 0) return;
+    let cancelled = false;
+    fetchCredentials(settings).then((result) => {
+      if (cancelled) return;
+      if (result.success) setAvailable(result.credentials);
+      else setError(result.error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings, required.length]);
+
+  if (!node || required.length === 0) return null;
+
+  const refresh = async () => {
+    setIsRefreshing(true);
+    const result = await fetchCredentials(settings, { refresh: true });
+    setIsRefreshing(false);
+    if (result.success) {
+      setAvailable(result.credentials);
+      setError("");
+    } else {
+      setError(result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5 rounded-md border bg-muted/30 p-2">
+      <div className="flex items-center gap-1">
+        <KeyRound className="size-3 text-muted-foreground" />
+        <span className="text-[11px] font-medium">Credentials</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto size-5"
+          title="Reload credentials from n8n"
+          disabled={isRefreshing}
+          onClick={refresh}
+        >
+          <RefreshCw className={isRefreshing ? "size-3 animate-spin" : "size-3"} />
+        </Button>
+      </div>
+      {required.map((type) => {
+        const assigned = n8nNode?.credentials?.[type];
+        const options = (available ?? []).filter((c) => c.type === type);
+        // Keep a credential n8n didn't list selectable, e.g. one shared from another project
+        if (assigned && !options.some((c) => c.id === assigned.id)) {
+          options.push({ ...assigned, type });
+        }
+        return (
+          <div key={type} className="space-y-1">
+            <span className="font-mono text-[10px] text-muted-foreground">{type}</span>
+            {available && options.length === 0 ? (
+              <p className="text-[10px] text-amber-600">
+                No {type} credential in n8n yet. Create one there, then reload.
+              </p>
+            ) : (
+              <Select
+                value={assigned?.id ?? NONE}
+                disabled={!available}
+                onValueChange={(id) => {
+                  const credential = options.find((c) => c.id === id);
+                  setNodeCredential(
+                    nodeId,
+                    type,
+                    credential ? { id: credential.id, name: credential.name } : null
+                  );
+                }}
+              >
+                <SelectTrigger
+                  size="sm"
+                  aria-invalid={!assigned}
+                  className="h-7 w-full text-[11px]"
+                >
+                  <SelectValue placeholder={available ? "Select…" : "Loading…"} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE} className="text-xs text-muted-foreground">
+                    None
+                  </SelectItem>
+                  {options.map((c) => (
+                    <SelectItem key={c.id} value={c.id} className="text-xs">
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        );
+      })}
+      {error && <p className="text-[10px] text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,12 +1,36 @@
 "use client";
 
-import { useWorkflowStore } from "@/stores/workflow-store";
+import { useWorkflowStore, type NodeOutputData } from "@/stores/workflow-store";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { X, CheckCircle2, XCircle, Clock } from "lucide-react";
+import {
+  X,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Pencil,
+  Copy,
+  Trash2,
+  Download,
+  Eye,
+  File as FileIcon,
+  Sparkles,
+  Pin,
+  CircleSlash,
+} from "lucide-react";
 import { getNodeInfo } from "@/lib/n8n/node-registry";
+import { fetchBinary } from "@/lib/execution/execution-manager";
+import { isPreviewableMimeType } from "@/lib/execution/node-io";
+import { requestExecutionFix } from "@/lib/execution/fix-with-ai";
+import { useSettings } from "@/contexts/settings-context";
+import { PinDataEditor } from "./pin-data-editor";
+import { ParameterEditor } from "./parameter-editor";
+import type { ExecutionItem, N8nNode } from "@/lib/n8n/types";
+import { useState } from "react";
+import { toast } from "sonner";
 
 export function NodeDetailDrawer() {
   const {
@@ -16,7 +40,13 @@ export function NodeDetailDrawer() {
     nodes,
     nodeStatuses,
     nodeOutputs,
+    renameNode,
+    duplicateNode,
+    deleteNode,
+    workflow,
   } = useWorkflowStore();
+  const { isAiConfigured } = useSettings();
+  const [editingName, setEditingName] = useState<string | null>(null);
 
   if (!isDrawerOpen || !selectedNodeId) return null;
 
@@ -25,16 +55,63 @@ export function NodeDetailDrawer() {
 
   const info = getNodeInfo(node.data.n8nType as string);
   const status = nodeStatuses[selectedNodeId];
-  const output = nodeOutputs[selectedNodeId];
+  const isPinned = !!workflow?.pinData?.[node.data.label as string];
+  const parameters = (node.data.parameters as Record<string, unknown>) ?? {};
+
+  const commitRename = () => {
+    if (editingName === null) return;
+    const name = editingName.trim();
+    if (name && name !== node.data.label) {
+      const report = renameNode(node.id, name);
+      if (!report) {
+        toast.error(`A node named "${name}" already exists`);
+        return;
+      }
+      const updated = new Set(report.expressions.map((e) => e.node)).size;
+      if (updated > 0) {
+        toast.success(
+          `Updated ${report.expressions.length} reference${report.expressions.length !== 1 ? "s" : ""} ` +
+            `in ${updated} node${updated !== 1 ? "s" : ""} to use "${name}"`
+        );
+      }
+    }
+    setEditingName(null);
+  };
 
   return (
     <div className="absolute inset-x-0 bottom-0 z-50 border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80">
       <div className="flex items-center justify-between border-b px-4 py-2">
         <div className="flex items-center gap-3">
-          <span className="font-semibold text-sm">{node.data.label as string}</span>
+          {editingName !== null ? (
+            <Input
+              autoFocus
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") setEditingName(null);
+              }}
+              className="h-6 w-48 text-sm"
+            />
+          ) : (
+            <button
+              className="group flex items-center gap-1.5"
+              onClick={() => setEditingName(node.data.label as string)}
+            >
+              <span className="font-semibold text-sm">{node.data.label as string}</span>
+              <Pencil className="size-3 text-muted-foreground opacity-0 group-hover:opacity-100" />
+            </button>
+          )}
           <Badge variant="outline" className="text-[10px]">
             {info.label}
           </Badge>
+          {isPinned && (
+            <Badge variant="secondary" className="gap-1 text-[10px]">
+              <Pin className="size-2.5" />
+              Pinned
+            </Badge>
+          )}
           {status?.status === "success" && (
             <div className="flex items-center gap-1 text-green-500">
               <CheckCircle2 className="size-3" />
@@ -49,7 +126,13 @@ export function NodeDetailDrawer() {
               <span className="text-[10px]">{status.error ?? "Error"}</span>
             </div>
           )}
-          {status?.executionTime !== undefined && (
+          {status?.status === "skipped" && (
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <CircleSlash className="size-3" />
+              <span className="text-[10px]">{status.skipReason ?? "Skipped"}</span>
+            </div>
+          )}
+          {status?.executionTime !== undefined && status.status !== "skipped" && (
             <div className="flex items-center gap-1 text-muted-foreground">
               <Clock className="size-3" />
               <span className="text-[10px]">
@@ -60,41 +143,185 @@ export function NodeDetailDrawer() {
             </div>
           )}
         </div>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="size-6"
-          onClick={() => setSelectedNode(null)}
-        >
-          <X className="size-3" />
-        </Button>
+        <div className="flex items-center gap-1">
+          {status?.status === "error" && isAiConfigured && (
+            <Button
+              variant="outline"
+              size="xs"
+              className="h-6 text-[10px]"
+              onClick={() => requestExecutionFix(node.id)}
+            >
+              <Sparkles className="size-3" />
+              Fix with AI
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6"
+            title="Duplicate node"
+            onClick={() => duplicateNode(node.id)}
+          >
+            <Copy className="size-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6 text-muted-foreground hover:text-destructive"
+            title="Delete node"
+            onClick={() => deleteNode(node.id)}
+          >
+            <Trash2 className="size-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6"
+            onClick={() => setSelectedNode(null)}
+          >
+            <X className="size-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex h-64 divide-x">
+        <div className="w-96 shrink-0">
+          <ParameterEditor
+            key={node.id}
+            nodeId={node.id}
+            nodeName={node.data.label as string}
+            nodeType={node.data.n8nType as string}
+            typeVersion={(node.data.n8nNode as N8nNode | undefined)?.typeVersion ?? 1}
+            parameters={parameters}
+          />
+        </div>
+        <NodeIOPanels
+          key={node.id}
+          nodeId={node.id}
+          nodeName={node.data.label as string}
+          nodeType={node.data.n8nType as string}
+          parameters={parameters}
+          data={nodeOutputs[selectedNodeId]}
+          hasRun={!!status}
+        />
       </div>
+    </div>
+  );
+}
+
+function NodeIOPanels({
+  nodeId,
+  nodeName,
+  nodeType,
+  parameters,
+  data,
+  hasRun,
+}: {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  parameters: Record<string, unknown>;
+  data: NodeOutputData | undefined;
+  hasRun: boolean;
+}) {
+  const { executionId } = useWorkflowStore();
+  const { settings } = useSettings();
+  const runs = data?.runs ?? [];
+  // null follows the latest run as new ones stream in
+  const [selectedRun, setSelectedRun] = useState<number | null>(null);
+  const [inputIndex, setInputIndex] = useState(0);
+  const [outputIndex, setOutputIndex] = useState(0);
+
+  const run = runs[selectedRun ?? runs.length - 1];
+  const inputs = run?.inputs ?? [];
+  const outputs = run?.outputs ?? [];
+  const inputItems = inputs[Math.min(inputIndex, inputs.length - 1)] ?? [];
+  const outputItems = outputs[Math.min(outputIndex, outputs.length - 1)] ?? [];
+  const emptyLabel = hasRun ? null : "Run the workflow to see data";
 
-      <div className="grid h-64 grid-cols-2 divide-x">
-        {/* INPUT */}
-        <div className="flex flex-col">
-          <div className="border-b px-3 py-1.5">
-            <span className="text-xs font-medium text-muted-foreground">INPUT</span>
-          </div>
-          <ScrollArea className="flex-1 p-3">
-            {output?.input && output.input.length > 0 ? (
+  const openBinary = async (itemIndex: number, key: string, preview: boolean) => {
+    if (!executionId || !run) return;
+    const result = await fetchBinary(settings, {
+      executionId,
+      nodeName,
+      runIndex: run.runIndex,
+      outputIndex: Math.min(outputIndex, outputs.length - 1),
+      itemIndex,
+      key,
+    });
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+    // Only raster images, PDF, audio and video keep their type; anything
+    // else becomes an opaque download, so it can't run on this origin
+    const mimeType = outputItems[itemIndex]?.binary?.[key]?.mimeType;
+    const canPreview = preview && isPreviewableMimeType(mimeType);
+    const url = URL.createObjectURL(
+      new Blob([result.blob], {
+        type: canPreview ? mimeType : "application/octet-stream",
+      })
+    );
+    if (canPreview) {
+      window.open(url, "_blank", "noopener");
+    } else {
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = outputItems[itemIndex]?.binary?.[key]?.fileName ?? key;
+      a.click();
+    }
+    // The new tab or download has its own reference by now
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className="grid min-w-0 flex-1 grid-cols-2 divide-x">
+      {/* INPUT */}
+      <div className="flex flex-col">
+        <div className="flex items-center justify-between border-b px-3 py-1.5">
+          <span className="text-xs font-medium text-muted-foreground">INPUT</span>
+          <IndexPicker
+            label="Input"
+            count={inputs.length}
+            value={inputIndex}
+            onChange={setInputIndex}
+          />
+        </div>
+        <ScrollArea className="flex-1 p-3">
+          {inputItems.length > 0 ? (
+            <>
               <pre className="text-[11px] leading-relaxed text-foreground">
-                {JSON.stringify(output.input, null, 2)}
+                {JSON.stringify(inputItems.map((item) => item.json), null, 2)}
               </pre>
-            ) : (
-              <p className="text-xs text-muted-foreground">
-                {status ? "No input data available" : "Run the workflow to see data"}
-              </p>
-            )}
-          </ScrollArea>
-        </div>
+              <BinaryList items={inputItems} />
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {emptyLabel ?? "No input data available"}
+            </p>
+          )}
+        </ScrollArea>
+      </div>
 
-        {/* OUTPUT */}
-        <div className="flex flex-col">
-          <div className="border-b px-3 py-1.5">
-            <Tabs defaultValue="json" className="w-full">
-              <div className="flex items-center justify-between">
-                <span className="text-xs font-medium text-muted-foreground">OUTPUT</span>
+      {/* OUTPUT */}
+      <div className="flex flex-col">
+        <div className="border-b px-3 py-1.5">
+          <Tabs defaultValue="json" className="w-full">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-medium text-muted-foreground">OUTPUT</span>
+              <div className="flex items-center gap-2">
+                <IndexPicker
+                  label="Run"
+                  count={runs.length}
+                  value={run?.runIndex ?? 0}
+                  onChange={(i) => setSelectedRun(i === runs.length - 1 ? null : i)}
+                />
+                <IndexPicker
+                  label="Output"
+                  count={outputs.length}
+                  value={outputIndex}
+                  onChange={setOutputIndex}
+                />
                 <TabsList className="h-6">
                   <TabsTrigger value="json" className="h-5 px-2 text-[10px]">
                     JSON
@@ -102,38 +329,141 @@ export function NodeDetailDrawer() {
                   <TabsTrigger value="table" className="h-5 px-2 text-[10px]">
                     Table
                   </TabsTrigger>
+                  <TabsTrigger value="pinned" className="h-5 px-2 text-[10px]">
+                    Pinned
+                  </TabsTrigger>
                 </TabsList>
               </div>
-              <TabsContent value="json" className="mt-0">
-                <ScrollArea className="h-52 p-3">
-                  {output?.output && output.output.length > 0 ? (
+            </div>
+            <TabsContent value="json" className="mt-0">
+              <ScrollArea className="h-52 p-3">
+                {outputItems.length > 0 ? (
+                  <>
                     <pre className="text-[11px] leading-relaxed text-foreground">
-                      {JSON.stringify(output.output, null, 2)}
+                      {JSON.stringify(outputItems.map((item) => item.json), null, 2)}
                     </pre>
-                  ) : (
-                    <p className="text-xs text-muted-foreground">
-                      {status ? "No output data" : "Run the workflow to see data"}
-                    </p>
-                  )}
-                </ScrollArea>
-              </TabsContent>
-              <TabsContent value="table" className="mt-0">
-                <ScrollArea className="h-52 p-3">
-                  {output?.output && output.output.length > 0 ? (
-                    <DataTable data={output.output} />
-                  ) : (
-                    <p className="text-xs text-muted-foreground">No data</p>
-                  )}
-                </ScrollArea>
-              </TabsContent>
-            </Tabs>
-          </div>
+                    <BinaryList items={outputItems} onOpen={openBinary} />
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {emptyLabel ?? (run?.error ? run.error : "No output data")}
+                  </p>
+                )}
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="table" className="mt-0">
+              <ScrollArea className="h-52 p-3">
+                {outputItems.length > 0 ? (
+                  <DataTable data={outputItems.map((item) => item.json)} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">No data</p>
+                )}
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="pinned" className="mt-0">
+              <PinDataEditor
+                nodeId={nodeId}
+                nodeName={nodeName}
+                nodeType={nodeType}
+                parameters={parameters}
+                outputItems={outputItems}
+              />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
     </div>
   );
 }
 
+/** Numbered toggle for runs, inputs or outputs; hidden when there is only one. */
+function IndexPicker({
+  label,
+  count,
+  value,
+  onChange,
+}: {
+  label: string;
+  count: number;
+  value: number;
+  onChange: (index: number) => void;
+}) {
+  if (count <= 1) return null;
+  return (
+    <div className="flex items-center gap-0.5">
+      <span className="mr-1 text-[10px] text-muted-foreground">{label}</span>
+      {Array.from({ length: count }, (_, i) => (
+        <Button
+          key={i}
+          size="xs"
+          variant={i === Math.min(value, count - 1) ? "secondary" : "ghost"}
+          className="h-5 min-w-5 px-1 text-[10px]"
+          onClick={() => onChange(i)}
+        >
+          {i + 1}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+function BinaryList({
+  items,
+  onOpen,
+}: {
+  items: ExecutionItem[];
+  onOpen?: (itemIndex: number, key: string, preview: boolean) => void;
+}) {
+  const files = items.flatMap((item, itemIndex) =>
+    Object.entries(item.binary ?? {}).map(([key, meta]) => ({ itemIndex, key, meta }))
+  );
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-1 border-t pt-2">
+      <span className="text-[10px] font-medium text-muted-foreground">BINARY</span>
+      {files.map(({ itemIndex, key, meta }) => (
+        <div
+          key={`${itemIndex}-${key}`}
+          className="flex items-center gap-2 text-[11px]"
+        >
+          <FileIcon className="size-3 shrink-0 text-muted-foreground" />
+          <span className="truncate font-medium">{meta.fileName ?? key}</span>
+          <span className="shrink-0 text-muted-foreground">
+            {[meta.mimeType, meta.fileSize, `item ${itemIndex + 1}`, key]
+              .filter(Boolean)
+              .join(" · ")}
+          </span>
+          {onOpen && meta.downloadable && (
+            <div className="ml-auto flex shrink-0 items-center">
+              {isPreviewableMimeType(meta.mimeType) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-5"
+                  title="Preview"
+                  onClick={() => onOpen(itemIndex, key, true)}
+                >
+                  <Eye className="size-3" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-5"
+                title="Download"
+                onClick={() => onOpen(itemIndex, key, false)}
+              >
+                <Download className="size-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function DataTable({ data }: { data: Record<string, unknown>[] }) {
   if (data.length === 0) return null;
   const keys = [...new Set(data.flatMap((item) => Object.keys(item)))];
@@ -0,0 +1,676 @@
+"use client";
+
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ExpressionInput } from "./expression-input";
+import { CredentialPicker } from "./node-credentials";
+import { useNodeSchema } from "./use-node-schema";
+import {
+  hasMultipleValues,
+  initialValue,
+  isCodeField,
+  pruneHiddenParameters,
+  visibleProperties,
+} from "@/lib/n8n/parameter-form";
+import { isExpression } from "@/lib/n8n/expressions";
+import type { NodePropertySchema } from "@/lib/n8n/types";
+import { cn } from "@/lib/utils";
+import { Loader2, Plus, X } from "lucide-react";
+import { useRef, useState } from "react";
+
+type Values = Record<string, unknown>;
+// `typing` marks keystrokes, which share one undo step per field
+type OnChange = (value: unknown, typing?: boolean) => void;
+
+interface FieldContext {
+  nodeId: string;
+  nodeType: string;
+  typeVersion: number;
+  // The node's parameters, which nested displayOptions may refer to
+  root: Values;
+}
+
+/**
+ * The node's parameters as a form generated from its type's synced property
+ * schema, showing only what n8n would show for the current values, with a
+ * raw JSON view for anything the form can't express (or when no schema has
+ * been synced). Edits go straight to the canvas and mark it unsaved.
+ */
+export function ParameterEditor({
+  nodeId,
+  nodeName,
+  nodeType,
+  typeVersion,
+  parameters,
+}: {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  typeVersion: number;
+  parameters: Values;
+}) {
+  const updateNodeParameters = useWorkflowStore((s) => s.updateNodeParameters);
+  const current = useNodeSchema(nodeType, typeVersion);
+  const [tab, setTab] = useState<"form" | "json" | null>(null);
+  // Set while a field is being typed into, so its keystrokes are one undo step
+  const isTyping = useRef(false);
+
+  const properties = current?.status === "ready" ? current.schema.properties : null;
+  const activeTab = tab ?? (current?.status === "unavailable" ? "json" : "form");
+
+  const update = (next: Values, typing = false) => {
+    const historyLabel =
+      typing && isTyping.current ? undefined : `Edited "${nodeName}" parameters`;
+    isTyping.current = typing;
+    updateNodeParameters(
+      nodeId,
+      properties ? pruneHiddenParameters(next, properties, typeVersion) : next,
+      historyLabel
+    );
+  };
+
+  return (
+    <Tabs
+      value={activeTab}
+      onValueChange={(v) => setTab(v as "form" | "json")}
+      className="h-full min-w-0 gap-0"
+    >
+      <div className="flex items-center justify-between border-b px-3 py-1.5">
+        <span className="text-xs font-medium text-muted-foreground">PARAMETERS</span>
+        <TabsList className="h-6">
+          <TabsTrigger
+            value="form"
+            disabled={current?.status === "unavailable"}
+            className="h-5 px-2 text-[10px]"
+          >
+            Form
+          </TabsTrigger>
+          <TabsTrigger value="json" className="h-5 px-2 text-[10px]">
+            JSON
+          </TabsTrigger>
+        </TabsList>
+      </div>
+      <TabsContent value="form" className="mt-0 min-h-0">
+        <ScrollArea className="h-full">
+          <div
+            className="space-y-2.5 p-3"
+            onBlur={() => {
+              isTyping.current = false;
+            }}
+          >
+            {!current ? (
+              <Loader2 className="size-3.5 animate-spin text-muted-foreground" />
+            ) : properties ? (
+              <>
+                <CredentialPicker nodeId={nodeId} />
+                <PropertyFields
+                  properties={properties}
+                  values={parameters}
+                  scope={parameters}
+                  onChange={(next, typing) => update(next, typing)}
+                  ctx={{ nodeId, nodeType, typeVersion, root: parameters }}
+                />
+              </>
+            ) : null}
+          </div>
+        </ScrollArea>
+      </TabsContent>
+      <TabsContent value="json" className="mt-0 min-h-0">
+        <RawParameters
+          // Reload the text when the parameters change elsewhere
+          key={JSON.stringify(parameters)}
+          parameters={parameters}
+          note={current?.status === "unavailable" ? current.reason : undefined}
+          onApply={(next) => update(next)}
+        />
+      </TabsContent>
+    </Tabs>
+  );
+}
+
+function RawParameters({
+  parameters,
+  note,
+  onApply,
+}: {
+  parameters: Values;
+  // Why the form isn't available
+  note?: string;
+  onApply: (parameters: Values) => void;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(parameters, null, 2));
+  const [error, setError] = useState("");
+
+  const apply = () => {
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setError("Parameters must be a JSON object");
+        return;
+      }
+      setError("");
+      onApply(parsed);
+    } catch {
+      setError("Invalid JSON");
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-2 p-3">
+      {note && (
+        <p className="text-[10px] text-muted-foreground">
+          {note} Edit the parameters as JSON.
+        </p>
+      )}
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        spellCheck={false}
+        aria-invalid={!!error}
+        className="min-h-0 flex-1 resize-none font-mono text-[11px] md:text-[11px]"
+      />
+      <div className="flex items-center gap-2">
+        {error && <p className="text-[10px] text-destructive">{error}</p>}
+        <Button
+          variant="outline"
+          size="xs"
+          className="ml-auto h-6 text-[10px]"
+          disabled={text === JSON.stringify(parameters, null, 2)}
+          onClick={apply}
+        >
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ── Fields ──
+
+/** Every visible property, showing its default when it has no value. */
+function PropertyFields({
+  properties,
+  values,
+  scope,
+  onChange,
+  ctx,
+}: {
+  properties: NodePropertySchema[];
+  values: Values;
+  scope: Values;
+  onChange: (values: Values, typing?: boolean) => void;
+  ctx: FieldContext;
+}) {
+  return (
+    <>
+      {visibleProperties(properties, scope, ctx.typeVersion).map((property) => (
+        <Field
+          key={property.name}
+          property={property}
+          value={values[property.name] ?? property.default}
+          onChange={(value, typing) => onChange({ ...values, [property.name]: value }, typing)}
+          ctx={ctx}
+        />
+      ))}
+    </>
+  );
+}
+
+function Field({
+  property,
+  value,
+  onChange,
+  onRemove,
+  ctx,
+}: {
+  property: NodePropertySchema;
+  value: unknown;
+  onChange: OnChange;
+  onRemove?: () => void;
+  ctx: FieldContext;
+}) {
+  if (property.type === "notice") {
+    return <p className="text-[10px] text-muted-foreground">{property.displayName}</p>;
+  }
+  // Single values can be switched to an expression and back
+  const canToggle = ["number", "boolean", "options", "string", "dateTime", "color"].includes(
+    property.type
+  );
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <span className="text-[11px] font-medium">
+          {property.displayName}
+          {property.required && <span className="text-destructive"> *</span>}
+        </span>
+        <div className="ml-auto flex items-center">
+          {canToggle && !isCodeField(property, ctx.nodeType) && (
+            <Button
+              variant="ghost"
+              size="xs"
+              title={isExpression(value) ? "Use a fixed value" : "Use an expression"}
+              className={cn(
+                "h-4 px-1 font-mono text-[10px]",
+                isExpression(value) ? "text-violet-600 dark:text-violet-400" : "text-muted-foreground"
+              )}
+              onClick={() => onChange(toggleExpression(property, value))}
+            >
+              fx
+            </Button>
+          )}
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-4 text-muted-foreground hover:text-destructive"
+              title={`Remove ${property.displayName}`}
+              onClick={onRemove}
+            >
+              <X className="size-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <FieldInput property={property} value={value} onChange={onChange} ctx={ctx} />
+    </div>
+  );
+}
+
+function toggleExpression(property: NodePropertySchema, value: unknown): unknown {
+  if (isExpression(value)) {
+    return property.type === "string" ? value.slice(1) : initialValue(property);
+  }
+  if (typeof value === "string") return `=${value}`;
+  return `={{ ${JSON.stringify(value ?? null)} }}`;
+}
+
+function FieldInput({
+  property,
+  value,
+  onChange,
+  ctx,
+}: {
+  property: NodePropertySchema;
+  value: unknown;
+  onChange: OnChange;
+  ctx: FieldContext;
+}) {
+  const textProps = {
+    nodeId: ctx.nodeId,
+    value: typeof value === "string" ? value : value === undefined ? "" : String(value),
+    onChange: (text: string) => onChange(text, true),
+  };
+  if (isExpression(value) && property.type !== "json") {
+    return <ExpressionInput {...textProps} />;
+  }
+
+  switch (property.type) {
+    case "string":
+    case "dateTime":
+    case "color":
+      return isCodeField(property, ctx.nodeType) ? (
+        <Textarea
+          value={textProps.value}
+          onChange={(e) => onChange(e.target.value, true)}
+          spellCheck={false}
+          rows={10}
+          className="resize-y bg-muted/40 font-mono text-[11px] md:text-[11px]"
+        />
+      ) : (
+        <ExpressionInput {...textProps} />
+      );
+
+    case "json":
+      return (
+        <Textarea
+          value={typeof value === "string" ? value : JSON.stringify(value ?? {}, null, 2)}
+          onChange={(e) => onChange(e.target.value, true)}
+          spellCheck={false}
+          rows={4}
+          className="resize-y font-mono text-[11px] md:text-[11px]"
+        />
+      );
+
+    case "number":
+      return (
+        <Input
+          type="number"
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? initialValue(property) : Number(e.target.value), true)
+          }
+          className="h-7 px-2 text-[11px] md:text-[11px]"
+        />
+      );
+
+    case "boolean":
+      return <Switch size="sm" checked={value === true} onCheckedChange={(v) => onChange(v)} />;
+
+    case "options":
+      return (
+        <Select
+          value={JSON.stringify(value ?? null)}
+          onValueChange={(v) => onChange(JSON.parse(v))}
+        >
+          <SelectTrigger size="sm" className="h-7 w-full text-[11px]">
+            <SelectValue placeholder="Select…" />
+          </SelectTrigger>
+          <SelectContent>
+            {(property.options ?? []).map((option) => (
+              <SelectItem
+                key={JSON.stringify(option.value)}
+                value={JSON.stringify(option.value)}
+                className="text-xs"
+              >
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case "multiOptions": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(property.options ?? []).map((option) => {
+            const isSelected = selected.includes(option.value);
+            return (
+              <Button
+                key={String(option.value)}
+                variant={isSelected ? "secondary" : "outline"}
+                size="xs"
+                className="h-5 px-1.5 text-[10px]"
+                onClick={() =>
+                  onChange(
+                    isSelected
+                      ? selected.filter((v) => v !== option.value)
+                      : [...selected, option.value]
+                  )
+                }
+              >
+                {option.name}
+              </Button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case "collection":
+      return (
+        <CollectionField
+          property={property}
+          value={asObject(value)}
+          onChange={onChange}
+          ctx={ctx}
+        />
+      );
+
+    case "fixedCollection":
+      return (
+        <FixedCollectionField
+          property={property}
+          value={asObject(value)}
+          onChange={onChange}
+          ctx={ctx}
+        />
+      );
+
+    case "resourceLocator": {
+      // { __rl: true, mode, value }; only the value is edited here
+      const locator = asObject(value);
+      return (
+        <ExpressionInput
+          nodeId={ctx.nodeId}
+          value={String(locator.value ?? "")}
+          placeholder={typeof locator.mode === "string" ? `By ${locator.mode}` : undefined}
+          onChange={(text) =>
+            onChange({ __rl: true, mode: "id", ...locator, value: text }, true)
+          }
+        />
+      );
+    }
+
+    default:
+      return (
+        <JsonValueField
+          // Reload the text when the value changes elsewhere, e.g. on undo
+          key={JSON.stringify(value)}
+          value={value}
+          onChange={onChange}
+        />
+      );
+  }
+}
+
+/** Optional fields, added one at a time. */
+function CollectionField({
+  property,
+  value,
+  onChange,
+  ctx,
+}: {
+  property: NodePropertySchema;
+  value: Values;
+  onChange: OnChange;
+  ctx: FieldContext;
+}) {
+  const options = visibleProperties(
+    property.values ?? [],
+    { ...ctx.root, ...value },
+    ctx.typeVersion
+  );
+  const present = options.filter((p) => p.name in value);
+  const absent = options.filter((p) => !(p.name in value));
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-2">
+      {present.map((p) => (
+        <Field
+          key={p.name}
+          property={p}
+          value={value[p.name]}
+          onChange={(v, typing) => onChange({ ...value, [p.name]: v }, typing)}
+          onRemove={() =>
+            onChange(Object.fromEntries(Object.entries(value).filter(([k]) => k !== p.name)))
+          }
+          ctx={ctx}
+        />
+      ))}
+      {absent.length > 0 && (
+        <AddMenu
+          label={present.length === 0 ? "Add option" : "Add another option"}
+          items={absent.map((p) => ({ key: p.name, label: p.displayName }))}
+          onSelect={(name) => {
+            const p = absent.find((o) => o.name === name)!;
+            onChange({ ...value, [name]: initialValue(p) });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Named groups of fields. Each group holds one entry, or a list of entries
+ * when the collection allows multiple values (e.g. a Set node's fields).
+ */
+function FixedCollectionField({
+  property,
+  value,
+  onChange,
+  ctx,
+}: {
+  property: NodePropertySchema;
+  value: Values;
+  onChange: OnChange;
+  ctx: FieldContext;
+}) {
+  const groups = property.groups ?? [];
+  const multiple = hasMultipleValues(property, value);
+  const newEntry = (fields: NodePropertySchema[]) =>
+    Object.fromEntries(
+      visibleProperties(fields, ctx.root, ctx.typeVersion).map((p) => [p.name, initialValue(p)])
+    );
+  const setGroup = (name: string, group: unknown, typing?: boolean) =>
+    onChange(
+      group === undefined
+        ? Object.fromEntries(Object.entries(value).filter(([k]) => k !== name))
+        : { ...value, [name]: group },
+      typing
+    );
+
+  const entries = groups.flatMap((group) => {
+    const groupValue = value[group.name];
+    if (groupValue === undefined) return [];
+    const list = multiple ? (Array.isArray(groupValue) ? groupValue : []) : [groupValue];
+    return list.map((entry, index) => ({ group, entry: asObject(entry), index, list }));
+  });
+  const addable = multiple ? groups : groups.filter((g) => value[g.name] === undefined);
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-2">
+      {entries.map(({ group, entry, index, list }) => (
+        <div key={`${group.name}-${index}`} className="space-y-2 rounded border bg-muted/30 p-2">
+          <div className="flex items-center">
+            <span className="text-[10px] font-medium text-muted-foreground">
+              {group.displayName}
+              {multiple && ` ${index + 1}`}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ml-auto size-4 text-muted-foreground hover:text-destructive"
+              title={`Remove ${group.displayName}`}
+              onClick={() =>
+                setGroup(
+                  group.name,
+                  multiple && list.length > 1 ? list.filter((_, i) => i !== index) : undefined
+                )
+              }
+            >
+              <X className="size-3" />
+            </Button>
+          </div>
+          <PropertyFields
+            properties={group.values}
+            values={entry}
+            scope={{ ...ctx.root, ...entry }}
+            onChange={(next, typing) =>
+              setGroup(
+                group.name,
+                multiple ? list.map((e, i) => (i === index ? next : e)) : next,
+                typing
+              )
+            }
+            ctx={ctx}
+          />
+        </div>
+      ))}
+      {addable.length > 0 && (
+        <AddMenu
+          label={groups.length === 1 ? `Add ${groups[0].displayName}` : "Add"}
+          items={addable.map((g) => ({ key: g.name, label: g.displayName }))}
+          onSelect={(name) => {
+            const group = groups.find((g) => g.name === name)!;
+            const entry = newEntry(group.values);
+            const existing = value[name];
+            setGroup(
+              name,
+              multiple ? [...(Array.isArray(existing) ? existing : []), entry] : entry
+            );
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/** Button that adds one of `items`, or a menu of them when there are several. */
+function AddMenu({
+  label,
+  items,
+  onSelect,
+}: {
+  label: string;
+  items: Array<{ key: string; label: string }>;
+  onSelect: (key: string) => void;
+}) {
+  const button = (
+    <Button
+      variant="ghost"
+      size="xs"
+      className="h-6 text-[10px]"
+      onClick={items.length === 1 ? () => onSelect(items[0].key) : undefined}
+    >
+      <Plus className="size-3" />
+      {label}
+    </Button>
+  );
+  if (items.length === 1) return button;
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{button}</DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-64 overflow-y-auto">
+        {items.map((item) => (
+          <DropdownMenuItem key={item.key} className="text-xs" onSelect={() => onSelect(item.key)}>
+            {item.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+/** Any value the form has no input for (filters, resource mappers, …) as JSON. */
+function JsonValueField({ value, onChange }: { value: unknown; onChange: OnChange }) {
+  const [text, setText] = useState(() => JSON.stringify(value ?? null, null, 2));
+  const [error, setError] = useState("");
+
+  return (
+    <>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          try {
+            const parsed = JSON.parse(text);
+            setError("");
+            if (JSON.stringify(parsed) !== JSON.stringify(value)) onChange(parsed);
+          } catch {
+            setError("Invalid JSON — not applied");
+          }
+        }}
+        spellCheck={false}
+        rows={4}
+        aria-invalid={!!error}
+        className="resize-y font-mono text-[11px] md:text-[11px]"
+      />
+      {error && <p className="text-[10px] text-destructive">{error}</p>}
+    </>
+  );
+}
+
+function asObject(value: unknown): Values {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Values) : {};
+}
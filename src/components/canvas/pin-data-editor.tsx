@@ -0,0 +1,136 @@
+"use client";
+
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { useSettings } from "@/contexts/settings-context";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { generatePinData, normalizePinItems } from "@/lib/execution/pin-data";
+import type { ExecutionItem, PinnedItem } from "@/lib/n8n/types";
+import { Loader2, Pin, PinOff, Sparkles, Upload } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+function toText(items: PinnedItem[]): string {
+  return JSON.stringify(
+    items.map((item) => item.json),
+    null,
+    2
+  );
+}
+
+/**
+ * Edit the sample items pinned on a node. Runs started from the canvas use
+ * them in place of the node's real output, so it can be tested without
+ * calling the service behind it.
+ */
+export function PinDataEditor({
+  nodeId,
+  nodeName,
+  nodeType,
+  parameters,
+  outputItems,
+}: {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  parameters: Record<string, unknown>;
+  // The output currently shown, offered as a starting point
+  outputItems: ExecutionItem[];
+}) {
+  const pinned = useWorkflowStore((s) => s.workflow?.pinData?.[nodeName]);
+  const setPinData = useWorkflowStore((s) => s.setPinData);
+  const { settings, isAiConfigured } = useSettings();
+  const [text, setText] = useState(() => (pinned ? toText(pinned) : ""));
+  const [error, setError] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handlePin = () => {
+    try {
+      setPinData(nodeId, normalizePinItems(JSON.parse(text)));
+      setError("");
+      toast.success(`Pinned data on "${nodeName}"`);
+    } catch (err) {
+      setError(err instanceof SyntaxError ? "Invalid JSON" : (err as Error).message);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    const result = await generatePinData(settings, { nodeName, nodeType, parameters });
+    setIsGenerating(false);
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+    setText(toText(result.items));
+    setError("");
+  };
+
+  return (
+    <div className="flex h-52 flex-col gap-2 p-3">
+      <div className="flex items-center gap-1">
+        <span className="mr-auto text-[10px] text-muted-foreground">
+          {pinned
+            ? `${pinned.length} item${pinned.length !== 1 ? "s" : ""} pinned — runs from here use these instead of calling the node`
+            : "JSON array of items to output instead of running the node. Pins are saved in this browser; n8n doesn't store them"}
+        </span>
+        <Button
+          variant="ghost"
+          size="xs"
+          className="h-6 text-[10px]"
+          disabled={outputItems.length === 0}
+          onClick={() => setText(toText(outputItems))}
+        >
+          <Upload className="size-3" />
+          Use output
+        </Button>
+        {isAiConfigured && (
+          <Button
+            variant="ghost"
+            size="xs"
+            className="h-6 text-[10px]"
+            disabled={isGenerating}
+            onClick={handleGenerate}
+          >
+            {isGenerating ? (
+              <Loader2 className="size-3 animate-spin" />
+            ) : (
+              <Sparkles className="size-3" />
+            )}
+            Generate
+          </Button>
+        )}
+        {pinned && (
+          <Button
+            variant="ghost"
+            size="xs"
+            className="h-6 text-[10px]"
+            onClick={() => setPinData(nodeId, null)}
+          >
+            <PinOff className="size-3" />
+            Unpin
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="xs"
+          className="h-6 text-[10px]"
+          disabled={!text.trim()}
+          onClick={handlePin}
+        >
+          <Pin className="size-3" />
+          Pin
+        </Button>
+      </div>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'[\n  { "id": 1, "name": "Example" }\n]'}
+        spellCheck={false}
+        aria-invalid={!!error}
+        className="min-h-0 flex-1 resize-none font-mono text-[11px] md:text-[11px]"
+      />
+      {error && <p className="text-[10px] text-destructive">{error}</p>}
+    </div>
+  );
+}
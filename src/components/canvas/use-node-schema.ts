@@ -0,0 +1,37 @@
+"use client";
+
+import { fetchParameterSchema, type NodeSchema } from "@/lib/n8n/parameter-form";
+import { useEffect, useState } from "react";
+
+export type SchemaState =
+  | { status: "ready"; schema: NodeSchema }
+  | { status: "unavailable"; reason: string };
+
+/** The synced schema of a node type version; null while it loads. */
+export function useNodeSchema(nodeType: string, typeVersion: number): SchemaState | null {
+  const [loaded, setLoaded] = useState<{ key: string; state: SchemaState } | null>(null);
+  const key = `${nodeType}@${typeVersion}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchParameterSchema(nodeType, typeVersion).then((result) => {
+      if (cancelled) return;
+      setLoaded({
+        key,
+        state: !result.success
+          ? { status: "unavailable", reason: result.error }
+          : result.schema
+            ? { status: "ready", schema: result.schema }
+            : {
+                status: "unavailable",
+                reason: "No parameter schema synced for this node version.",
+              },
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [nodeType, typeVersion, key]);
+
+  return loaded?.key === key ? loaded.state : null;
+}
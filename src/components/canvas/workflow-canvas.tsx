@@ -1,8 +1,11 @@
 "use client";
 
-import { useCallback, useMemo } from "react";
+import { useCallback } from "react";
 import {
   ReactFlowProvider,
+  type Connection,
+  type Edge,
+  type Node,
   type NodeTypes,
   type EdgeTypes,
   Controls,
@@ -14,6 +17,7 @@ import { WorkflowEdge } from "./workflow-edge";
 import { CanvasToolbar } from "./canvas-toolbar";
 import { NodeDetailDrawer } from "./node-detail-drawer";
 import { useWorkflowStore } from "@/stores/workflow-store";
+import { parseHandleId } from "@/lib/n8n/converter";
 import { Workflow } from "lucide-react";
 
 const nodeTypes: NodeTypes = {
@@ -24,8 +28,59 @@ const edgeTypes: EdgeTypes = {
   workflowEdge: WorkflowEdge as unknown as EdgeTypes["workflowEdge"],
 };
 
+/**
+ * Main outputs connect to main inputs; an AI sub-node only connects to a root
+ * node input of the same connection type (e.g. ai_tool → ai_tool).
+ */
+function isValidConnection(connection: Connection | Edge): boolean {
+  if (connection.source === connection.target) return false;
+  const source = parseHandleId(connection.sourceHandle);
+  const target = parseHandleId(connection.targetHandle);
+  return source.type === target.type;
+}
+
 function CanvasInner() {
-  const { nodes, edges, setSelectedNode, workflow } = useWorkflowStore();
+  const {
+    nodes,
+    edges,
+    setSelectedNode,
+    workflow,
+    onNodesChange,
+    onEdgesChange,
+    onConnect,
+    recordHistory,
+    proposal,
+  } = useWorkflowStore();
+
+  // Snapshot once per drag/delete gesture rather than per change event
+  const handleDragStart = useCallback(
+    (_event: React.MouseEvent, _node: unknown, dragged: Node[]) => {
+      recordHistory(
+        dragged.length === 1
+          ? `Moved "${dragged[0].data.label as string}"`
+          : `Moved ${dragged.length} nodes`
+      );
+    },
+    [recordHistory]
+  );
+
+  const handleSelectionDragStart = useCallback(
+    (event: React.MouseEvent, dragged: Node[]) =>
+      handleDragStart(event, null, dragged),
+    [handleDragStart]
+  );
+
+  const handleBeforeDelete = useCallback(
+    async ({ nodes: deleted, edges: removed }: { nodes: Node[]; edges: Edge[] }) => {
+      recordHistory(
+        deleted.length > 0
+          ? `Deleted ${deleted.length} node${deleted.length !== 1 ? "s" : ""}`
+          : `Deleted ${removed.length} connection${removed.length !== 1 ? "s" : ""}`
+      );
+      return true;
+    },
+    [recordHistory]
+  );
 
   const handleNodeClick = useCallback(
     (_event: React.MouseEvent, node: { id: string }) => {
@@ -38,6 +93,46 @@ function CanvasInner() {
     setSelectedNode(null);
   }, [setSelectedNode]);
 
+  if (proposal) {
+    const { added, removed, changed } = proposal.diff.summary;
+    return (
+      <div className="relative size-full">
+        <div className="absolute top-3 left-3 z-10 rounded-md border border-amber-500/40 bg-background/95 px-3 py-1.5 text-xs shadow-sm">
+          <span className="font-medium">Previewing proposed change</span>
+          <span className="ml-2 text-muted-foreground">
+            <span className="text-green-600">+{added}</span>{" "}
+            <span className="text-red-500">−{removed}</span>{" "}
+            <span className="text-amber-600">~{changed}</span> · apply or
+            reject it in the chat
+          </span>
+        </div>
+        {/* Keyed so the viewport fits each new proposal */}
+        <Canvas
+          key={proposal.toolCallId}
+          nodes={proposal.nodes}
+          edges={proposal.edges}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          nodesDraggable={false}
+          nodesConnectable={false}
+          elementsSelectable={false}
+          deleteKeyCode={null}
+          panOnDrag
+          fitView
+          fitViewOptions={{ padding: 0.2 }}
+          minZoom={0.3}
+          maxZoom={1.5}
+        >
+          <Controls
+            position="bottom-left"
+            className="!bottom-2 !left-2"
+            showInteractive={false}
+          />
+        </Canvas>
+      </div>
+    );
+  }
+
   if (!workflow) {
     return (
       <div className="flex size-full flex-col items-center justify-center gap-3 text-muted-foreground">
@@ -60,6 +155,13 @@ function CanvasInner() {
         edges={edges}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
+        onNodesChange={onNodesChange}
+        onEdgesChange={onEdgesChange}
+        onConnect={onConnect}
+        onNodeDragStart={handleDragStart}
+        onSelectionDragStart={handleSelectionDragStart}
+        onBeforeDelete={handleBeforeDelete}
+        isValidConnection={isValidConnection}
         onNodeClick={handleNodeClick}
         onPaneClick={handlePaneClick}
         panOnDrag
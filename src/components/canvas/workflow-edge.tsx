@@ -29,9 +29,20 @@ function WorkflowEdgeComponent(props: EdgeProps) {
   });
 
   const status = (data?.status as string) || "idle";
+  // AI sub-node wiring (model, memory, tools…) is drawn dashed to set it apart from data flow
+  const isSubNodeEdge =
+    data?.connectionType !== undefined && data.connectionType !== "main";
+
+  // Proposed-change overlay: rewired connections are dashed green/red
+  const diff = data?.diff as string | undefined;
+  const isRewired = diff === "added" || diff === "removed";
 
   const strokeColor =
-    status === "success"
+    diff === "added"
+      ? "#22c55e"
+      : diff === "removed"
+        ? "#ef4444"
+        : status === "success"
       ? "#22c55e"
       : status === "error"
         ? "#ef4444"
@@ -46,7 +57,8 @@ function WorkflowEdgeComponent(props: EdgeProps) {
         path={edgePath}
         style={{
           stroke: strokeColor,
-          strokeWidth: status === "idle" ? 1.5 : 2,
+          strokeWidth: status === "idle" && !isRewired ? 1.5 : 2,
+          strokeDasharray: isRewired ? "6 3" : isSubNodeEdge ? "5 4" : undefined,
           transition: "stroke 0.3s ease, stroke-width 0.3s ease",
         }}
       />
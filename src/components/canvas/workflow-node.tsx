@@ -14,6 +14,13 @@ import { Badge } from "@/components/ui/badge";
 import { Shimmer } from "@/components/ai-elements/shimmer";
 import { cn } from "@/lib/utils";
 import { getNodeInfo } from "@/lib/n8n/node-registry";
+import { getHandleId } from "@/lib/n8n/converter";
+import type { N8nConnectionType, N8nNode } from "@/lib/n8n/types";
+import type { NodeDiff } from "@/lib/n8n/workflow-diff";
+import { requestExecutionFix } from "@/lib/execution/fix-with-ai";
+import { useSettings } from "@/contexts/settings-context";
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { useMissingCredentials } from "./node-credentials";
 import {
   Webhook,
   Globe,
@@ -51,6 +58,9 @@ import {
   Table,
   MessageCircle,
   Circle,
+  Sparkles,
+  Pin,
+  KeyRound,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 
@@ -91,15 +101,40 @@ const ICON_MAP: Record<string, LucideIcon> = {
   Circle,
 };
 
+// Short labels for the AI sub-node input handles along a root node's bottom edge
+const AI_INPUT_LABELS: Partial<Record<N8nConnectionType, string>> = {
+  ai_languageModel: "Model",
+  ai_memory: "Memory",
+  ai_tool: "Tool",
+  ai_outputParser: "Parser",
+  ai_embedding: "Embedding",
+  ai_vectorStore: "Vector Store",
+  ai_document: "Document",
+  ai_textSplitter: "Splitter",
+  ai_retriever: "Retriever",
+  ai_reranker: "Reranker",
+  ai_agent: "Agent",
+  ai_chain: "Chain",
+};
+
 const statusStyles: Record<string, string> = {
   idle: "border-border",
   pending: "border-muted-foreground/30 opacity-60",
   running: "border-blue-500 shadow-[0_0_12px_rgba(59,130,246,0.3)] animate-pulse",
   success: "border-green-500 shadow-[0_0_8px_rgba(34,197,94,0.2)]",
   error: "border-red-500 shadow-[0_0_8px_rgba(239,68,68,0.2)]",
+  skipped: "border-dashed border-muted-foreground/50 opacity-70",
 };
 
-function WorkflowNodeComponent({ data, selected }: RFNodeProps) {
+// Proposed-change overlay (approval mode)
+const diffStyles: Record<string, string> = {
+  added: "ring-2 ring-green-500",
+  removed: "ring-2 ring-red-500 opacity-50",
+  changed: "ring-2 ring-amber-500",
+};
+
+function WorkflowNodeComponent({ id, data, selected }: RFNodeProps) {
+  const { isAiConfigured } = useSettings();
   const n8nType = data.n8nType as string;
   const info = getNodeInfo(n8nType);
   const status = (data.executionStatus as string) || "idle";
@@ -107,16 +142,78 @@ function WorkflowNodeComponent({ data, selected }: RFNodeProps) {
   const executionTime = data.executionTime as number | undefined;
   const IconComp = ICON_MAP[info.icon] || Box;
   const isCategory = info.category === "trigger";
+  const aiInputs = (data.aiInputs as N8nConnectionType[] | undefined) ?? [];
+  const subNodeType = data.subNodeType as N8nConnectionType | null | undefined;
+  const mainInputs = (data.mainInputs as number | undefined) ?? 1;
+  const mainOutputs = (data.mainOutputs as number | undefined) ?? 1;
+  const hasTarget = !isCategory && !subNodeType;
+  const hasSource = !subNodeType;
+  const diff = data.diff as NodeDiff | undefined;
+  const isPinned = useWorkflowStore(
+    (s) => !!s.workflow?.pinData?.[data.label as string]
+  );
+  const n8nNode = data.n8nNode as N8nNode | undefined;
+  const missingCredentials = useMissingCredentials({
+    type: n8nType,
+    typeVersion: n8nNode?.typeVersion ?? 1,
+    parameters: (data.parameters as Record<string, unknown>) ?? {},
+    credentials: n8nNode?.credentials,
+  });
 
   return (
     <Node
-      handles={{ target: !isCategory, source: true }}
+      handles={{
+        target: hasTarget && mainInputs === 1,
+        source: hasSource && mainOutputs === 1,
+      }}
       className={cn(
         "!w-56 transition-all duration-300",
         statusStyles[status],
+        diff && diffStyles[diff.status],
         selected && "ring-2 ring-primary"
       )}
     >
+      {/* Nodes with several main inputs/outputs (Merge, IF, Loop) get one handle each */}
+      {hasTarget &&
+        mainInputs > 1 &&
+        Array.from({ length: mainInputs }, (_, i) => (
+          <Handle
+            key={`target-${i}`}
+            type="target"
+            position={Position.Left}
+            id={getHandleId("target", "main", i)}
+            style={{ top: `${((i + 1) / (mainInputs + 1)) * 100}%` }}
+          />
+        ))}
+      {hasSource &&
+        mainOutputs > 1 &&
+        Array.from({ length: mainOutputs }, (_, i) => (
+          <Handle
+            key={`source-${i}`}
+            type="source"
+            position={Position.Right}
+            id={getHandleId("source", "main", i)}
+            style={{ top: `${((i + 1) / (mainOutputs + 1)) * 100}%` }}
+          />
+        ))}
+      {/* Sub-nodes plug into their root from the top */}
+      {subNodeType && (
+        <Handle
+          type="source"
+          position={Position.Top}
+          id={`source-${subNodeType}`}
+        />
+      )}
+      {/* Root nodes expose one bottom handle per AI connection type */}
+      {aiInputs.map((type, i) => (
+        <Handle
+          key={type}
+          type="target"
+          position={Position.Bottom}
+          id={`target-${type}`}
+          style={{ left: `${((i + 1) / (aiInputs.length + 1)) * 100}%` }}
+        />
+      ))}
       <NodeHeader className="flex-row items-center gap-2">
         <div
           className="flex size-7 shrink-0 items-center justify-center rounded"
@@ -132,6 +229,11 @@ function WorkflowNodeComponent({ data, selected }: RFNodeProps) {
             {info.label}
           </NodeDescription>
         </div>
+        {isPinned && (
+          <span title="Pinned data: runs output these items instead">
+            <Pin className="size-3.5 shrink-0 text-violet-500" />
+          </span>
+        )}
         {status === "success" && (
           <CheckCircle2 className="size-4 shrink-0 text-green-500" />
         )}
@@ -142,6 +244,27 @@ function WorkflowNodeComponent({ data, selected }: RFNodeProps) {
           <Shimmer className="text-[10px]">Running...</Shimmer>
         )}
       </NodeHeader>
+      {missingCredentials.length > 0 && !diff && (
+        <NodeContent className="!p-2">
+          <span
+            className="flex items-center gap-1 text-[10px] text-amber-600"
+            title={`Missing: ${missingCredentials.join(", ")}. Open the node to pick credentials.`}
+          >
+            <KeyRound className="size-3 shrink-0" />
+            Needs credentials
+          </span>
+        </NodeContent>
+      )}
+      {status === "skipped" && typeof data.skipReason === "string" && (
+        <NodeContent className="!p-2">
+          <span
+            className="line-clamp-2 text-[10px] text-muted-foreground"
+            title={data.skipReason}
+          >
+            Skipped: {data.skipReason}
+          </span>
+        </NodeContent>
+      )}
       {(status === "success" || status === "error") && (
         <NodeContent className="flex items-center gap-2 !p-2">
           {status === "success" && itemCount > 0 && (
@@ -164,8 +287,43 @@ function WorkflowNodeComponent({ data, selected }: RFNodeProps) {
               {data.error}
             </span>
           )}
+          {status === "error" && isAiConfigured && !diff && (
+            <button
+              className="nodrag ml-auto flex shrink-0 items-center gap-0.5 rounded px-1 text-[10px] text-primary hover:bg-primary/10"
+              title="Fix with AI"
+              onClick={(e) => {
+                e.stopPropagation();
+                requestExecutionFix(id);
+              }}
+            >
+              <Sparkles className="size-3" />
+              Fix
+            </button>
+          )}
+        </NodeContent>
+      )}
+      {diff?.status === "changed" && (
+        <NodeContent className="!p-2">
+          <span
+            className="line-clamp-2 text-[10px] text-amber-600"
+            title={diff.changedFields.join(", ")}
+          >
+            Changed: {diff.changedFields.join(", ")}
+          </span>
         </NodeContent>
       )}
+      {aiInputs.length > 0 && (
+        <div className="flex border-t px-1 py-1">
+          {aiInputs.map((type) => (
+            <span
+              key={type}
+              className="flex-1 truncate text-center text-[9px] text-muted-foreground"
+            >
+              {AI_INPUT_LABELS[type] ?? type}
+            </span>
+          ))}
+        </div>
+      )}
     </Node>
   );
 }
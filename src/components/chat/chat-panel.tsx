@@ -7,9 +7,48 @@ import { useWorkflowStore } from "@/stores/workflow-store";
 import { Shimmer } from "@/components/ai-elements/shimmer";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
-import { Workflow, Bot, User, Wrench, Send, Square } from "lucide-react";
+import {
+  Workflow,
+  Bot,
+  User,
+  Wrench,
+  Send,
+  Square,
+  Check,
+  X,
+  Loader2,
+  MessageSquare,
+  Pencil,
+  History,
+  Trash2,
+  SquarePen,
+} from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { applyProposal } from "@/lib/n8n/workflow-sync";
+import { trackExecution } from "@/lib/execution/execution-manager";
+import { buildWorkflowContext } from "@/lib/ai/canvas-context";
+import {
+  conversationTitle,
+  deleteConversation,
+  listConversations,
+  loadConversation,
+  saveConversation,
+  updateConversation,
+} from "@/lib/chat/conversations";
+import type { ConversationInput, ConversationSummary } from "@/lib/chat/types";
 import type { N8nWorkflow } from "@/lib/n8n/types";
 import type { UIMessage, UIMessagePart } from "ai";
 
@@ -26,16 +65,373 @@ const FRIENDLY_TOOL_NAMES: Record<string, string> = {
   getWorkflowTemplates: "Searching workflow templates",
   createWorkflow: "Creating workflow",
   updateWorkflow: "Updating workflow",
+  patchWorkflow: "Editing workflow",
   addNode: "Adding node",
   removeNode: "Removing node",
   listWorkflows: "Listing workflows",
+  getAvailableCredentials: "Checking credentials",
   activateWorkflow: "Toggling workflow",
   executeWorkflow: "Executing workflow",
+  getExecutionDetails: "Inspecting execution",
 };
 
+type ProposalDecision = "applied" | "rejected";
+
+interface ProposalHandlers {
+  decisions: Record<string, ProposalDecision>;
+  onApply: (toolCallId: string, toolName: string) => Promise<void>;
+  onReject: (toolCallId: string, toolName: string, reason: string) => void;
+}
+
+/** The conversation on screen; `messages` is its saved history when opened. */
+interface ActiveConversation extends ConversationInput {
+  saved: boolean;
+}
+
+function newConversation(workflowId: string | null): ActiveConversation {
+  return { id: crypto.randomUUID(), workflowId, title: "", messages: [], saved: false };
+}
+
+function toolCallIds(messages: UIMessage[]): Set<string> {
+  return new Set(
+    messages.flatMap((m) =>
+      (m.parts ?? []).flatMap((p) => (isToolUIPart(p) ? [p.toolCallId] : []))
+    )
+  );
+}
+
+/**
+ * Chat with saved conversations. Each conversation follows the workflow it
+ * is about: opening another workflow on the canvas switches to that
+ * workflow's latest conversation, and reopening a conversation opens its
+ * workflow.
+ */
 export function ChatPanel() {
-  const { settings, isAiConfigured } = useSettings();
+  const { settings, isN8nConfigured } = useSettings();
   const setWorkflow = useWorkflowStore((s) => s.setWorkflow);
+  const canvasWorkflowId = useWorkflowStore((s) => s.workflow?.id ?? null);
+  const [conversation, setConversation] = useState<ActiveConversation | null>(null);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Updated together with the state, so callbacks never act on a stale one
+  const conversationRef = useRef(conversation);
+
+  const show = useCallback((next: ActiveConversation) => {
+    conversationRef.current = next;
+    setConversation(next);
+  }, []);
+
+  const openWorkflow = useCallback(
+    async (workflowId: string) => {
+      try {
+        const res = await fetch(`/api/n8n/workflows/${workflowId}`, {
+          headers: {
+            "x-n8n-key": settingsRef.current.n8nApiKey,
+            "x-n8n-url": settingsRef.current.n8nBaseUrl,
+          },
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setWorkflow(data as N8nWorkflow, `Opened "${data.name}"`);
+      } catch (err) {
+        toast.error("Couldn't open this conversation's workflow", {
+          description: err instanceof Error ? err.message : undefined,
+        });
+      }
+    },
+    [setWorkflow]
+  );
+
+  const resume = useCallback(
+    async (id: string) => {
+      const result = await loadConversation(settingsRef.current, id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      show({ ...result.conversation, saved: true });
+      const { workflowId } = result.conversation;
+      if (workflowId && workflowId !== useWorkflowStore.getState().workflow?.id) {
+        await openWorkflow(workflowId);
+      }
+    },
+    [show, openWorkflow]
+  );
+
+  // Pick up where the last session with this n8n connection left off
+  useEffect(() => {
+    if (!isN8nConfigured) {
+      if (!conversationRef.current) {
+        show(newConversation(useWorkflowStore.getState().workflow?.id ?? null));
+      }
+      return;
+    }
+    let cancelled = false;
+    listConversations(settingsRef.current).then((result) => {
+      if (cancelled) return;
+      const latest = result.success ? result.conversations[0] : undefined;
+      if (latest) resume(latest.id);
+      else show(newConversation(useWorkflowStore.getState().workflow?.id ?? null));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isN8nConfigured, settings.n8nBaseUrl, settings.n8nApiKey, resume, show]);
+
+  /** Tie the conversation to the workflow it is now about. */
+  const bindWorkflow = useCallback(
+    (workflowId: string) => {
+      const current = conversationRef.current;
+      if (!current || current.workflowId === workflowId) return;
+      show({ ...current, workflowId });
+      if (current.saved) updateConversation(settingsRef.current, current.id, { workflowId });
+    },
+    [show]
+  );
+
+  // A workflow opened from elsewhere brings its own conversation along
+  useEffect(() => {
+    const current = conversationRef.current;
+    if (!current || !canvasWorkflowId || current.workflowId === canvasWorkflowId) return;
+    if (!current.workflowId) {
+      bindWorkflow(canvasWorkflowId);
+      return;
+    }
+    let cancelled = false;
+    listConversations(settingsRef.current, canvasWorkflowId).then((result) => {
+      if (cancelled) return;
+      const latest = result.success ? result.conversations[0] : undefined;
+      if (latest) resume(latest.id);
+      else show(newConversation(canvasWorkflowId));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasWorkflowId, bindWorkflow, resume, show]);
+
+  const handleSave = useCallback(
+    async (conversationId: string, messages: UIMessage[]) => {
+      const current = conversationRef.current;
+      if (current?.id !== conversationId || messages.length === 0) return;
+      const title = current.title || conversationTitle(messages);
+      show({ ...current, title, saved: true });
+      const result = await saveConversation(settingsRef.current, {
+        id: current.id,
+        workflowId: current.workflowId,
+        title,
+        messages,
+      });
+      if (!result.success) toast.error(`Couldn't save the conversation: ${result.error}`);
+    },
+    [show]
+  );
+
+  const handleRename = useCallback(
+    async (title: string) => {
+      const current = conversationRef.current;
+      if (!current) return;
+      show({ ...current, title });
+      if (!current.saved) return;
+      const result = await updateConversation(settingsRef.current, current.id, { title });
+      if (!result.success) toast.error(result.error);
+    },
+    [show]
+  );
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      const result = await deleteConversation(settingsRef.current, id);
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      if (conversationRef.current?.id === id) {
+        show(newConversation(useWorkflowStore.getState().workflow?.id ?? null));
+      }
+    },
+    [show]
+  );
+
+  if (!conversation) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="size-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col overflow-hidden">
+      <ConversationHeader
+        conversation={conversation}
+        canvasWorkflowId={canvasWorkflowId}
+        onRename={handleRename}
+        onResume={resume}
+        onDelete={handleDelete}
+        onNew={() => show(newConversation(canvasWorkflowId))}
+      />
+      <ChatSession
+        key={conversation.id}
+        conversation={conversation}
+        onWorkflow={bindWorkflow}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
+
+function ConversationHeader({
+  conversation,
+  canvasWorkflowId,
+  onRename,
+  onResume,
+  onDelete,
+  onNew,
+}: {
+  conversation: ActiveConversation;
+  canvasWorkflowId: string | null;
+  onRename: (title: string) => void;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => Promise<void>;
+  onNew: () => void;
+}) {
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[] | null>(null);
+  const [listError, setListError] = useState("");
+  const { settings } = useSettings();
+
+  const loadList = useCallback(async () => {
+    const result = await listConversations(settings);
+    if (result.success) {
+      setConversations(result.conversations);
+      setListError("");
+    } else {
+      setListError(result.error);
+    }
+  }, [settings]);
+
+  const commitTitle = () => {
+    const title = draftTitle?.trim();
+    setDraftTitle(null);
+    if (title && title !== conversation.title) onRename(title);
+  };
+
+  return (
+    <div className="flex h-9 shrink-0 items-center gap-1 border-b px-2">
+      <MessageSquare className="size-3.5 shrink-0 text-muted-foreground" />
+      {draftTitle === null ? (
+        <>
+          <span className="min-w-0 truncate text-xs font-medium">
+            {conversation.title || "New chat"}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6 shrink-0"
+            title="Rename conversation"
+            onClick={() => setDraftTitle(conversation.title)}
+          >
+            <Pencil className="size-3" />
+          </Button>
+        </>
+      ) : (
+        <Input
+          autoFocus
+          value={draftTitle}
+          placeholder="Conversation name"
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={commitTitle}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitTitle();
+            if (e.key === "Escape") setDraftTitle(null);
+          }}
+          className="h-6 text-xs"
+        />
+      )}
+      <div className="ml-auto flex shrink-0 items-center">
+        <DropdownMenu onOpenChange={(open) => open && loadList()}>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="size-6" title="Conversations">
+              <History className="size-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-80 w-72 overflow-y-auto">
+            <DropdownMenuLabel className="text-xs">Conversations</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {listError && (
+              <p className="px-2 py-1.5 text-[11px] text-destructive">{listError}</p>
+            )}
+            {!listError && conversations === null && (
+              <p className="px-2 py-1.5 text-[11px] text-muted-foreground">Loading…</p>
+            )}
+            {conversations?.length === 0 && (
+              <p className="px-2 py-1.5 text-[11px] text-muted-foreground">
+                No saved conversations yet
+              </p>
+            )}
+            {conversations?.map((c) => (
+              <DropdownMenuItem
+                key={c.id}
+                className="group items-start gap-2"
+                onSelect={() => {
+                  if (c.id !== conversation.id) onResume(c.id);
+                }}
+              >
+                <div className="min-w-0 flex-1">
+                  <p
+                    className={`truncate text-xs ${c.id === conversation.id ? "font-semibold" : ""}`}
+                  >
+                    {c.title || "New chat"}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {new Date(c.updatedAt).toLocaleString()} · {c.messageCount} messages
+                    {c.workflowId && c.workflowId === canvasWorkflowId && " · this workflow"}
+                  </p>
+                </div>
+                <button
+                  title="Delete conversation"
+                  className="rounded p-0.5 text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100"
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={async (e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    await onDelete(c.id);
+                    loadList();
+                  }}
+                >
+                  <Trash2 className="size-3" />
+                </button>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-6"
+          title={canvasWorkflowId ? "New chat for this workflow" : "New chat"}
+          onClick={onNew}
+        >
+          <SquarePen className="size-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ChatSessionProps {
+  conversation: ActiveConversation;
+  onWorkflow: (workflowId: string) => void;
+  onSave: (conversationId: string, messages: UIMessage[]) => void;
+}
+
+/** One conversation; remounted (keyed by id) when another is opened. */
+function ChatSession({ conversation, onWorkflow, onSave }: ChatSessionProps) {
+  const { settings, updateSettings, isAiConfigured } = useSettings();
+  const setWorkflow = useWorkflowStore((s) => s.setWorkflow);
+  const setProposal = useWorkflowStore((s) => s.setProposal);
+  const [decisions, setDecisions] = useState<Record<string, ProposalDecision>>({});
   const [inputText, setInputText] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -54,7 +450,11 @@ export function ChatPanel() {
           "x-ai-provider": settingsRef.current.aiProvider,
           "x-n8n-key": settingsRef.current.n8nApiKey,
           "x-n8n-url": settingsRef.current.n8nBaseUrl,
+          "x-approval-mode": String(settingsRef.current.approvalMode),
         }),
+        // Tell the model what is on the canvas now (it may have been opened
+        // from the workflow browser or edited by hand since the last reply)
+        body: () => ({ context: buildWorkflowContext() }),
       }),
     // eslint-disable-next-line react-hooks/exhaustive-deps
     [] // stable — headers fn reads from ref
@@ -67,12 +467,20 @@ export function ChatPanel() {
     stop,
     error,
   } = useChat({
+    id: conversation.id,
+    messages: conversation.messages,
     transport,
+    onFinish: ({ messages }) => onSave(conversation.id, messages),
     onError: (err) => {
       console.error("[chat error]", err);
     },
   });
 
+  // Tool calls whose workflow has already been applied to the canvas, so a
+  // workflow opened from the browser isn't overwritten by older tool results.
+  // A resumed conversation's were applied when it was first held.
+  const appliedToolCallsRef = useRef(toolCallIds(conversation.messages));
+
   // Watch for workflow creation/update in tool results
   useEffect(() => {
     for (const msg of messages) {
@@ -81,20 +489,101 @@ export function ChatPanel() {
         // Check if this is a tool part with output-available
         if (isToolUIPart(part)) {
           const toolPart = part as unknown as {
+            type: string;
+            toolCallId: string;
             state: string;
             output?: Record<string, unknown>;
           };
           if (
             toolPart.state === "output-available" &&
             toolPart.output?.success &&
-            toolPart.output?.workflow
+            toolPart.output?.workflow &&
+            !appliedToolCallsRef.current.has(toolPart.toolCallId)
           ) {
-            setWorkflow(toolPart.output.workflow as N8nWorkflow);
+            appliedToolCallsRef.current.add(toolPart.toolCallId);
+            const workflow = toolPart.output.workflow as N8nWorkflow;
+            // Move the conversation along before the canvas switches workflow
+            if (workflow.id) onWorkflow(workflow.id);
+            setWorkflow(workflow, `AI: ${toolPart.type.replace(/^tool-/, "")}`);
+          }
+          // Runs started by the model are shown live on the canvas
+          if (
+            toolPart.type === "tool-executeWorkflow" &&
+            toolPart.state === "output-available" &&
+            typeof toolPart.output?.executionId === "string" &&
+            toolPart.output.workflowId === useWorkflowStore.getState().workflow?.id &&
+            !appliedToolCallsRef.current.has(toolPart.toolCallId)
+          ) {
+            appliedToolCallsRef.current.add(toolPart.toolCallId);
+            useWorkflowStore.getState().startExecution(toolPart.output.executionId);
+            trackExecution(toolPart.output.executionId, settingsRef.current);
+          }
+          // Approval mode: preview the proposed change until the user decides
+          if (
+            toolPart.state === "output-available" &&
+            toolPart.output?.pendingApproval &&
+            !appliedToolCallsRef.current.has(toolPart.toolCallId)
+          ) {
+            appliedToolCallsRef.current.add(toolPart.toolCallId);
+            setProposal({
+              toolCallId: toolPart.toolCallId,
+              toolName: toolPart.type.replace(/^tool-/, ""),
+              workflow: toolPart.output.proposedWorkflow as N8nWorkflow,
+              baseUpdatedAt: toolPart.output.baseUpdatedAt as string | undefined,
+            });
           }
         }
       }
     }
-  }, [messages, setWorkflow]);
+  }, [messages, setWorkflow, setProposal, onWorkflow]);
+
+  const handleApply = useCallback(
+    async (toolCallId: string, toolName: string) => {
+      const result = await applyProposal(settingsRef.current);
+      if (result.success) {
+        setDecisions((prev) => ({ ...prev, [toolCallId]: "applied" }));
+        toast.success("Change applied to n8n");
+        // The tool result told the model the change wasn't applied yet
+        sendMessage({
+          text: `I applied the proposed ${toolName} change; it is now saved in n8n.`,
+        });
+      } else if (result.conflict) {
+        toast.error("The workflow changed in n8n since this was proposed", {
+          description: "Reject it and ask for the change again.",
+        });
+      } else {
+        toast.error(result.error);
+      }
+    },
+    [sendMessage]
+  );
+
+  const handleReject = useCallback(
+    (toolCallId: string, toolName: string, reason: string) => {
+      useWorkflowStore.getState().clearProposal();
+      setDecisions((prev) => ({ ...prev, [toolCallId]: "rejected" }));
+      // Tell the model why, so its next attempt can take it into account
+      sendMessage({
+        text:
+          `I rejected the proposed ${toolName} change.` +
+          (reason.trim() ? ` Reason: ${reason.trim()}` : ""),
+      });
+    },
+    [sendMessage]
+  );
+
+  const proposalHandlers = useMemo<ProposalHandlers>(
+    () => ({ decisions, onApply: handleApply, onReject: handleReject }),
+    [decisions, handleApply, handleReject]
+  );
+
+  // Send messages queued by other parts of the UI (e.g. "Fix with AI")
+  const chatRequest = useWorkflowStore((s) => s.chatRequest);
+  useEffect(() => {
+    if (!chatRequest || status === "streaming" || status === "submitted") return;
+    useWorkflowStore.getState().clearChatRequest();
+    sendMessage({ text: chatRequest.text }, { body: chatRequest.body });
+  }, [chatRequest, status, sendMessage]);
 
   // Auto-scroll to bottom when messages change or while streaming
   useEffect(() => {
@@ -126,7 +615,7 @@ export function ChatPanel() {
   const isStreaming = status === "streaming" || status === "submitted";
 
   return (
-    <div className="flex h-full flex-col overflow-hidden">
+    <div className="flex min-h-0 flex-1 flex-col overflow-hidden">
       {/* Messages area — plain div for reliable scrolling */}
       <div
         ref={scrollRef}
@@ -162,7 +651,11 @@ export function ChatPanel() {
         ) : (
           <div className="space-y-1 p-2">
             {messages.map((message) => (
-              <ChatMessage key={message.id} message={message} />
+              <ChatMessage
+                key={message.id}
+                message={message}
+                proposals={proposalHandlers}
+              />
             ))}
             {isStreaming && (
               <div className="flex items-start gap-2 px-3 py-2">
@@ -220,15 +713,39 @@ export function ChatPanel() {
             )}
           </div>
         </div>
-        <p className="mt-1 text-[10px] text-muted-foreground">
-          Enter to send, Shift+Enter for new line
-        </p>
+        <div className="mt-1 flex items-center justify-between gap-2">
+          <p className="text-[10px] text-muted-foreground">
+            Enter to send, Shift+Enter for new line
+          </p>
+          <div className="flex items-center gap-1.5">
+            <Switch
+              id="approval-mode"
+              size="sm"
+              checked={settings.approvalMode}
+              onCheckedChange={(checked) =>
+                updateSettings({ approvalMode: checked })
+              }
+            />
+            <Label
+              htmlFor="approval-mode"
+              className="text-[10px] font-normal text-muted-foreground"
+            >
+              Review changes
+            </Label>
+          </div>
+        </div>
       </div>
     </div>
   );
 }
 
-function ChatMessage({ message }: { message: UIMessage }) {
+function ChatMessage({
+  message,
+  proposals,
+}: {
+  message: UIMessage;
+  proposals: ProposalHandlers;
+}) {
   const isUser = message.role === "user";
 
   return (
@@ -250,7 +767,7 @@ function ChatMessage({ message }: { message: UIMessage }) {
       </div>
       <div className="min-w-0 flex-1 space-y-1">
         {message.parts?.map((part, i) => (
-          <MessagePart key={i} part={part} />
+          <MessagePart key={i} part={part} proposals={proposals} />
         ))}
         {/* Fallback for empty parts */}
         {!message.parts?.length && (
@@ -261,8 +778,14 @@ function ChatMessage({ message }: { message: UIMessage }) {
   );
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function MessagePart({ part }: { part: any }) {
+function MessagePart({
+  part,
+  proposals,
+}: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  part: any;
+  proposals: ProposalHandlers;
+}) {
   // Text content
   if (part.type === "text") {
     if (!part.text) return null;
@@ -319,8 +842,26 @@ function MessagePart({ part }: { part: any }) {
         {errorMsg && (
           <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-1.5 text-[11px] text-destructive">
             {String(errorMsg)}
+            {Array.isArray(output?.validationErrors) && (
+              <ul className="mt-1 list-disc pl-4">
+                {output.validationErrors.map(
+                  (issue: { message: string }, i: number) => (
+                    <li key={i}>{issue.message}</li>
+                  )
+                )}
+              </ul>
+            )}
           </div>
         )}
+        {isComplete && output?.pendingApproval && (
+          <ProposalActions
+            toolCallId={part.toolCallId}
+            toolName={toolName}
+            decision={proposals.decisions[part.toolCallId]}
+            onApply={proposals.onApply}
+            onReject={proposals.onReject}
+          />
+        )}
       </div>
     );
   }
@@ -356,3 +897,100 @@ function MessagePart({ part }: { part: any }) {
 
   return null;
 }
+
+function ProposalActions({
+  toolCallId,
+  toolName,
+  decision,
+  onApply,
+  onReject,
+}: {
+  toolCallId: string;
+  toolName: string;
+  decision?: ProposalDecision;
+} & Pick<ProposalHandlers, "onApply" | "onReject">) {
+  const proposal = useWorkflowStore((s) =>
+    s.proposal?.toolCallId === toolCallId ? s.proposal : null
+  );
+  const [isApplying, setIsApplying] = useState(false);
+  const [reason, setReason] = useState<string | null>(null);
+
+  if (decision) {
+    return (
+      <p className="px-1 text-[11px] text-muted-foreground">
+        {decision === "applied" ? "Applied to n8n" : "Rejected"}
+      </p>
+    );
+  }
+  if (!proposal) {
+    return (
+      <p className="px-1 text-[11px] text-muted-foreground">
+        Proposal no longer pending
+      </p>
+    );
+  }
+
+  const { added, removed, changed, rewired } = proposal.diff.summary;
+
+  return (
+    <div className="space-y-2 rounded-md border border-amber-500/40 bg-amber-500/5 px-3 py-2">
+      <p className="text-[11px] text-muted-foreground">
+        Previewing on the canvas:{" "}
+        <span className="text-green-600">+{added}</span>{" "}
+        <span className="text-red-500">−{removed}</span>{" "}
+        <span className="text-amber-600">~{changed}</span> nodes, {rewired}{" "}
+        connection{rewired !== 1 ? "s" : ""} rewired
+      </p>
+      {reason === null ? (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={isApplying}
+            onClick={async () => {
+              setIsApplying(true);
+              await onApply(toolCallId, toolName);
+              setIsApplying(false);
+            }}
+          >
+            {isApplying ? (
+              <Loader2 className="mr-1 size-3 animate-spin" />
+            ) : (
+              <Check className="mr-1 size-3" />
+            )}
+            Apply
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            disabled={isApplying}
+            onClick={() => setReason("")}
+          >
+            <X className="mr-1 size-3" />
+            Reject
+          </Button>
+        </div>
+      ) : (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onReject(toolCallId, toolName, reason);
+          }}
+        >
+          <Input
+            autoFocus
+            placeholder="Why? (optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="h-7 text-xs"
+          />
+          <Button type="submit" size="sm" variant="outline" className="h-7 text-xs">
+            Reject
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -8,12 +8,15 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Settings, Workflow, CircleDot } from "lucide-react";
+import { WorkflowBrowser } from "@/components/workflow-browser";
+import { Settings, Workflow, CircleDot, FolderOpen } from "lucide-react";
 import Link from "next/link";
+import { useState } from "react";
 
 export function TopBar() {
   const { isAiConfigured, isN8nConfigured } = useSettings();
   const workflow = useWorkflowStore((s) => s.workflow);
+  const [isBrowserOpen, setIsBrowserOpen] = useState(false);
 
   return (
     <header className="flex h-12 shrink-0 items-center justify-between border-b bg-background px-4">
@@ -30,6 +33,21 @@ export function TopBar() {
         ) : (
           <span className="text-sm text-muted-foreground">No workflow</span>
         )}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              disabled={!isN8nConfigured}
+              onClick={() => setIsBrowserOpen(true)}
+            >
+              <FolderOpen className="size-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Open an existing workflow</TooltipContent>
+        </Tooltip>
+        <WorkflowBrowser open={isBrowserOpen} onOpenChange={setIsBrowserOpen} />
       </div>
 
       {/* Right: Status dots + Settings */}
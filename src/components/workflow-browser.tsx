@@ -0,0 +1,205 @@
+"use client";
+
+import { useSettings } from "@/contexts/settings-context";
+import { useWorkflowStore } from "@/stores/workflow-store";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Search, Workflow } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { N8nWorkflow } from "@/lib/n8n/types";
+
+const PAGE_SIZE = 25;
+
+interface WorkflowBrowserProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function WorkflowBrowser({ open, onOpenChange }: WorkflowBrowserProps) {
+  const { settings } = useSettings();
+  const setWorkflow = useWorkflowStore((s) => s.setWorkflow);
+  const [query, setQuery] = useState("");
+  const [workflows, setWorkflows] = useState<N8nWorkflow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  // Ignore responses from searches that have since been superseded
+  const requestIdRef = useRef(0);
+
+  const loadPage = useCallback(
+    async (name: string, cursor?: string) => {
+      const requestId = ++requestIdRef.current;
+      setIsLoading(true);
+      setError("");
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+        if (name) params.set("name", name);
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/n8n/workflows?${params}`, {
+          headers: {
+            "x-n8n-key": settings.n8nApiKey,
+            "x-n8n-url": settings.n8nBaseUrl,
+          },
+        });
+        const data = await res.json();
+        if (requestId !== requestIdRef.current) return;
+        if (!res.ok) {
+          setError(data.error || `HTTP ${res.status}`);
+          return;
+        }
+        const page = (data.data ?? []) as N8nWorkflow[];
+        setWorkflows((prev) => (cursor ? [...prev, ...page] : page));
+        setNextCursor(data.nextCursor ?? null);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        setError(err instanceof Error ? err.message : "Failed to load workflows");
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    },
+    [settings.n8nApiKey, settings.n8nBaseUrl]
+  );
+
+  // (Re)load the first page when the dialog opens or the search changes
+  useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(() => loadPage(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [open, query, loadPage]);
+
+  const handleOpen = useCallback(
+    async (id: string) => {
+      setOpeningId(id);
+      try {
+        const res = await fetch(`/api/n8n/workflows/${id}`, {
+          headers: {
+            "x-n8n-key": settings.n8nApiKey,
+            "x-n8n-url": settings.n8nBaseUrl,
+          },
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data.error || "Failed to open workflow");
+          return;
+        }
+        setWorkflow(data as N8nWorkflow, `Opened "${data.name}"`);
+        toast.success(`Opened "${data.name}"`);
+        onOpenChange(false);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Failed to open workflow");
+      } finally {
+        setOpeningId(null);
+      }
+    },
+    [settings.n8nApiKey, settings.n8nBaseUrl, setWorkflow, onOpenChange]
+  );
+
+  // The n8n name filter is ignored by older instances, so also match
+  // name and tags locally over what has been loaded.
+  const needle = query.trim().toLowerCase();
+  const visible = needle
+    ? workflows.filter(
+        (w) =>
+          w.name.toLowerCase().includes(needle) ||
+          w.tags?.some((t) => t.name.toLowerCase().includes(needle))
+      )
+    : workflows;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Open workflow</DialogTitle>
+          <DialogDescription>
+            Load an existing workflow from your n8n instance onto the canvas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute top-1/2 left-2.5 size-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by name or tag..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        <ScrollArea className="h-80 rounded-md border">
+          {error ? (
+            <p className="p-4 text-xs text-destructive">{error}</p>
+          ) : visible.length === 0 && !isLoading ? (
+            <p className="p-4 text-xs text-muted-foreground">No workflows found</p>
+          ) : (
+            <div className="divide-y">
+              {visible.map((w) => (
+                <button
+                  key={w.id}
+                  onClick={() => w.id && handleOpen(w.id)}
+                  disabled={openingId !== null}
+                  className="flex w-full items-start gap-3 px-3 py-2 text-left transition-colors hover:bg-muted/50 disabled:opacity-60"
+                >
+                  <Workflow className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium">{w.name}</span>
+                      <span
+                        className={`size-1.5 shrink-0 rounded-full ${
+                          w.active ? "bg-green-500" : "bg-muted-foreground/40"
+                        }`}
+                        title={w.active ? "Active" : "Inactive"}
+                      />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {w.tags?.map((t) => (
+                        <Badge key={t.id} variant="outline" className="h-4 text-[10px]">
+                          {t.name}
+                        </Badge>
+                      ))}
+                      {w.updatedAt && (
+                        <span className="text-[10px] text-muted-foreground">
+                          Updated {new Date(w.updatedAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {openingId === w.id && (
+                    <Loader2 className="size-4 shrink-0 animate-spin text-muted-foreground" />
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          {isLoading && (
+            <div className="flex justify-center p-3">
+              <Loader2 className="size-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </ScrollArea>
+
+        {nextCursor && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isLoading}
+            onClick={() => loadPage(query.trim(), nextCursor)}
+          >
+            Load more
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
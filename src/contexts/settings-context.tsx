@@ -18,6 +18,8 @@ export interface AppSettings {
   // n8n
   n8nBaseUrl: string;
   n8nApiKey: string;
+  // Review AI edits to existing workflows before they are written to n8n
+  approvalMode: boolean;
 }
 
 interface SettingsContextValue {
@@ -34,6 +36,7 @@ const DEFAULT_SETTINGS: AppSettings = {
   aiModel: "openai/gpt-4o",
   n8nBaseUrl: "",
   n8nApiKey: "",
+  approvalMode: false,
 };
 
 const STORAGE_KEY = "n8n-ai-settings";
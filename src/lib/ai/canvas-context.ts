@@ -0,0 +1,66 @@
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { reactFlowToN8n } from "@/lib/n8n/converter";
+import { DRY_RUN_ID } from "@/lib/execution/simulator";
+import {
+  CANVAS_JSON_LENGTH,
+  trimWorkflowJson,
+  type WorkflowContext,
+} from "./workflow-context";
+
+/**
+ * The canvas as it is now, for the chat request body: the workflow with any
+ * unsaved edits, the selected node and the latest run. Undefined when the
+ * canvas is empty.
+ */
+export function buildWorkflowContext(): WorkflowContext | undefined {
+  const {
+    workflow,
+    nodes,
+    edges,
+    isDirty,
+    selectedNodeId,
+    executionId,
+    executionStatus,
+    nodeStatuses,
+  } = useWorkflowStore.getState();
+  if (!workflow && nodes.length === 0) return undefined;
+
+  const current = reactFlowToN8n(nodes, edges, workflow ?? undefined);
+  const selectedIndex = nodes.findIndex((n) => n.id === selectedNodeId);
+  const selected = selectedIndex >= 0 ? current.nodes[selectedIndex] : undefined;
+
+  return {
+    workflowId: workflow?.id,
+    name: current.name,
+    active: workflow?.active,
+    unsavedChanges: isDirty,
+    workflow: trimWorkflowJson(current, CANVAS_JSON_LENGTH),
+    pinData: current.pinData,
+    selectedNode: selected && {
+      name: selected.name,
+      type: selected.type,
+      typeVersion: selected.typeVersion,
+      parameters: selected.parameters ?? {},
+    },
+    execution:
+      executionId && executionStatus !== "idle"
+        ? {
+            id: executionId,
+            dryRun: executionId === DRY_RUN_ID,
+            status: executionStatus,
+            nodes: nodes.flatMap((node, i) => {
+              const status = nodeStatuses[node.id];
+              if (!status || status.status === "idle") return [];
+              return [
+                {
+                  name: current.nodes[i].name,
+                  status: status.status,
+                  itemCount: status.itemCount,
+                  error: status.error,
+                },
+              ];
+            }),
+          }
+        : undefined,
+  };
+}
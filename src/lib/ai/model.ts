@@ -0,0 +1,39 @@
+import { createGatewayProvider } from "@ai-sdk/gateway";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import type { LanguageModel } from "ai";
+
+/**
+ * Build the chat model for the provider and model id chosen in Settings.
+ */
+export function createModel(
+  provider: string,
+  model: string,
+  apiKey: string
+): LanguageModel {
+  if (provider === "gateway") {
+    const gw = createGatewayProvider({ apiKey });
+    return gw(model);
+  }
+
+  if (provider === "openai") {
+    const openai = createOpenAI({ apiKey });
+    // Strip "openai/" prefix if present
+    const modelId = model.startsWith("openai/")
+      ? model.slice("openai/".length)
+      : model;
+    return openai(modelId);
+  }
+
+  if (provider === "anthropic") {
+    const anthropic = createAnthropic({ apiKey });
+    const modelId = model.startsWith("anthropic/")
+      ? model.slice("anthropic/".length)
+      : model;
+    return anthropic(modelId);
+  }
+
+  // Fallback: try gateway
+  const gw = createGatewayProvider({ apiKey });
+  return gw(model);
+}
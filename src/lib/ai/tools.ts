@@ -1,11 +1,36 @@
 import { tool } from "ai";
 import { z } from "zod";
 import { N8nClient } from "@/lib/n8n/client";
+import { runWithStrategy } from "@/lib/execution/strategies";
+import { reconstructInputs, toRunOutputs } from "@/lib/execution/node-io";
+import { summarizeExecution } from "@/lib/execution/history";
+import {
+  N8N_CONNECTION_TYPES,
+  type ExecutionItem,
+  type N8nConnectionType,
+  type N8nExecution,
+  type N8nConnections,
+  type N8nNode,
+  type N8nPinData,
+  type N8nWorkflow,
+} from "@/lib/n8n/types";
+import {
+  validateWorkflow,
+  type ValidateOptions,
+  type ValidationResult,
+} from "@/lib/n8n/workflow-validator";
+import { pickSchemaForVersion } from "@/lib/n8n/parameter-validator";
+import { assignCredentials, requiredCredentialTypes } from "@/lib/n8n/credentials";
+import { applyWorkflowPatch, WorkflowPatchError } from "@/lib/n8n/workflow-patch";
 import {
   findRelevantNodeDocs,
   getNodeDocsByType,
   findRelevantTemplates,
+  getLatestNodeVersions,
+  getParameterSchemas,
+  hasNodeDocs,
 } from "@/lib/rag/retrieval";
+import { trimWorkflowJson } from "./workflow-context";
 
 const n8nNodeSchema = z.object({
   id: z.string().describe("Unique UUID for the node"),
@@ -23,22 +48,86 @@ const n8nNodeSchema = z.object({
     })
     .describe("Node position as {x, y}"),
   parameters: z.record(z.string(), z.unknown()).default({}),
+  credentials: z
+    .record(z.string(), z.object({ id: z.string(), name: z.string() }))
+    .optional()
+    .describe(
+      "Credentials by credential type, from getAvailableCredentials, e.g. { slackOAuth2Api: { id, name } }"
+    ),
 });
 
+const connectionTypeSchema = z
+  .enum(N8N_CONNECTION_TYPES)
+  .describe(
+    'Connection type: "main" for data flow, or the AI sub-node type (ai_languageModel, ai_tool, ai_memory, …)'
+  );
+
 const n8nConnectionSchema = z.object({
   node: z.string().describe("Target node name"),
-  type: z.string().default("main").describe('Connection type, always "main"'),
+  type: connectionTypeSchema.default("main"),
   index: z.number().default(0).describe("Target input index, usually 0"),
 });
 
 const connectionsSchema = z.record(
   z.string(),
-  z.object({
-    main: z.array(z.array(n8nConnectionSchema)),
-  })
+  z.partialRecord(
+    connectionTypeSchema,
+    z.array(z.array(n8nConnectionSchema))
+  )
 );
 
-import type { N8nConnection, N8nNode } from "@/lib/n8n/types";
+const nodeNameSchema = z.string().describe("Name of the node");
+
+const patchOperationSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("setParameter"),
+    node: nodeNameSchema,
+    path: z
+      .string()
+      .describe('Parameter path, e.g. "text", "options.timeout" or "assignments.assignments[0].value"'),
+    value: z.unknown().optional().describe("New value; omit to remove the parameter"),
+  }),
+  z.object({
+    op: z.literal("renameNode"),
+    node: nodeNameSchema,
+    newName: z.string().describe("New unique name; connections and expressions follow"),
+  }),
+  ...(["connect", "disconnect"] as const).map((op) =>
+    z.object({
+      op: z.literal(op),
+      from: z.string().describe("Source node name"),
+      to: z.string().describe("Target node name"),
+      type: connectionTypeSchema.optional(),
+      outputIndex: z
+        .number()
+        .optional()
+        .describe(
+          op === "connect"
+            ? "Source output, default 0 (e.g. 1 for an IF node's false branch)"
+            : "Source output; omit to match any"
+        ),
+      inputIndex: z
+        .number()
+        .optional()
+        .describe(op === "connect" ? "Target input, default 0" : "Target input; omit to match any"),
+    })
+  ),
+  z.object({
+    op: z.literal("moveNode"),
+    node: nodeNameSchema,
+    position: z.object({ x: z.number(), y: z.number() }),
+  }),
+  z.object({
+    op: z.literal("replaceNodeType"),
+    node: nodeNameSchema,
+    type: z.string().describe("New node type, e.g. n8n-nodes-base.httpRequest"),
+    typeVersion: z.number().describe("Latest typeVersion of the new type"),
+    parameters: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe("Parameters to set on top of the ones carried over"),
+  }),
+]);
 
 // Convert AI-friendly {x,y} positions to n8n [x,y] tuples
 function toN8nNodes(
@@ -49,6 +138,7 @@ function toN8nNodes(
     typeVersion: number;
     position: { x: number; y: number };
     parameters: Record<string, unknown>;
+    credentials?: Record<string, { id: string; name: string }>;
   }>
 ): N8nNode[] {
   return nodes.map((n) => ({
@@ -57,87 +147,236 @@ function toN8nNodes(
   }));
 }
 
-// Convert AI connection format to n8n connection format
+// Convert AI connection format to n8n connection format.
+// n8n expects each connection's `type` to match the key it is listed under.
 function toN8nConnections(
-  connections: Record<string, { main: Array<Array<{ node: string; type: string; index: number }>> }>
-): Record<string, { main: N8nConnection[][] }> {
-  const result: Record<string, { main: N8nConnection[][] }> = {};
+  connections: Record<
+    string,
+    Partial<
+      Record<
+        N8nConnectionType,
+        Array<Array<{ node: string; type: N8nConnectionType; index: number }>>
+      >
+    >
+  >
+): N8nConnections {
+  const result: N8nConnections = {};
   for (const [key, value] of Object.entries(connections)) {
-    result[key] = {
-      main: value.main.map((arr) =>
+    result[key] = {};
+    for (const [rawType, outputs] of Object.entries(value)) {
+      const type = rawType as N8nConnectionType;
+      if (!outputs) continue;
+      result[key][type] = outputs.map((arr) =>
         arr.map((c) => ({
           node: c.node,
-          type: "main" as const,
+          type,
           index: c.index,
         }))
-      ),
-    };
+      );
+    }
   }
   return result;
 }
 
+// Items per input/output quoted back to the model by getExecutionDetails
+const MAX_EXECUTION_ITEMS = 5;
+// Seconds getExecutionDetails waits for a running execution to finish
+const EXECUTION_WAIT_SECONDS = 15;
+
+function sampleItems(items: ExecutionItem[]) {
+  return {
+    count: items.length,
+    items: items.slice(0, MAX_EXECUTION_ITEMS).map((item) =>
+      item.binary ? { json: item.json, binary: item.binary } : item.json
+    ),
+  };
+}
+
 /**
- * Trim a workflow JSON for context-window-safe LLM consumption.
- * Strips position, IDs, and other non-essential fields; keeps the
- * node structure (name, type, typeVersion, parameters) and connections.
- * Caps total serialized size per template.
+ * Describe an execution for the model: its outcome, every node's runs and
+ * errors with a sample of output items, and — for `nodeName` — the node's
+ * configuration with the inputs and outputs of each of its runs.
  */
-function trimWorkflowJson(
-  workflowJson: {
-    nodes: unknown[];
-    connections: Record<string, unknown>;
-  } | null
-): unknown | null {
-  if (!workflowJson) return null;
-
-  const MAX_JSON_LENGTH = 3000;
-
-  try {
-    const trimmedNodes = (workflowJson.nodes as Array<Record<string, unknown>>).map((node) => {
-      const trimmed: Record<string, unknown> = {
-        name: node.name,
-        type: node.type,
-      };
-      if (node.typeVersion != null) trimmed.typeVersion = node.typeVersion;
-      if (node.parameters && Object.keys(node.parameters as object).length > 0) {
-        trimmed.parameters = node.parameters;
-      }
-      if (node.credentials) trimmed.credentials = node.credentials;
-      return trimmed;
-    });
-
-    const result = {
-      nodes: trimmedNodes,
-      connections: workflowJson.connections,
+function describeExecution(execution: N8nExecution, nodeName?: string) {
+  const runData = execution.data?.resultData?.runData ?? {};
+  const runsByNode = Object.fromEntries(
+    Object.entries(runData).map(([name, runs]) => [name, toRunOutputs(runs)])
+  );
+
+  const nodes = Object.entries(runsByNode).map(([name, runs]) => {
+    const latest = runs[runs.length - 1];
+    return {
+      name,
+      runs: runs.length,
+      status: runs.some((r) => r.error) ? "error" : "success",
+      error: latest?.error,
+      errorDescription: latest?.errorDescription,
+      itemsPerOutput: latest?.outputs.map((items) => items.length) ?? [],
+      sample: sampleItems(latest?.outputs[0] ?? []).items.slice(0, 2),
     };
-
-    const serialized = JSON.stringify(result);
-    if (serialized.length > MAX_JSON_LENGTH) {
-      // If too large, further strip parameters to just keys
-      const compactNodes = trimmedNodes.map((n) => {
-        if (n.parameters && typeof n.parameters === "object") {
-          return {
-            ...n,
-            parameters: Object.fromEntries(
-              Object.entries(n.parameters as Record<string, unknown>).map(
-                ([k, v]) => [k, typeof v === "string" && v.length > 100 ? v.slice(0, 100) + "…" : v]
-              )
-            ),
-          };
-        }
-        return n;
-      });
-      return { nodes: compactNodes, connections: workflowJson.connections };
+  });
+
+  let node: Record<string, unknown> | undefined;
+  if (nodeName) {
+    const config = execution.workflowData?.nodes.find((n) => n.name === nodeName);
+    const connections = execution.workflowData?.connections ?? {};
+    node = {
+      name: nodeName,
+      type: config?.type,
+      typeVersion: config?.typeVersion,
+      parameters: config?.parameters,
+      runs: (runsByNode[nodeName] ?? []).map((run) => ({
+        runIndex: run.runIndex,
+        error: run.error,
+        errorDescription: run.errorDescription,
+        inputs: reconstructInputs(nodeName, run, connections, runsByNode).map(sampleItems),
+        outputs: run.outputs.map(sampleItems),
+      })),
+    };
+    if (!config && !runsByNode[nodeName]) {
+      node.note = `No node named "${nodeName}" in this execution.`;
     }
-
-    return result;
-  } catch {
-    return null;
   }
+
+  return {
+    execution: {
+      ...summarizeExecution(execution),
+      errorDescription: execution.data?.resultData?.error?.description,
+    },
+    nodes,
+    ...(node ? { node } : {}),
+  };
 }
 
-export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
+export function createWorkflowTools(
+  n8nUrl: string,
+  n8nKey: string,
+  options?: {
+    approvalMode?: boolean;
+    // Cap on executeWorkflow calls per request, e.g. for fix loops
+    maxExecutions?: number;
+    // The pins on the canvas; n8n doesn't store them, so runs of that
+    // workflow only see them through here
+    canvasPins?: { workflowId: string; pinData: N8nPinData };
+  }
+) {
   const client = new N8nClient(n8nUrl, n8nKey);
+  let executionsStarted = 0;
+
+  // Validate a workflow about to be written. Errors the existing workflow
+  // already had are not blamed on (or allowed to block) this change.
+  async function checkWorkflow(
+    next: Pick<N8nWorkflow, "nodes" | "connections">,
+    existing?: Pick<N8nWorkflow, "nodes" | "connections">
+  ): Promise<ValidationResult> {
+    const nodeTypes = [...new Set(next.nodes.map((n) => n.type))];
+    const validateOptions: ValidateOptions = {};
+    try {
+      if (await hasNodeDocs()) {
+        validateOptions.nodeTypeVersions = await getLatestNodeVersions(nodeTypes);
+      }
+      const schemas = await getParameterSchemas(nodeTypes);
+      validateOptions.knownTypeVersions = new Map(
+        [...schemas].map(([nodeType, groups]) => [
+          nodeType,
+          groups.flatMap((g) => g.typeVersions),
+        ])
+      );
+      validateOptions.getParameterSchema = (nodeType, typeVersion) =>
+        pickSchemaForVersion(schemas.get(nodeType) ?? [], typeVersion)?.properties;
+    } catch {
+      // Docs database unavailable — skip the node type/version and parameter checks
+    }
+    const result = validateWorkflow(next, validateOptions);
+    if (!existing) return result;
+
+    const before = new Set(
+      validateWorkflow(existing, validateOptions).errors.map((e) => e.message)
+    );
+    const errors = result.errors.filter((e) => !before.has(e.message));
+    return { ...result, valid: errors.length === 0, errors };
+  }
+
+  // Give nodes that need credentials but have none one of the user's
+  // existing credentials of an accepted type
+  async function withCredentials(nodes: N8nNode[]) {
+    try {
+      const schemas = await getParameterSchemas([...new Set(nodes.map((n) => n.type))]);
+      const { data } = await client.listCredentials();
+      return assignCredentials(
+        nodes,
+        (node) => requiredCredentialTypes(node, schemas.get(node.type) ?? []),
+        data
+      );
+    } catch {
+      // Schemas or credentials unavailable — keep the credentials the model set
+      return { nodes, assigned: [], missing: [] };
+    }
+  }
+
+  function credentialReport({
+    assigned,
+    missing,
+  }: Pick<Awaited<ReturnType<typeof withCredentials>>, "assigned" | "missing">) {
+    if (assigned.length === 0 && missing.length === 0) return { report: {}, note: "" };
+    return {
+      report: { credentials: { assigned, missing } },
+      note:
+        missing.length > 0
+          ? ` Missing credentials the user must create in n8n: ${missing
+              .map((m) => `${m.type} (for "${m.node}")`)
+              .join(", ")}.`
+          : "",
+    };
+  }
+
+  function validationFailure(result: ValidationResult) {
+    return {
+      success: false as const,
+      error:
+        `Workflow failed validation with ${result.errors.length} error(s). ` +
+        "Fix every issue in validationErrors and call the tool again.",
+      validationErrors: result.errors,
+      warnings: result.warnings,
+    };
+  }
+
+  // Write a change to an existing workflow — or, in approval mode, return it
+  // as a proposal the user reviews on the canvas and applies from the chat.
+  async function commitWorkflowChange(
+    workflowId: string,
+    existing: N8nWorkflow,
+    changes: Partial<N8nWorkflow>,
+    message: string
+  ) {
+    const matched = changes.nodes ? await withCredentials(changes.nodes) : null;
+    if (matched) changes = { ...changes, nodes: matched.nodes };
+    const { report, note } = credentialReport(matched ?? { assigned: [], missing: [] });
+    message += note;
+
+    const next = { ...existing, ...changes, id: workflowId };
+    const validation = await checkWorkflow(next, existing);
+    if (!validation.valid) return validationFailure(validation);
+    const warnings =
+      validation.warnings.length > 0 ? { warnings: validation.warnings } : {};
+
+    if (options?.approvalMode) {
+      return {
+        success: true as const,
+        pendingApproval: true as const,
+        proposedWorkflow: next,
+        baseUpdatedAt: existing.updatedAt,
+        ...warnings,
+        ...report,
+        message:
+          `${message} This change is only a proposal and has NOT been applied yet — ` +
+          "the user will review it and apply or reject it. Do not propose further " +
+          "changes to this workflow until they respond.",
+      };
+    }
+    const workflow = await client.updateWorkflow(workflowId, changes);
+    return { success: true as const, workflow, ...warnings, ...report, message };
+  }
 
   return {
     // ── RAG Tools ──────────────────────────────────────────────────────────
@@ -296,13 +535,22 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
         name: z.string().describe("Workflow name"),
         nodes: z.array(n8nNodeSchema).describe("Array of workflow nodes"),
         connections: connectionsSchema.describe(
-          "Connection map: sourceNodeName -> { main: [[{node, type, index}]] }"
+          "Connection map: sourceNodeName -> { main: [[{node, type, index}]] }. " +
+            "AI sub-nodes connect from the sub-node to its root, keyed by type, e.g. " +
+            '"OpenAI Chat Model" -> { ai_languageModel: [[{node: "AI Agent", type: "ai_languageModel", index: 0}]] }'
         ),
       }),
       execute: async ({ name, nodes, connections }) => {
         try {
-          const n8nNodes = toN8nNodes(nodes);
+          const matched = await withCredentials(toN8nNodes(nodes));
+          const { report, note } = credentialReport(matched);
+          const n8nNodes = matched.nodes;
           const n8nConns = toN8nConnections(connections);
+          const validation = await checkWorkflow({
+            nodes: n8nNodes,
+            connections: n8nConns,
+          });
+          if (!validation.valid) return validationFailure(validation);
           console.log("[createWorkflow] Sending to n8n:", JSON.stringify({ name, nodes: n8nNodes, connections: n8nConns }, null, 2).slice(0, 2000));
           const workflow = await client.createWorkflow({
             name,
@@ -313,7 +561,11 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
           return {
             success: true as const,
             workflow,
-            message: `Created workflow "${name}" with ${nodes.length} nodes.`,
+            ...(validation.warnings.length > 0
+              ? { warnings: validation.warnings }
+              : {}),
+            ...report,
+            message: `Created workflow "${name}" with ${nodes.length} nodes.${note}`,
           };
         } catch (err) {
           console.error("[createWorkflow] Error:", err);
@@ -327,7 +579,8 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
 
     updateWorkflow: tool({
       description:
-        "Update an existing workflow with new nodes and connections. Use when modifying a workflow.",
+        "Replace an existing workflow's nodes and connections with complete new arrays. " +
+        "Use for restructuring most of a workflow; for targeted edits use patchWorkflow.",
       inputSchema: z.object({
         workflowId: z.string().describe("ID of the workflow to update"),
         name: z.string().optional().describe("New workflow name"),
@@ -336,20 +589,77 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
       }),
       execute: async ({ workflowId, name, nodes, connections }) => {
         try {
-          const workflow = await client.updateWorkflow(workflowId, {
-            ...(name ? { name } : {}),
-            nodes: toN8nNodes(nodes),
-            connections: toN8nConnections(connections),
-          });
+          const existing = await client.getWorkflow(workflowId);
+          return await commitWorkflowChange(
+            workflowId,
+            existing,
+            {
+              ...(name ? { name } : {}),
+              nodes: toN8nNodes(nodes),
+              connections: toN8nConnections(connections),
+            },
+            `Updated workflow with ${nodes.length} nodes.`
+          );
+        } catch (err) {
           return {
-            success: true as const,
-            workflow,
-            message: `Updated workflow with ${nodes.length} nodes.`,
+            success: false as const,
+            error: err instanceof Error ? err.message : "Failed to update workflow",
           };
+        }
+      },
+    }),
+
+    patchWorkflow: tool({
+      description:
+        "Edit an existing workflow with a list of small operations instead of resending it: " +
+        "set a parameter, rename a node (its connections, and the expressions and Code node " +
+        "code referencing it, are updated), connect or disconnect nodes, move a node, or replace a node's type " +
+        "(parameters the new type also has are kept). Prefer this to updateWorkflow for " +
+        "changes to existing nodes. Operations apply in order, and all or nothing.",
+      inputSchema: z.object({
+        workflowId: z.string(),
+        operations: z.array(patchOperationSchema).min(1),
+      }),
+      execute: async ({ workflowId, operations }) => {
+        try {
+          const existing = await client.getWorkflow(workflowId);
+          const newTypes = operations.flatMap((o) =>
+            o.op === "replaceNodeType" ? [o.type] : []
+          );
+          let schemas: Awaited<ReturnType<typeof getParameterSchemas>> = new Map();
+          if (newTypes.length > 0) {
+            try {
+              schemas = await getParameterSchemas(newTypes);
+            } catch {
+              // Docs database unavailable — replaced nodes keep all their parameters
+            }
+          }
+          const { workflow, summary, renames } = applyWorkflowPatch(
+            existing,
+            operations,
+            (type, typeVersion) => pickSchemaForVersion(schemas.get(type) ?? [], typeVersion)
+          );
+          const result = await commitWorkflowChange(
+            workflowId,
+            existing,
+            {
+              nodes: workflow.nodes,
+              connections: workflow.connections,
+            },
+            `${summary.join(". ")}.`
+          );
+          return renames.length > 0 && result.success ? { ...result, renames } : result;
         } catch (err) {
+          if (err instanceof WorkflowPatchError) {
+            return {
+              success: false as const,
+              error: err.message,
+              message: "No operation was applied. Fix this one and send the whole list again.",
+            };
+          }
           return {
             success: false as const,
-            error: err instanceof Error ? err.message : "Failed to update workflow",
+            error: err instanceof Error ? err.message : "Failed to patch workflow",
           };
         }
       },
@@ -365,8 +675,17 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
           .string()
           .optional()
           .describe("Name of the node to connect this new node after"),
+        subNodeOf: z
+          .object({
+            rootNodeName: z.string().describe("Name of the root node, e.g. the AI Agent"),
+            connectionType: connectionTypeSchema,
+          })
+          .optional()
+          .describe(
+            "Attach this node as an AI sub-node of a root node (e.g. a chat model, memory or tool into an AI Agent)"
+          ),
       }),
-      execute: async ({ workflowId, node, connectAfterNodeName }) => {
+      execute: async ({ workflowId, node, connectAfterNodeName, subNodeOf }) => {
         try {
           const existing = await client.getWorkflow(workflowId);
           const n8nNode = toN8nNodes([node])[0];
@@ -374,28 +693,29 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
           const updatedConnections = { ...existing.connections };
 
           if (connectAfterNodeName) {
-            if (!updatedConnections[connectAfterNodeName]) {
-              updatedConnections[connectAfterNodeName] = { main: [[]] };
-            }
-            if (!updatedConnections[connectAfterNodeName].main[0]) {
-              updatedConnections[connectAfterNodeName].main[0] = [];
-            }
-            updatedConnections[connectAfterNodeName].main[0].push({
-              node: node.name,
-              type: "main",
-              index: 0,
-            });
+            const source = { ...updatedConnections[connectAfterNodeName] };
+            const main = [...(source.main ?? [[]])];
+            main[0] = [
+              ...(main[0] ?? []),
+              { node: node.name, type: "main", index: 0 },
+            ];
+            updatedConnections[connectAfterNodeName] = { ...source, main };
           }
 
-          const workflow = await client.updateWorkflow(workflowId, {
-            nodes: updatedNodes,
-            connections: updatedConnections,
-          });
-          return {
-            success: true as const,
-            workflow,
-            message: `Added "${node.name}" node.`,
-          };
+          if (subNodeOf) {
+            const type = subNodeOf.connectionType;
+            updatedConnections[node.name] = {
+              ...updatedConnections[node.name],
+              [type]: [[{ node: subNodeOf.rootNodeName, type, index: 0 }]],
+            };
+          }
+
+          return await commitWorkflowChange(
+            workflowId,
+            existing,
+            { nodes: updatedNodes, connections: updatedConnections },
+            `Added "${node.name}" node.`
+          );
         } catch (err) {
           return {
             success: false as const,
@@ -420,22 +740,22 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
           delete updatedConnections[nodeName];
 
           for (const [source, conn] of Object.entries(updatedConnections)) {
-            updatedConnections[source] = {
-              main: conn.main.map((outputConns) =>
-                outputConns.filter((c) => c.node !== nodeName)
-              ),
-            };
+            updatedConnections[source] = Object.fromEntries(
+              Object.entries(conn).map(([type, outputs]) => [
+                type,
+                (outputs ?? []).map((outputConns) =>
+                  outputConns.filter((c) => c.node !== nodeName)
+                ),
+              ])
+            );
           }
 
-          const workflow = await client.updateWorkflow(workflowId, {
-            nodes: updatedNodes,
-            connections: updatedConnections,
-          });
-          return {
-            success: true as const,
-            workflow,
-            message: `Removed "${nodeName}" node.`,
-          };
+          return await commitWorkflowChange(
+            workflowId,
+            existing,
+            { nodes: updatedNodes, connections: updatedConnections },
+            `Removed "${nodeName}" node.`
+          );
         } catch (err) {
           return {
             success: false as const,
@@ -472,6 +792,62 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
       },
     }),
 
+    getAvailableCredentials: tool({
+      description:
+        "List the credentials stored on the user's n8n instance (names and types, never secrets). " +
+        "Pass the node types you plan to use to get only the credentials they accept, and which " +
+        "credential types each node type takes. Set a node's `credentials` to { <type>: { id, name } } " +
+        "with one of these.",
+      inputSchema: z.object({
+        nodeTypes: z
+          .array(z.string())
+          .optional()
+          .describe("Node types to find credentials for, e.g. ['n8n-nodes-base.slack']"),
+      }),
+      execute: async ({ nodeTypes }) => {
+        try {
+          const { data, source } = await client.listCredentials();
+          let acceptedTypes: Record<string, string[]> | undefined;
+          if (nodeTypes?.length) {
+            try {
+              const schemas = await getParameterSchemas(nodeTypes);
+              acceptedTypes = Object.fromEntries(
+                nodeTypes.map((type) => [
+                  type,
+                  [
+                    ...new Set(
+                      (schemas.get(type) ?? []).flatMap((s) => s.credentials.map((c) => c.name))
+                    ),
+                  ],
+                ])
+              );
+            } catch {
+              // Docs database unavailable — return every credential
+            }
+          }
+          const accepted = acceptedTypes && new Set(Object.values(acceptedTypes).flat());
+          const credentials = data
+            .filter((c) => !accepted || accepted.has(c.type))
+            .map((c) => ({ id: c.id, name: c.name, type: c.type }));
+          return {
+            success: true as const,
+            credentials,
+            ...(acceptedTypes ? { acceptedTypes } : {}),
+            ...(source === "workflows"
+              ? {
+                  note: "This n8n instance's API can't list credentials; these are the ones its existing workflows use.",
+                }
+              : {}),
+          };
+        } catch (err) {
+          return {
+            success: false as const,
+            error: err instanceof Error ? err.message : "Failed to list credentials",
+          };
+        }
+      },
+    }),
+
     activateWorkflow: tool({
       description: "Activate or deactivate a workflow.",
       inputSchema: z.object({
@@ -496,45 +872,49 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
 
     executeWorkflow: tool({
       description:
-        "Execute/run a workflow. For webhook workflows, this sends a test request to the webhook URL.",
+        "Run a workflow once without activating or modifying it. Webhook, chat and form triggers are called on their test URL " +
+        "when n8n is listening there; otherwise, and for manual, schedule and other triggers, the run goes through a " +
+        "copy of the workflow with a webhook in place of the trigger. When it is the workflow open on the canvas, nodes pinned " +
+        "there output their pinned items instead of running (strategy \"mock\"). Returns the strategy used and the execution id.",
       inputSchema: z.object({
         workflowId: z.string(),
-        testData: z.record(z.string(), z.unknown()).optional().describe("Test data to send to the webhook"),
+        testData: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe("Body to send to a webhook trigger, or field values for a form trigger"),
+        chatInput: z.string().optional().describe("Message to send to a chat trigger"),
       }),
-      execute: async ({ workflowId, testData }) => {
+      execute: async ({ workflowId, testData, chatInput }) => {
+        if (
+          options?.maxExecutions !== undefined &&
+          executionsStarted >= options.maxExecutions
+        ) {
+          return {
+            success: false as const,
+            error:
+              `Run limit reached: at most ${options.maxExecutions} executions per request. ` +
+              "Stop here and summarize what you tried and what the user should check.",
+          };
+        }
+        executionsStarted++;
         try {
-          const workflow = await client.activateWorkflow(workflowId, true);
-
-          const webhookNode = workflow.nodes.find(
-            (n) => n.type === "n8n-nodes-base.webhook"
-          );
-
-          if (webhookNode) {
-            const path =
-              (webhookNode.parameters.path as string) || webhookNode.id;
-            const n8nBaseUrl = n8nUrl.replace(/\/api\/v1$/, "");
-            const webhookUrl = `${n8nBaseUrl}/webhook/${path}`;
-
-            const triggerRes = await fetch(webhookUrl, {
-              method: (webhookNode.parameters.httpMethod as string) || "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify(testData ?? { test: true }),
-            });
-
-            return {
-              success: true as const,
-              workflowId,
-              message: `Workflow executed via webhook. Status: ${triggerRes.status}`,
-              triggered: true,
-            };
-          }
-
+          const result = await runWithStrategy(client, n8nUrl, workflowId, {
+            testData,
+            chatInput,
+            pinData:
+              options?.canvasPins?.workflowId === workflowId
+                ? options.canvasPins.pinData
+                : undefined,
+          });
           return {
             success: true as const,
             workflowId,
+            ...result,
             message:
-              "Workflow activated. For non-webhook workflows, trigger it from the n8n UI or wait for the schedule.",
-            triggered: false,
+              `Workflow triggered via ${result.strategy} ("${result.triggerNode}"), HTTP ${result.triggerStatus}. ` +
+              (result.executionId
+                ? `Execution ${result.executionId} started.`
+                : "No execution was recorded yet."),
           };
         } catch (err) {
           return {
@@ -544,5 +924,41 @@ export function createWorkflowTools(n8nUrl: string, n8nKey: string) {
         }
       },
     }),
+
+    getExecutionDetails: tool({
+      description:
+        "Inspect an execution: its status and error, and for every node its runs, errors, item counts per output and " +
+        "sample output items. Pass nodeName to also get that node's parameters and the input and output items of each " +
+        "of its runs. Waits briefly for a running execution to finish. Use it to debug failed runs and to check a re-run.",
+      inputSchema: z.object({
+        executionId: z.string(),
+        nodeName: z
+          .string()
+          .optional()
+          .describe("Node to look at in detail, usually the one that failed"),
+      }),
+      execute: async ({ executionId, nodeName }) => {
+        try {
+          let execution = await client.getExecution(executionId);
+          for (
+            let waited = 0;
+            waited < EXECUTION_WAIT_SECONDS && !execution.finished && !execution.stoppedAt;
+            waited++
+          ) {
+            await new Promise((r) => setTimeout(r, 1000));
+            execution = await client.getExecution(executionId);
+          }
+          return {
+            success: true as const,
+            ...describeExecution(execution, nodeName),
+          };
+        } catch (err) {
+          return {
+            success: false as const,
+            error: err instanceof Error ? err.message : "Failed to get execution",
+          };
+        }
+      },
+    }),
   };
 }
@@ -0,0 +1,138 @@
+import type { N8nPinData, NodeExecutionStatus } from "@/lib/n8n/types";
+
+/**
+ * The canvas as the chat sends it with every request, so the model works
+ * from what the user sees now rather than from earlier tool results.
+ */
+export interface WorkflowContext {
+  workflowId?: string; // unset until the workflow is saved to n8n
+  name: string;
+  active?: boolean;
+  // Edited on the canvas since it was last loaded from or saved to n8n
+  unsavedChanges: boolean;
+  workflow: unknown; // trimWorkflowJson of the canvas
+  // Pinned items by node name, for runs the model starts; not in the prompt
+  pinData?: N8nPinData;
+  selectedNode?: {
+    name: string;
+    type: string;
+    typeVersion: number;
+    parameters: Record<string, unknown>;
+  };
+  execution?: {
+    id: string;
+    dryRun: boolean;
+    status: "running" | "success" | "error";
+    nodes: Array<{
+      name: string;
+      status: NodeExecutionStatus;
+      itemCount?: number;
+      error?: string;
+    }>;
+  };
+}
+
+// The canvas gets more room than a template, but stays bounded
+export const CANVAS_JSON_LENGTH = 12000;
+
+/**
+ * Trim a workflow JSON for context-window-safe LLM consumption.
+ * Strips position, IDs, and other non-essential fields; keeps the
+ * node structure (name, type, typeVersion, parameters) and connections.
+ * Caps total serialized size (by default, what one template gets).
+ */
+export function trimWorkflowJson(
+  workflowJson: {
+    nodes: unknown[];
+    connections: Record<string, unknown>;
+  } | null,
+  maxLength = 3000
+): unknown | null {
+  if (!workflowJson) return null;
+
+  try {
+    const trimmedNodes = (workflowJson.nodes as Array<Record<string, unknown>>).map((node) => {
+      const trimmed: Record<string, unknown> = {
+        name: node.name,
+        type: node.type,
+      };
+      if (node.typeVersion != null) trimmed.typeVersion = node.typeVersion;
+      if (node.parameters && Object.keys(node.parameters as object).length > 0) {
+        trimmed.parameters = node.parameters;
+      }
+      if (node.credentials) trimmed.credentials = node.credentials;
+      return trimmed;
+    });
+
+    const result = {
+      nodes: trimmedNodes,
+      connections: workflowJson.connections,
+    };
+
+    const serialized = JSON.stringify(result);
+    if (serialized.length > maxLength) {
+      // If too large, further strip parameters to just keys
+      const compactNodes = trimmedNodes.map((n) => {
+        if (n.parameters && typeof n.parameters === "object") {
+          return {
+            ...n,
+            parameters: Object.fromEntries(
+              Object.entries(n.parameters as Record<string, unknown>).map(
+                ([k, v]) => [k, typeof v === "string" && v.length > 100 ? v.slice(0, 100) + "…" : v]
+              )
+            ),
+          };
+        }
+        return n;
+      });
+      return { nodes: compactNodes, connections: workflowJson.connections };
+    }
+
+    return result;
+  } catch {
+    return null;
+  }
+}
+
+function codeBlock(value: unknown, indent?: number): string {
+  return "```json\n" + JSON.stringify(value, null, indent) + "\n```";
+}
+
+/** System prompt section describing the canvas, selection and latest run. */
+export function formatWorkflowContext(context: WorkflowContext): string {
+  let intro = context.workflowId
+    ? `The user has the workflow "${context.name}" (ID "${context.workflowId}"${context.active ? ", active" : ""}) open on the canvas. ` +
+      `When they refer to "this workflow" or "the current workflow", use this ID with the workflow tools.`
+    : `The user has the workflow "${context.name}" open on the canvas. It hasn't been saved to n8n yet, so it has no ID.`;
+  if (context.unsavedChanges) {
+    intro +=
+      " The canvas has edits that aren't saved to n8n yet, so the workflow tools may return an older version than the user sees; ask before overwriting those edits.";
+  }
+  const sections = [
+    `## Current Canvas\n${intro}`,
+    `The canvas as of this message (newer than any workflow JSON earlier in the conversation):\n${codeBlock(context.workflow)}`,
+  ];
+
+  if (context.selectedNode) {
+    const { name, ...config } = context.selectedNode;
+    sections.push(
+      `### Selected Node\nThe user has selected "${name}"; "this node" or "the selected node" means it. Its full configuration:\n${codeBlock(config, 2)}`
+    );
+  }
+
+  const execution = context.execution;
+  if (execution) {
+    const heading = execution.dryRun
+      ? `A dry run simulated in the browser (not an n8n execution) is ${execution.status === "running" ? "running" : `done: ${execution.status}`}.`
+      : `Execution "${execution.id}" is ${execution.status === "running" ? "running" : `done: ${execution.status}`}; use getExecutionDetails for its data.`;
+    const lines = execution.nodes.map(
+      (n) =>
+        `- ${n.name}: ${n.status}` +
+        (n.itemCount !== undefined ? `, ${n.itemCount} item${n.itemCount !== 1 ? "s" : ""}` : "") +
+        (n.error ? ` — ${n.error}` : "")
+    );
+    sections.push(`### Latest Execution\n${heading}${lines.length ? `\n${lines.join("\n")}` : ""}`);
+  }
+
+  return `\n\n${sections.join("\n\n")}`;
+}
@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+import { db } from "@/lib/db";
+import { chatConversations } from "@/lib/db/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import type { Conversation, ConversationInput, ConversationSummary } from "./types";
+
+const LIST_LIMIT = 100;
+
+/** Conversations are kept in Postgres only when a database is configured. */
+export function isConversationStorageConfigured(): boolean {
+  return !!process.env.DATABASE_URL;
+}
+
+/**
+ * Who a conversation belongs to: a hash of the n8n URL and API key it was
+ * held with. Conversations carry whole workflows, so only callers holding
+ * the same instance's key can list or open them, and workflow ids from
+ * different instances never mix. A new API key starts a new history.
+ */
+export function conversationOwner(n8nUrl: string, n8nKey: string): string {
+  return createHash("sha256")
+    .update(`${n8nUrl.trim().replace(/\/+$/, "")}\n${n8nKey}`)
+    .digest("hex");
+}
+
+function ownedBy(owner: string, id: string) {
+  return and(eq(chatConversations.ownerId, owner), eq(chatConversations.id, id));
+}
+
+function toIso(date: Date | null): string {
+  return (date ?? new Date()).toISOString();
+}
+
+/** Most recently updated first, optionally only those about one workflow. */
+export async function listConversations(
+  owner: string,
+  workflowId?: string
+): Promise<ConversationSummary[]> {
+  const rows = await db
+    .select({
+      id: chatConversations.id,
+      workflowId: chatConversations.workflowId,
+      title: chatConversations.title,
+      messageCount: sql<number>`jsonb_array_length(${chatConversations.messages})`,
+      createdAt: chatConversations.createdAt,
+      updatedAt: chatConversations.updatedAt,
+    })
+    .from(chatConversations)
+    .where(
+      and(
+        eq(chatConversations.ownerId, owner),
+        workflowId ? eq(chatConversations.workflowId, workflowId) : undefined
+      )
+    )
+    .orderBy(desc(chatConversations.updatedAt))
+    .limit(LIST_LIMIT);
+
+  return rows.map((r) => ({
+    ...r,
+    messageCount: Number(r.messageCount),
+    createdAt: toIso(r.createdAt),
+    updatedAt: toIso(r.updatedAt),
+  }));
+}
+
+export async function getConversation(owner: string, id: string): Promise<Conversation | null> {
+  const [row] = await db
+    .select()
+    .from(chatConversations)
+    .where(ownedBy(owner, id))
+    .limit(1);
+  if (!row) return null;
+  return {
+    id: row.id,
+    workflowId: row.workflowId,
+    title: row.title,
+    messages: row.messages,
+    createdAt: toIso(row.createdAt),
+    updatedAt: toIso(row.updatedAt),
+  };
+}
+
+/**
+ * Insert or replace a conversation's messages, title and workflow. False if
+ * the id is taken by another owner's conversation.
+ */
+export async function saveConversation(
+  owner: string,
+  conversation: ConversationInput
+): Promise<boolean> {
+  const values = {
+    workflowId: conversation.workflowId,
+    title: conversation.title,
+    messages: conversation.messages,
+    updatedAt: new Date(),
+  };
+  const rows = await db
+    .insert(chatConversations)
+    .values({ id: conversation.id, ownerId: owner, ...values })
+    .onConflictDoUpdate({
+      target: chatConversations.id,
+      set: values,
+      setWhere: eq(chatConversations.ownerId, owner),
+    })
+    .returning({ id: chatConversations.id });
+  return rows.length > 0;
+}
+
+/** Rename a conversation or move it to another workflow. False if it doesn't exist. */
+export async function updateConversation(
+  owner: string,
+  id: string,
+  changes: Partial<Pick<Conversation, "title" | "workflowId">>
+): Promise<boolean> {
+  const rows = await db
+    .update(chatConversations)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(ownedBy(owner, id))
+    .returning({ id: chatConversations.id });
+  return rows.length > 0;
+}
+
+export async function deleteConversation(owner: string, id: string): Promise<void> {
+  await db.delete(chatConversations).where(ownedBy(owner, id));
+}
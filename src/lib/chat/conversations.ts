@@ -0,0 +1,206 @@
+import type { UIMessage } from "ai";
+import type { AppSettings } from "@/contexts/settings-context";
+import type { Conversation, ConversationInput, ConversationSummary } from "./types";
+
+/**
+ * Client access to saved chat conversations. They live in Postgres through
+ * /api/conversations, kept apart per n8n connection; when the server has no
+ * database (503) they are kept in localStorage instead, for the rest of the
+ * session.
+ */
+
+const STORAGE_KEY = "n8n-ai-conversations";
+const LOCAL_LIMIT = 50; // oldest are dropped first; messages carry whole workflows
+const TITLE_LENGTH = 60;
+
+type Result<T> = ({ success: true } & T) | { success: false; error: string };
+
+let useLocalStorage = false;
+
+/** The server's response, or null when conversations are kept locally. */
+async function serverRequest(
+  settings: AppSettings,
+  path: string,
+  init?: RequestInit
+): Promise<Response | null> {
+  if (useLocalStorage) return null;
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      ...init?.headers,
+      "x-n8n-key": settings.n8nApiKey,
+      "x-n8n-url": settings.n8nBaseUrl,
+    },
+  });
+  if (res.status === 503) {
+    useLocalStorage = true;
+    return null;
+  }
+  return res;
+}
+
+async function readError(res: Response): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return data.error || `HTTP ${res.status}`;
+}
+
+function failure(err: unknown, fallback: string): { success: false; error: string } {
+  return { success: false, error: err instanceof Error ? err.message : fallback };
+}
+
+// ── localStorage fallback ──
+
+function readLocal(): Conversation[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Conversation[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal(conversations: Conversation[]) {
+  const kept = [...conversations]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, LOCAL_LIMIT);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch {
+    throw new Error("Browser storage is full. Delete some conversations.");
+  }
+}
+
+function summarize({ messages, ...conversation }: Conversation): ConversationSummary {
+  return { ...conversation, messageCount: messages.length };
+}
+
+// ── API ──
+
+/** Saved conversations, most recent first, optionally only one workflow's. */
+export async function listConversations(
+  settings: AppSettings,
+  workflowId?: string
+): Promise<Result<{ conversations: ConversationSummary[] }>> {
+  try {
+    const query = workflowId ? `?workflowId=${encodeURIComponent(workflowId)}` : "";
+    const res = await serverRequest(settings, `/api/conversations${query}`);
+    if (res) {
+      if (!res.ok) return { success: false, error: await readError(res) };
+      return { success: true, conversations: (await res.json()).data };
+    }
+    const conversations = readLocal()
+      .filter((c) => !workflowId || c.workflowId === workflowId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(summarize);
+    return { success: true, conversations };
+  } catch (err) {
+    return failure(err, "Failed to list conversations");
+  }
+}
+
+export async function loadConversation(
+  settings: AppSettings,
+  id: string
+): Promise<Result<{ conversation: Conversation }>> {
+  try {
+    const res = await serverRequest(settings, `/api/conversations/${encodeURIComponent(id)}`);
+    if (res) {
+      if (!res.ok) return { success: false, error: await readError(res) };
+      return { success: true, conversation: await res.json() };
+    }
+    const conversation = readLocal().find((c) => c.id === id);
+    if (!conversation) return { success: false, error: "Conversation not found" };
+    return { success: true, conversation };
+  } catch (err) {
+    return failure(err, "Failed to load conversation");
+  }
+}
+
+/** Save the whole conversation, creating it on first save. */
+export async function saveConversation(
+  settings: AppSettings,
+  conversation: ConversationInput
+): Promise<Result<object>> {
+  try {
+    const { id, ...body } = conversation;
+    const res = await serverRequest(settings, `/api/conversations/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (res) {
+      if (!res.ok) return { success: false, error: await readError(res) };
+      return { success: true };
+    }
+    const now = new Date().toISOString();
+    const stored = readLocal();
+    const existing = stored.find((c) => c.id === id);
+    writeLocal([
+      ...stored.filter((c) => c.id !== id),
+      { ...conversation, createdAt: existing?.createdAt ?? now, updatedAt: now },
+    ]);
+    return { success: true };
+  } catch (err) {
+    return failure(err, "Failed to save conversation");
+  }
+}
+
+/** Rename a saved conversation or tie it to a workflow. */
+export async function updateConversation(
+  settings: AppSettings,
+  id: string,
+  changes: Partial<Pick<Conversation, "title" | "workflowId">>
+): Promise<Result<object>> {
+  try {
+    const res = await serverRequest(settings, `/api/conversations/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    if (res) {
+      if (!res.ok) return { success: false, error: await readError(res) };
+      return { success: true };
+    }
+    const stored = readLocal();
+    if (!stored.some((c) => c.id === id)) {
+      return { success: false, error: "Conversation not found" };
+    }
+    const now = new Date().toISOString();
+    writeLocal(stored.map((c) => (c.id === id ? { ...c, ...changes, updatedAt: now } : c)));
+    return { success: true };
+  } catch (err) {
+    return failure(err, "Failed to update conversation");
+  }
+}
+
+export async function deleteConversation(
+  settings: AppSettings,
+  id: string
+): Promise<Result<object>> {
+  try {
+    const res = await serverRequest(settings, `/api/conversations/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+    if (res) {
+      if (!res.ok) return { success: false, error: await readError(res) };
+      return { success: true };
+    }
+    writeLocal(readLocal().filter((c) => c.id !== id));
+    return { success: true };
+  } catch (err) {
+    return failure(err, "Failed to delete conversation");
+  }
+}
+
+/** A title from the first thing the user asked, until they rename it. */
+export function conversationTitle(messages: UIMessage[]): string {
+  const first = messages.find((m) => m.role === "user");
+  const text = (first?.parts ?? [])
+    .flatMap((p) => (p.type === "text" ? [p.text] : []))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= TITLE_LENGTH) return text;
+  return `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…`;
+}
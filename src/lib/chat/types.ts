@@ -0,0 +1,17 @@
+import type { UIMessage } from "ai";
+
+export interface ConversationSummary {
+  id: string;
+  workflowId: string | null; // n8n workflow id; null until the chat has one
+  title: string; // "" until the first message, or renamed by the user
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Conversation extends Omit<ConversationSummary, "messageCount"> {
+  messages: UIMessage[];
+}
+
+/** What the client sends to save a conversation; timestamps are set on save. */
+export type ConversationInput = Pick<Conversation, "id" | "workflowId" | "title" | "messages">;
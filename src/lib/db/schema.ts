@@ -1,4 +1,6 @@
+import { sql } from "drizzle-orm";
 import {
+  customType,
   pgTable,
   text,
   serial,
@@ -7,8 +9,41 @@ import {
   timestamp,
   jsonb,
   index,
-  vector,
+  uniqueIndex,
+  type PgColumn,
 } from "drizzle-orm/pg-core";
+import type { UIMessage } from "ai";
+import type { NodeCredentialRequirement, NodePropertySchema } from "../n8n/types";
+import type { SyncProgress } from "../rag/types";
+import { configuredEmbeddingDimensions } from "../rag/embedding";
+
+const tsvector = customType<{ data: string }>({ dataType: () => "tsvector" });
+
+// pgvector without a fixed length, so any embedding provider's vectors fit.
+// Each row records the model that produced its vector (see rag/embedding.ts)
+const embeddingVector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => "vector",
+  toDriver: (value) => `[${value.join(",")}]`,
+  fromDriver: (value) => JSON.parse(value),
+});
+
+// An unsized column can't be indexed, so the configured model's vectors get
+// a partial HNSW index on the column cast to their length (pgvector indexes
+// at most 2000 dimensions). Searches cast the same way, see rag/embedding.ts
+const INDEXED_DIMENSIONS = configuredEmbeddingDimensions();
+
+function embeddingIndex(
+  name: string,
+  table: { embedding: PgColumn; embeddingDimensions: PgColumn }
+) {
+  if (!INDEXED_DIMENSIONS || INDEXED_DIMENSIONS > 2000) return [];
+  const dimensions = sql.raw(String(INDEXED_DIMENSIONS));
+  return [
+    index(name)
+      .using("hnsw", sql`(${table.embedding}::vector(${dimensions})) vector_cosine_ops`)
+      .where(sql`${table.embeddingDimensions} = ${dimensions}`),
+  ];
+}
 
 export const nodeDocs = pgTable(
   "node_docs",
@@ -25,28 +60,103 @@ export const nodeDocs = pgTable(
       credentialTypes?: string[];
       operations?: string[];
     }>(),
-    embedding: vector("embedding", { dimensions: 1536 }),
+    embedding: embeddingVector("embedding"),
+    // Defaults describe rows embedded before the model was recorded
+    embeddingModel: text("embedding_model").notNull().default("openai/text-embedding-3-small"),
+    embeddingDimensions: integer("embedding_dimensions").notNull().default(1536),
+    // sha256 of the stored fields; unchanged chunks aren't re-embedded. Null
+    // on rows synced before hashing, which are re-embedded once
+    contentHash: text("content_hash"),
+    // Keyword search: name and type outweigh the text. The type is indexed
+    // whole and camelCase-split, so "httpRequest" and "http request" both match
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', display_name), 'A')
+        || setweight(to_tsvector('simple',
+             regexp_replace(node_type, '[^A-Za-z0-9]+', ' ', 'g') || ' ' ||
+             regexp_replace(regexp_replace(node_type, '^.*\\.', ''), '([a-z0-9])([A-Z])', '\\1 \\2', 'g')
+           ), 'A')
+        || setweight(to_tsvector('english', content), 'B')`
+    ),
     updatedAt: timestamp("updated_at").defaultNow(),
   },
   (table) => [
-    index("node_docs_embedding_idx").using(
-      "ivfflat",
-      table.embedding.op("vector_cosine_ops")
-    ),
+    ...embeddingIndex("node_docs_embedding_idx", table),
+    index("node_docs_embedding_model_idx").on(table.embeddingModel),
     index("node_docs_node_type_idx").on(table.nodeType),
+    index("node_docs_search_idx").using("gin", table.searchVector),
+  ]
+);
+
+// Structured parameter schema per node type, one row per group of versions
+// that share a description (from n8n's published dist/types/nodes.json)
+export const nodeParameterSchemas = pgTable(
+  "node_parameter_schemas",
+  {
+    id: serial("id").primaryKey(),
+    nodeType: text("node_type").notNull(), // e.g. "n8n-nodes-base.slack"
+    typeVersions: jsonb("type_versions").$type<number[]>().notNull(), // e.g. [2, 2.1, 2.2]
+    maxVersion: real("max_version").notNull(), // highest of typeVersions
+    properties: jsonb("properties").$type<NodePropertySchema[]>().notNull(),
+    // Credential types the node accepts; null on rows synced before this was recorded
+    credentials: jsonb("credentials").$type<NodeCredentialRequirement[]>(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("node_param_schemas_type_version_idx").on(
+      table.nodeType,
+      table.maxVersion
+    ),
+  ]
+);
+
+// Chat conversations, resumable from the chat panel
+export const chatConversations = pgTable(
+  "chat_conversations",
+  {
+    id: text("id").primaryKey(), // generated by the client
+    // Hash of the n8n connection that created it (see chat/conversation-store.ts);
+    // rows from before owners were recorded belong to no one
+    ownerId: text("owner_id").notNull().default(""),
+    workflowId: text("workflow_id"), // n8n workflow the conversation is about, once known
+    title: text("title").notNull(),
+    messages: jsonb("messages").$type<UIMessage[]>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("chat_conversations_owner_workflow_idx").on(table.ownerId, table.workflowId),
   ]
 );
 
-// Track sync metadata
+// Track sync metadata. A "github-docs" row follows a whole sync run through
+// its stages and is updated as it goes
 export const syncLog = pgTable("sync_log", {
   id: serial("id").primaryKey(),
-  source: text("source").notNull(), // "github-docs" | "n8n-templates"
-  status: text("status").notNull(), // "success" | "error"
+  source: text("source").notNull(), // "github-docs" | "n8n-templates" | "n8n-node-schemas"
+  status: text("status").notNull(), // "running" | "partial" | "success" | "error"
   nodesProcessed: integer("nodes_processed").default(0),
   error: text("error"),
-  syncedAt: timestamp("synced_at").defaultNow(),
+  stage: text("stage"), // next stage of an unfinished run, "done" once finished
+  progress: jsonb("progress").$type<SyncProgress>(),
+  syncedAt: timestamp("synced_at").defaultNow(), // last update
 });
 
+// Files the docs sync downloaded from GitHub, with the blob sha they had, so
+// the next sync only downloads files whose sha changed. `data` is what the
+// sync kept from the file: a doc's markdown, or a node source's summary
+export const githubFiles = pgTable(
+  "github_files",
+  {
+    id: serial("id").primaryKey(),
+    repo: text("repo").notNull(), // e.g. "n8n-io/n8n-docs"
+    path: text("path").notNull(),
+    sha: text("sha").notNull(),
+    data: jsonb("data"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("github_files_repo_path_idx").on(table.repo, table.path)]
+);
+
 // Official n8n workflow templates (fetched from https://api.n8n.io/api)
 export const workflowTemplates = pgTable(
   "workflow_templates",
@@ -63,14 +173,14 @@ export const workflowTemplates = pgTable(
       connections: Record<string, unknown>;
     }>(),
     content: text("content").notNull(), // semantic text for embedding (NOT raw JSON)
-    embedding: vector("embedding", { dimensions: 1536 }),
+    embedding: embeddingVector("embedding"),
+    embeddingModel: text("embedding_model").notNull().default("openai/text-embedding-3-small"),
+    embeddingDimensions: integer("embedding_dimensions").notNull().default(1536),
     updatedAt: timestamp("updated_at").defaultNow(),
   },
   (table) => [
-    index("wf_templates_embedding_idx").using(
-      "ivfflat",
-      table.embedding.op("vector_cosine_ops")
-    ),
+    ...embeddingIndex("wf_templates_embedding_idx", table),
+    index("wf_templates_embedding_model_idx").on(table.embeddingModel),
     index("wf_templates_template_id_idx").on(table.templateId),
     index("wf_templates_category_idx").on(table.category),
   ]
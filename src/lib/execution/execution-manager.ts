@@ -1,18 +1,40 @@
 import type { AppSettings } from "@/contexts/settings-context";
 import { useWorkflowStore } from "@/stores/workflow-store";
+import type { ExecutionStrategy } from "./strategies";
+import {
+  diffRunData,
+  type DoneEvent,
+  type FailureEvent,
+  type NodeEvent,
+} from "./stream-events";
+import { withInputs } from "./node-io";
+import { DRY_RUN_ID, simulateWorkflow, type SimulationResult } from "./simulator";
+import { reactFlowToN8n } from "@/lib/n8n/converter";
+import type { NodeRunOutput } from "@/lib/n8n/types";
 
-let pollingInterval: ReturnType<typeof setInterval> | null = null;
+export type RunWorkflowResult =
+  | {
+      success: true;
+      executionId: string | null;
+      strategy: ExecutionStrategy;
+      message?: string;
+    }
+  | { success: false; error: string };
 
 export async function runWorkflow(
   workflowId: string,
   settings: AppSettings,
   testData?: Record<string, unknown>
-) {
+): Promise<RunWorkflowResult> {
   const store = useWorkflowStore.getState();
 
   // Start execution UI
   store.startExecution("pending");
 
+  // The canvas's pins win over the saved ones, so unsaved pins apply too
+  const pinData =
+    store.workflow?.id === workflowId ? (store.workflow.pinData ?? {}) : undefined;
+
   try {
     const res = await fetch("/api/execute", {
       method: "POST",
@@ -21,7 +43,7 @@ export async function runWorkflow(
         "x-n8n-key": settings.n8nApiKey,
         "x-n8n-url": settings.n8nBaseUrl,
       },
-      body: JSON.stringify({ workflowId, testData }),
+      body: JSON.stringify({ workflowId, testData, pinData }),
     });
 
     const data = await res.json();
@@ -32,21 +54,24 @@ export async function runWorkflow(
     }
 
     if (!data.executionId) {
-      // Workflow was activated but no execution could be tracked
-      // (e.g. non-webhook workflow, or webhook not yet registered)
+      // The trigger was called but no execution could be tracked
       store.finishExecution("idle");
       return {
         success: true,
         executionId: null,
-        message: data.message || "Workflow activated — no live execution to track.",
+        strategy: data.strategy,
+        message: data.message || "Trigger called — no live execution to track.",
       };
     }
 
-    // Start polling
     store.startExecution(data.executionId);
-    startPolling(data.executionId, settings);
+    trackExecution(data.executionId, settings);
 
-    return { success: true, executionId: data.executionId };
+    return {
+      success: true,
+      executionId: data.executionId,
+      strategy: data.strategy,
+    };
   } catch (err) {
     store.finishExecution("error");
     return {
@@ -56,81 +81,272 @@ export async function runWorkflow(
   }
 }
 
-function startPolling(executionId: string, settings: AppSettings) {
-  if (pollingInterval) {
-    clearInterval(pollingInterval);
-  }
+export interface ExecutionListener {
+  onNode?: (event: NodeEvent) => void;
+  onDone?: (event: DoneEvent) => void;
+  onFailure?: (event: FailureEvent) => void;
+}
+
+// Progress streams being opened or open, by execution id
+const trackers = new Map<string, { close: () => void }>();
+
+/**
+ * Follow an execution's progress over SSE. Events for the execution shown
+ * on the canvas update the workflow store; any number of executions can be
+ * tracked at once, e.g. by passing a `listener` for one that isn't shown.
+ * Returns a function that stops tracking.
+ */
+export function trackExecution(
+  executionId: string,
+  settings: AppSettings,
+  listener: ExecutionListener = {}
+): () => void {
+  stopTracking(executionId);
+
+  let source: EventSource | null = null;
+  let closed = false;
+  trackers.set(executionId, {
+    close: () => {
+      closed = true;
+      source?.close();
+    },
+  });
 
   const store = useWorkflowStore.getState;
+  const isShown = () => store().executionId === executionId;
+  // Runs received so far per node name, for reconstructing inputs
+  const runsByNode: Record<string, NodeRunOutput[]> = {};
 
-  pollingInterval = setInterval(async () => {
-    try {
-      const res = await fetch(`/api/execute/${executionId}`, {
-        headers: {
-          "x-n8n-key": settings.n8nApiKey,
-          "x-n8n-url": settings.n8nBaseUrl,
-        },
-      });
+  const fail = (event: FailureEvent) => {
+    stopTracking(executionId);
+    listener.onFailure?.(event);
+    if (isShown()) store().finishExecution("error");
+  };
 
-      if (!res.ok) return;
+  const listen = (stream: EventSource) => {
+    stream.addEventListener("node", (e) => {
+      const event = JSON.parse(e.data) as NodeEvent;
+      runsByNode[event.nodeName] = event.runs;
+      listener.onNode?.(event);
+      if (!isShown()) return;
 
-      const execution = await res.json();
-      const currentStore = store();
+      applyNodeEvent(event, runsByNode);
+    });
 
-      // Map n8n node names to our node IDs
-      const nameToId = new Map<string, string>();
-      for (const node of currentStore.nodes) {
-        nameToId.set(node.data.label as string, node.id);
+    stream.addEventListener("done", (e) => {
+      const event = JSON.parse(e.data) as DoneEvent;
+      stopTracking(executionId);
+      listener.onDone?.(event);
+      if (isShown()) {
+        store().finishExecution(event.status === "success" ? "success" : "error");
       }
+    });
 
-      // Update per-node status from runData
-      const runData = execution.data?.resultData?.runData;
-      if (runData) {
-        for (const [nodeName, results] of Object.entries(runData)) {
-          const nodeId = nameToId.get(nodeName);
-          if (!nodeId) continue;
-
-          const resultArr = results as Array<{
-            executionTime?: number;
-            data?: { main?: Array<Array<{ json: Record<string, unknown> }>> };
-            error?: { message: string };
-          }>;
-          const result = resultArr[0];
-          if (!result) continue;
-
-          const items = result.data?.main?.[0] ?? [];
-
-          currentStore.updateNodeStatus(nodeId, {
-            status: result.error ? "error" : "success",
-            itemCount: items.length,
-            executionTime: result.executionTime,
-            error: result.error?.message,
-          });
-
-          // Store output data
-          currentStore.setNodeOutput(nodeId, {
-            input: [], // n8n API doesn't always expose input separately
-            output: items.map((item) => item.json),
-          });
-        }
-      }
+    stream.addEventListener("failure", (e) => fail(JSON.parse(e.data) as FailureEvent));
 
-      // Check if execution is finished
-      if (execution.finished) {
-        stopPolling();
-        currentStore.finishExecution(
-          execution.status === "success" ? "success" : "error"
-        );
+    // EventSource reconnects on its own after network errors and when the
+    // server ends a response early; the server replays node events on
+    // reconnect, so nothing is lost in between. It gives up when the server
+    // refuses the stream.
+    stream.addEventListener("error", () => {
+      if (stream.readyState === EventSource.CLOSED) {
+        fail({ reason: "unreachable", message: "The execution's progress stream was refused" });
       }
-    } catch {
-      // Silently continue polling on network errors
+    });
+  };
+
+  // The connection goes in a cookie for the stream, never in its URL
+  const streamUrl = `/api/execute/${encodeURIComponent(executionId)}/stream`;
+  fetch(streamUrl, {
+    method: "POST",
+    headers: {
+      "x-n8n-key": settings.n8nApiKey,
+      "x-n8n-url": settings.n8nBaseUrl,
+    },
+  })
+    .then((res) => {
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      if (closed) return;
+      source = new EventSource(streamUrl);
+      listen(source);
+    })
+    .catch((err) => {
+      if (closed) return;
+      fail({
+        reason: "unreachable",
+        message: err instanceof Error ? err.message : "Couldn't open the progress stream",
+      });
+    });
+
+  return () => stopTracking(executionId);
+}
+
+/**
+ * Simulate the canvas in the browser (see simulateWorkflow) and show the
+ * result like an execution. Unsaved edits and pins are included.
+ */
+export function dryRunWorkflow(): SimulationResult {
+  const store = useWorkflowStore.getState();
+  const result = simulateWorkflow(
+    reactFlowToN8n(store.nodes, store.edges, store.workflow ?? undefined)
+  );
+
+  // Live updates of the execution shown so far would paint over the result
+  if (store.executionId) stopTracking(store.executionId);
+  store.startExecution(DRY_RUN_ID);
+  for (const node of store.nodes) {
+    const simulated = result.nodes[node.data.label as string];
+    if (!simulated) {
+      store.updateNodeStatus(node.id, { status: "idle" });
+      continue;
     }
-  }, 1000);
+    store.updateNodeStatus(node.id, {
+      status: simulated.status,
+      itemCount: simulated.itemCount,
+      executionTime: simulated.executionTime,
+      error: simulated.error,
+      skipReason: simulated.skipReason,
+    });
+    if (simulated.run) store.setNodeOutput(node.id, { runs: [simulated.run] });
+  }
+  store.finishExecution(result.status);
+  return result;
+}
+
+/**
+ * Stop tracking one execution, or every tracked execution when no id is given.
+ */
+export function stopTracking(executionId?: string) {
+  const ids = executionId ? [executionId] : [...trackers.keys()];
+  for (const id of ids) {
+    trackers.get(id)?.close();
+    trackers.delete(id);
+  }
+}
+
+/**
+ * Paint a node event onto the canvas: status, item count and I/O.
+ */
+function applyNodeEvent(
+  event: NodeEvent,
+  runsByNode: Record<string, NodeRunOutput[]>
+) {
+  const store = useWorkflowStore.getState();
+  // Map n8n node names to our node IDs
+  const node = store.nodes.find((n) => n.data.label === event.nodeName);
+  if (!node) return;
+  store.updateNodeStatus(node.id, {
+    status: event.status,
+    itemCount: event.itemCount,
+    executionTime: event.executionTime,
+    error: event.error,
+  });
+  store.setNodeOutput(node.id, {
+    runs: withInputs(
+      event.nodeName,
+      event.runs,
+      store.workflow?.connections ?? {},
+      runsByNode
+    ),
+  });
 }
 
-export function stopPolling() {
-  if (pollingInterval) {
-    clearInterval(pollingInterval);
-    pollingInterval = null;
+/**
+ * Load a past execution of the current workflow onto the canvas, the same
+ * way a live run is shown. One that is still running is tracked live.
+ */
+export async function replayExecution(
+  executionId: string,
+  settings: AppSettings
+): Promise<{ success: true } | { success: false; error: string }> {
+  try {
+    const res = await fetch(`/api/execute/${executionId}`, {
+      headers: {
+        "x-n8n-key": settings.n8nApiKey,
+        "x-n8n-url": settings.n8nBaseUrl,
+      },
+    });
+    const execution = await res.json();
+    if (!res.ok) {
+      return { success: false, error: execution.error || `HTTP ${res.status}` };
+    }
+
+    const store = useWorkflowStore.getState();
+    if (execution.sourceWorkflowId !== store.workflow?.id) {
+      return {
+        success: false,
+        error: "That execution belongs to a different workflow",
+      };
+    }
+
+    stopTracking();
+    store.startExecution(executionId);
+    if (!execution.finished && !execution.stoppedAt) {
+      trackExecution(executionId, settings);
+      return { success: true };
+    }
+
+    const runsByNode: Record<string, NodeRunOutput[]> = {};
+    for (const event of diffRunData(
+      execution.data?.resultData?.runData ?? {},
+      new Map()
+    )) {
+      runsByNode[event.nodeName] = event.runs;
+      applyNodeEvent(event, runsByNode);
+    }
+    store.finishExecution(execution.status === "success" ? "success" : "error");
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load execution",
+    };
+  }
+}
+
+export interface BinaryRef {
+  executionId: string;
+  nodeName: string;
+  runIndex: number;
+  outputIndex: number;
+  itemIndex: number;
+  key: string;
+}
+
+/**
+ * Fetch a binary property from an execution as a Blob, for download or
+ * preview. Fails when n8n keeps the content outside the execution.
+ */
+export async function fetchBinary(
+  settings: AppSettings,
+  ref: BinaryRef
+): Promise<{ success: true; blob: Blob } | { success: false; error: string }> {
+  const params = new URLSearchParams({
+    node: ref.nodeName,
+    run: String(ref.runIndex),
+    output: String(ref.outputIndex),
+    item: String(ref.itemIndex),
+    key: ref.key,
+  });
+  try {
+    const res = await fetch(
+      `/api/execute/${ref.executionId}/binary?${params.toString()}`,
+      {
+        headers: {
+          "x-n8n-key": settings.n8nApiKey,
+          "x-n8n-url": settings.n8nBaseUrl,
+        },
+      }
+    );
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      return { success: false, error: data.error || `HTTP ${res.status}` };
+    }
+    return { success: true, blob: await res.blob() };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to fetch binary data",
+    };
   }
 }
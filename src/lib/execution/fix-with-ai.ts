@@ -0,0 +1,83 @@
+import { useWorkflowStore } from "@/stores/workflow-store";
+import type { N8nNode } from "@/lib/n8n/types";
+import { DRY_RUN_ID } from "./simulator";
+
+// Input items quoted in the chat message; the model can fetch the rest
+const MAX_INPUT_ITEMS = 5;
+
+const INSTRUCTIONS =
+  "Find the cause, fix the workflow, re-run it and check the new execution. " +
+  "Keep iterating until it succeeds or you run out of attempts, then tell me what you tried.";
+
+// A dry run never reached n8n, so there is no execution to inspect or re-run
+const DRY_RUN_INSTRUCTIONS =
+  "This was a dry run simulated in the browser with pinned data, not an n8n execution. " +
+  "Find the cause from the details above and fix the workflow; don't run it.";
+
+function codeBlock(value: unknown): string {
+  return "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+}
+
+/**
+ * Ask the chat to fix the execution shown on the canvas. Sends the failing
+ * node's configuration, its input items and its error; the server adds the
+ * node's documentation. Targets `nodeId`, or else the first node that failed.
+ * A failed dry run is sent the same way, without the execution to inspect.
+ * Returns false when there is no failed execution to fix.
+ */
+export function requestExecutionFix(nodeId?: string): boolean {
+  const { executionId, nodes, nodeStatuses, nodeOutputs, requestChat } =
+    useWorkflowStore.getState();
+  if (!executionId) return false;
+  const isDryRun = executionId === DRY_RUN_ID;
+
+  const failedId =
+    nodeId ??
+    Object.entries(nodeStatuses).find(([, s]) => s.status === "error")?.[0];
+  const node = nodes.find((n) => n.id === failedId);
+
+  if (!node) {
+    if (isDryRun) return false;
+    // Failed before any node reported an error (e.g. a trigger problem)
+    requestChat({
+      text:
+        `Execution ${executionId} of this workflow failed. Use getExecutionDetails to find out why. ` +
+        INSTRUCTIONS,
+      body: { fix: { executionId } },
+    });
+    return true;
+  }
+
+  const name = node.data.label as string;
+  const n8nNode = node.data.n8nNode as N8nNode | undefined;
+  const runs = nodeOutputs[node.id]?.runs ?? [];
+  const failedRun = [...runs].reverse().find((r) => r.error) ?? runs[runs.length - 1];
+  const inputs = (failedRun?.inputs ?? []).flat().map((item) => item.json);
+  const error = failedRun?.error ?? nodeStatuses[node.id]?.error ?? "Unknown error";
+
+  const sections = [
+    isDryRun
+      ? `A dry run of this workflow failed at node "${name}".`
+      : `Execution ${executionId} of this workflow failed at node "${name}".`,
+    `Error: ${error}` +
+      (failedRun?.errorDescription ? `\nDetails: ${failedRun.errorDescription}` : ""),
+    `Node configuration:\n${codeBlock({
+      type: node.data.n8nType,
+      typeVersion: n8nNode?.typeVersion,
+      parameters: node.data.parameters ?? {},
+    })}`,
+    inputs.length > 0
+      ? `Input items (${Math.min(inputs.length, MAX_INPUT_ITEMS)} of ${inputs.length}):\n` +
+        codeBlock(inputs.slice(0, MAX_INPUT_ITEMS))
+      : "The node received no input items.",
+    isDryRun ? DRY_RUN_INSTRUCTIONS : INSTRUCTIONS,
+  ];
+
+  requestChat({
+    text: sections.join("\n\n"),
+    body: isDryRun
+      ? undefined
+      : { fix: { executionId, nodeName: name, nodeType: node.data.n8nType } },
+  });
+  return true;
+}
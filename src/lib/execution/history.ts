@@ -0,0 +1,137 @@
+import type { N8nClient } from "@/lib/n8n/client";
+import type { N8nExecution } from "@/lib/n8n/types";
+import { findRunCopy } from "./strategies";
+
+/** One row of the executions panel. */
+export interface ExecutionSummary {
+  id: string;
+  status: N8nExecution["status"];
+  mode: N8nExecution["mode"];
+  startedAt: string;
+  stoppedAt?: string;
+  durationMs?: number;
+  // Execution-level error, or the first failing node's
+  error?: string;
+  // Node the error came from, when known
+  errorNode?: string;
+}
+
+/**
+ * Reduce a full execution to what the history list shows, so runData never
+ * has to travel to the browser just to render the list.
+ */
+export function summarizeExecution(execution: N8nExecution): ExecutionSummary {
+  const resultData = execution.data?.resultData;
+  let error = resultData?.error?.message;
+  let errorNode = error ? resultData?.lastNodeExecuted : undefined;
+  if (!error) {
+    for (const [nodeName, runs] of Object.entries(resultData?.runData ?? {})) {
+      const failed = runs.find((run) => run.error);
+      if (failed) {
+        error = failed.error!.message;
+        errorNode = nodeName;
+        break;
+      }
+    }
+  }
+
+  return {
+    id: execution.id,
+    status: execution.status,
+    mode: execution.mode,
+    startedAt: execution.startedAt,
+    stoppedAt: execution.stoppedAt,
+    durationMs: execution.stoppedAt
+      ? new Date(execution.stoppedAt).getTime() -
+        new Date(execution.startedAt).getTime()
+      : undefined,
+    error,
+    errorNode,
+  };
+}
+
+// ── Listing ─────────────────────────────────────────────
+
+// Where one execution list stands: the page being read and how much of it
+// has been returned already
+interface StreamPosition {
+  cursor?: string;
+  skip: number;
+}
+
+interface Stream {
+  workflowId: string;
+  position: StreamPosition;
+  buffer: N8nExecution[];
+  nextCursor?: string;
+}
+
+/**
+ * List a workflow's executions, newest first, together with those of its
+ * run copy (see runThroughCopy), so test runs show up in its history.
+ * The returned cursor is opaque like n8n's: it records where each of the
+ * two lists stands.
+ */
+export async function listWorkflowExecutions(
+  client: N8nClient,
+  workflowId: string,
+  params: { limit: number; cursor?: string }
+): Promise<{ data: N8nExecution[]; nextCursor?: string }> {
+  const { limit } = params;
+  let positions: Record<string, StreamPosition>;
+  if (params.cursor) {
+    positions = JSON.parse(Buffer.from(params.cursor, "base64url").toString());
+  } else {
+    const copy = await findRunCopy(client, workflowId);
+    positions = { [workflowId]: { skip: 0 } };
+    if (copy) positions[copy.id!] = { skip: 0 };
+  }
+
+  const load = async (stream: Stream) => {
+    const page = await client.listExecutions({
+      workflowId: stream.workflowId,
+      limit,
+      cursor: stream.position.cursor,
+    });
+    stream.buffer = page.data.slice(stream.position.skip);
+    stream.nextCursor = page.nextCursor;
+  };
+  const streams: Stream[] = Object.entries(positions).map(([id, position]) => ({
+    workflowId: id,
+    position,
+    buffer: [],
+  }));
+  await Promise.all(streams.map(load));
+
+  const data: N8nExecution[] = [];
+  while (data.length < limit) {
+    // A drained page is only replaced when it's needed, so a list that is
+    // never reached costs no request
+    for (const stream of streams) {
+      if (!stream.buffer.length && stream.nextCursor) {
+        stream.position = { cursor: stream.nextCursor, skip: 0 };
+        await load(stream);
+      }
+    }
+    const open = streams.filter((s) => s.buffer.length);
+    if (!open.length) break;
+    // n8n execution ids increase across workflows
+    const newest = open.reduce((a, b) =>
+      Number(b.buffer[0].id) > Number(a.buffer[0].id) ? b : a
+    );
+    data.push(newest.buffer.shift()!);
+    newest.position.skip++;
+  }
+
+  const remaining = streams.filter((s) => s.buffer.length || s.nextCursor);
+  return {
+    data,
+    nextCursor: remaining.length
+      ? Buffer.from(
+          JSON.stringify(
+            Object.fromEntries(remaining.map((s) => [s.workflowId, s.position]))
+          )
+        ).toString("base64url")
+      : undefined,
+  };
+}
@@ -0,0 +1,115 @@
+import type {
+  BinaryMetadata,
+  ExecutionItem,
+  N8nConnections,
+  NodeExecutionResult,
+  NodeRunIO,
+  NodeRunOutput,
+} from "@/lib/n8n/types";
+
+// Binary types safe to show on the app's origin. The MIME type comes from
+// n8n, i.e. from whoever built the workflow, so anything that can run script
+// (html, svg, xml, text/*) is only ever downloaded
+const PREVIEWABLE_MIME_TYPE =
+  /^(image\/(png|jpeg|gif|webp|avif|bmp)|application\/pdf|audio\/[\w.+-]+|video\/[\w.+-]+)$/i;
+
+/** Whether a binary file may be opened in a browser tab. */
+export function isPreviewableMimeType(mimeType: string | undefined): boolean {
+  return !!mimeType && PREVIEWABLE_MIME_TYPE.test(mimeType.trim());
+}
+
+/**
+ * Convert a node's raw runData into per-run, per-output items. Binary
+ * content is dropped (it can be large) and only its metadata kept.
+ */
+export function toRunOutputs(runs: NodeExecutionResult[]): NodeRunOutput[] {
+  return runs.map((run, runIndex) => ({
+    runIndex,
+    executionTime: run.executionTime,
+    error: run.error?.message,
+    errorDescription: run.error?.description,
+    source: run.source ?? [],
+    outputs: (run.data?.main ?? []).map((items) =>
+      (items ?? []).map((item) => {
+        const result: ExecutionItem = { json: item.json };
+        if (item.binary) {
+          result.binary = Object.fromEntries(
+            Object.entries(item.binary).map(([key, binary]) => {
+              const meta: BinaryMetadata = {
+                mimeType: binary.mimeType,
+                fileName: binary.fileName,
+                fileExtension: binary.fileExtension,
+                fileSize: binary.fileSize,
+                downloadable: !binary.id && !!binary.data,
+              };
+              return [key, meta];
+            })
+          );
+        }
+        return result;
+      })
+    ),
+  }));
+}
+
+/** Total items a run sent across all of its outputs. */
+export function countItems(run: NodeRunOutput): number {
+  return run.outputs.reduce((sum, items) => sum + items.length, 0);
+}
+
+/**
+ * Rebuild what a node received in one run from the outputs of the nodes
+ * connected to its main inputs. n8n's `source` pins down which upstream
+ * node, output and run fed each input; without it, every connected output
+ * is used, from the upstream run with the same index (or its latest).
+ */
+export function reconstructInputs(
+  nodeName: string,
+  run: NodeRunOutput,
+  connections: N8nConnections,
+  runsByNode: Record<string, NodeRunOutput[]>
+): ExecutionItem[][] {
+  const inputs: ExecutionItem[][] = [];
+  for (const [upstream, conn] of Object.entries(connections)) {
+    (conn.main ?? []).forEach((targets, outputIndex) => {
+      for (const target of targets ?? []) {
+        if (target.node !== nodeName) continue;
+
+        // With a source, only the connection it names fed this input; a
+        // loop's other entry or an IF's other branch sent nothing this run
+        const source = run.source[target.index];
+        if (
+          source &&
+          (source.previousNode !== upstream ||
+            (source.previousNodeOutput ?? 0) !== outputIndex)
+        ) {
+          continue;
+        }
+
+        const upstreamRuns = runsByNode[upstream] ?? [];
+        if (upstreamRuns.length === 0) continue;
+        const upstreamRun =
+          source?.previousNodeRun ?? Math.min(run.runIndex, upstreamRuns.length - 1);
+
+        while (inputs.length <= target.index) inputs.push([]);
+        inputs[target.index].push(
+          ...(upstreamRuns[upstreamRun]?.outputs[outputIndex] ?? [])
+        );
+      }
+    });
+  }
+  return inputs;
+}
+
+/** Attach reconstructed inputs to every run of a node. */
+export function withInputs(
+  nodeName: string,
+  runs: NodeRunOutput[],
+  connections: N8nConnections,
+  runsByNode: Record<string, NodeRunOutput[]>
+): NodeRunIO[] {
+  return runs.map((run) => ({
+    ...run,
+    inputs: reconstructInputs(nodeName, run, connections, runsByNode),
+  }));
+}
@@ -0,0 +1,126 @@
+import type { AppSettings } from "@/contexts/settings-context";
+import type { N8nNode, N8nPinData, PinnedItem } from "@/lib/n8n/types";
+
+const CODE_NODE_TYPE = "n8n-nodes-base.code";
+
+/**
+ * Turn pasted or generated JSON into pinned items. Accepts an array of
+ * objects, an array of `{ json }` items (as n8n shows them) or a single
+ * object. Throws with a readable message for anything else.
+ */
+export function normalizePinItems(value: unknown): PinnedItem[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length === 0) throw new Error("Pin at least one item");
+  return list.map((entry, i) => {
+    if (!isObject(entry)) {
+      throw new Error(`Item ${i + 1} must be a JSON object`);
+    }
+    const keys = Object.keys(entry);
+    if (keys.length === 1 && keys[0] === "json" && isObject(entry.json)) {
+      return { json: entry.json };
+    }
+    return { json: entry };
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Drop pins of nodes that no longer exist; undefined when nothing is left. */
+export function prunePinData(
+  pinData: N8nPinData | undefined,
+  nodeNames: Set<string>
+): N8nPinData | undefined {
+  if (!pinData) return undefined;
+  const kept = Object.entries(pinData).filter(([name]) => nodeNames.has(name));
+  return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+}
+
+// ── Storage ──
+
+// n8n's public API neither stores nor returns pins, so they are kept here,
+// per workflow id, and put back whenever the workflow is loaded
+const STORAGE_KEY = "n8n-ai-pin-data";
+
+function readStoredPins(): Record<string, N8nPinData> {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, N8nPinData>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** The pins saved for a workflow, if any. */
+export function loadPinData(workflowId: string): N8nPinData | undefined {
+  return readStoredPins()[workflowId];
+}
+
+/** Save a workflow's pins; no pins removes its entry. */
+export function savePinData(workflowId: string, pinData: N8nPinData | undefined) {
+  if (typeof window === "undefined") return;
+  const all = readStoredPins();
+  if (pinData && Object.keys(pinData).length > 0) all[workflowId] = pinData;
+  else if (all[workflowId]) delete all[workflowId];
+  else return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    console.warn("[pin-data] Browser storage is full; pins are kept until the page is reloaded");
+  }
+}
+
+/**
+ * A Code node that stands in for `node` and outputs its pinned items. It
+ * keeps the node's name, so connections from and to it stay valid, and
+ * drops its credentials so no third-party service is called.
+ */
+export function mockNode(node: N8nNode, items: PinnedItem[]): N8nNode {
+  return {
+    id: node.id,
+    name: node.name,
+    type: CODE_NODE_TYPE,
+    typeVersion: 2,
+    position: node.position,
+    disabled: node.disabled,
+    parameters: {
+      mode: "runOnceForAllItems",
+      language: "javaScript",
+      jsCode: `return ${JSON.stringify(items, null, 2)};`,
+    },
+  };
+}
+
+/**
+ * Ask the AI for realistic sample output of a node, from its docs and
+ * configuration, to pin while the real service isn't wired up yet.
+ */
+export async function generatePinData(
+  settings: AppSettings,
+  node: { nodeName: string; nodeType: string; parameters: Record<string, unknown> }
+): Promise<{ success: true; items: PinnedItem[] } | { success: false; error: string }> {
+  try {
+    const res = await fetch("/api/pin-data/generate", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-ai-key": settings.aiApiKey,
+        "x-ai-model": settings.aiModel,
+        "x-ai-provider": settings.aiProvider,
+      },
+      body: JSON.stringify(node),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      return { success: false, error: data.error || `HTTP ${res.status}` };
+    }
+    return { success: true, items: data.items };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to generate sample data",
+    };
+  }
+}
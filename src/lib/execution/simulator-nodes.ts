@@ -0,0 +1,650 @@
+import type { ExecutionItem, N8nNode, PairedItem } from "@/lib/n8n/types";
+
+/**
+ * In-process implementations of n8n's core data nodes, for dry runs. Each
+ * handler gets the node's input items and returns its outputs; parameters
+ * are resolved per item through `param`, which evaluates expressions.
+ * Input items arrive with their pairedItem set; an item passed through
+ * keeps it and an item made from input items carries theirs (pairedWith).
+ */
+
+export interface SimulatedNodeContext {
+  node: N8nNode;
+  // Items per main input
+  inputs: ExecutionItem[][];
+  // The node's parameters resolved for one item of the first input
+  param: (itemIndex: number) => Record<string, unknown>;
+}
+
+type NodeHandler = (ctx: SimulatedNodeContext) => ExecutionItem[][];
+
+/** Thrown for node versions or options the simulator doesn't implement. */
+export class UnsupportedNodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedNodeError";
+  }
+}
+
+// ── Field paths ──
+
+function getPath(json: Record<string, unknown>, path: string): unknown {
+  if (path in json) return json[path];
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      json
+    );
+}
+
+function setPath(
+  json: Record<string, unknown>,
+  path: string,
+  value: unknown,
+  dotNotation: boolean
+) {
+  if (!dotNotation) {
+    json[path] = value;
+    return;
+  }
+  const keys = path.split(".");
+  let target = json;
+  for (const key of keys.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  }
+  target[keys[keys.length - 1]] = value;
+}
+
+function fieldList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return String(value ?? "")
+    .split(",")
+    .map((f) => f.trim())
+    .filter(Boolean);
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+/** pairedItem of an item made from `items`. */
+function pairedWith(...items: ExecutionItem[]): PairedItem[] {
+  return items.flatMap((item) => item.pairedItem ?? []);
+}
+
+// ── Conditions (IF, Filter, Switch) ──
+
+interface FilterCondition {
+  leftValue?: unknown;
+  rightValue?: unknown;
+  operator?: { type?: string; operation?: string };
+}
+
+interface FilterConditions {
+  conditions?: FilterCondition[];
+  combinator?: "and" | "or";
+  options?: { caseSensitive?: boolean };
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (Number.isNaN(n)) {
+    throw new Error(`Wrong type: '${String(value)}' is not a number`);
+  }
+  return n;
+}
+
+function toTime(value: unknown): number {
+  const t = value instanceof Date ? value.getTime() : new Date(String(value)).getTime();
+  if (Number.isNaN(t)) {
+    throw new Error(`Wrong type: '${String(value)}' is not a date`);
+  }
+  return t;
+}
+
+function checkCondition(condition: FilterCondition, caseSensitive: boolean): boolean {
+  const type = condition.operator?.type ?? "string";
+  const op = condition.operator?.operation ?? "equals";
+  let left = condition.leftValue;
+  let right = condition.rightValue;
+
+  switch (op) {
+    case "exists":
+      return left !== undefined && left !== null;
+    case "notExists":
+      return left === undefined || left === null;
+    case "empty":
+      return isEmptyValue(left);
+    case "notEmpty":
+      return !isEmptyValue(left);
+    case "true":
+      return left === true || left === "true";
+    case "false":
+      return left === false || left === "false";
+  }
+
+  switch (type) {
+    case "string": {
+      left = String(left ?? "");
+      right = String(right ?? "");
+      if (!caseSensitive && !op.toLowerCase().includes("regex")) {
+        left = (left as string).toLowerCase();
+        right = (right as string).toLowerCase();
+      }
+      const l = left as string;
+      const r = right as string;
+      switch (op) {
+        case "equals": return l === r;
+        case "notEquals": return l !== r;
+        case "contains": return l.includes(r);
+        case "notContains": return !l.includes(r);
+        case "startsWith": return l.startsWith(r);
+        case "notStartsWith": return !l.startsWith(r);
+        case "endsWith": return l.endsWith(r);
+        case "notEndsWith": return !l.endsWith(r);
+        case "regex": return regex(r, caseSensitive).test(l);
+        case "notRegex": return !regex(r, caseSensitive).test(l);
+      }
+      break;
+    }
+    case "number": {
+      const l = toNumber(left);
+      const r = toNumber(right);
+      switch (op) {
+        case "equals": return l === r;
+        case "notEquals": return l !== r;
+        case "gt": return l > r;
+        case "lt": return l < r;
+        case "gte": return l >= r;
+        case "lte": return l <= r;
+      }
+      break;
+    }
+    case "dateTime": {
+      const l = toTime(left);
+      const r = toTime(right);
+      switch (op) {
+        case "equals": return l === r;
+        case "notEquals": return l !== r;
+        case "after": return l > r;
+        case "before": return l < r;
+        case "afterOrEquals": return l >= r;
+        case "beforeOrEquals": return l <= r;
+      }
+      break;
+    }
+    case "boolean": {
+      const l = left === true || left === "true";
+      const r = right === true || right === "true";
+      if (op === "equals") return l === r;
+      if (op === "notEquals") return l !== r;
+      break;
+    }
+    case "array": {
+      const l = Array.isArray(left) ? left : [];
+      switch (op) {
+        case "contains": return l.includes(right);
+        case "notContains": return !l.includes(right);
+        case "lengthEquals": return l.length === toNumber(right);
+        case "lengthNotEquals": return l.length !== toNumber(right);
+        case "lengthGt": return l.length > toNumber(right);
+        case "lengthLt": return l.length < toNumber(right);
+        case "lengthGte": return l.length >= toNumber(right);
+        case "lengthLte": return l.length <= toNumber(right);
+      }
+      break;
+    }
+  }
+  throw new UnsupportedNodeError(`Condition "${type}: ${op}" is not supported in dry runs`);
+}
+
+function regex(pattern: string, caseSensitive: boolean): RegExp {
+  // n8n accepts both "abc" and "/abc/i"
+  const literal = pattern.match(/^\/(.*)\/([gimsuy]*)$/);
+  if (literal) return new RegExp(literal[1], literal[2]);
+  return new RegExp(pattern, caseSensitive ? "" : "i");
+}
+
+/** Filter-style conditions, used by IF v2+, Filter v2+ and Switch v3+. */
+function matchesConditions(
+  value: unknown,
+  params: Record<string, unknown>
+): boolean {
+  const filter = (value ?? {}) as FilterConditions;
+  const options = (params.options ?? {}) as { ignoreCase?: boolean };
+  const caseSensitive =
+    filter.options?.caseSensitive ?? !(options.ignoreCase ?? false);
+  const results = (filter.conditions ?? []).map((c) =>
+    checkCondition(c, caseSensitive)
+  );
+  return filter.combinator === "or" ? results.some(Boolean) : results.every(Boolean);
+}
+
+// IF v1 / Filter v1: conditions grouped by value type
+const LEGACY_OPERATIONS: Record<string, string> = {
+  equal: "equals",
+  notEqual: "notEquals",
+  smaller: "lt",
+  smallerEqual: "lte",
+  larger: "gt",
+  largerEqual: "gte",
+  isEmpty: "empty",
+  isNotEmpty: "notEmpty",
+};
+
+function matchesLegacyConditions(params: Record<string, unknown>): boolean {
+  const groups = (params.conditions ?? {}) as Record<
+    string,
+    Array<{ value1?: unknown; operation?: string; value2?: unknown }>
+  >;
+  const results = Object.entries(groups).flatMap(([type, conditions]) =>
+    (conditions ?? []).map((c) =>
+      checkCondition(
+        {
+          leftValue: c.value1,
+          rightValue: c.value2,
+          operator: {
+            type,
+            operation: LEGACY_OPERATIONS[c.operation ?? "equal"] ?? c.operation,
+          },
+        },
+        true
+      )
+    )
+  );
+  return params.combineOperation === "any"
+    ? results.some(Boolean)
+    : results.every(Boolean);
+}
+
+function itemMatches(ctx: SimulatedNodeContext, itemIndex: number): boolean {
+  const params = ctx.param(itemIndex);
+  return ctx.node.typeVersion >= 2
+    ? matchesConditions(params.conditions, params)
+    : matchesLegacyConditions(params);
+}
+
+// ── Handlers ──
+
+const ifNode: NodeHandler = (ctx) => {
+  const outputs: ExecutionItem[][] = [[], []];
+  ctx.inputs[0]?.forEach((item, i) => {
+    outputs[itemMatches(ctx, i) ? 0 : 1].push(item);
+  });
+  return outputs;
+};
+
+const filterNode: NodeHandler = (ctx) => [
+  (ctx.inputs[0] ?? []).filter((_, i) => itemMatches(ctx, i)),
+];
+
+const switchNode: NodeHandler = (ctx) => {
+  if (ctx.node.typeVersion < 3) {
+    throw new UnsupportedNodeError("Switch nodes before version 3 are not supported in dry runs");
+  }
+  const first = ctx.param(0);
+  const options = (first.options ?? {}) as {
+    fallbackOutput?: number | "none" | "extra";
+    allMatchingOutputs?: boolean;
+  };
+
+  if (first.mode === "expression") {
+    const outputs: ExecutionItem[][] = Array.from(
+      { length: Number(first.numberOutputs ?? 4) },
+      () => []
+    );
+    ctx.inputs[0]?.forEach((item, i) => {
+      const index = Number(ctx.param(i).output);
+      if (!outputs[index]) {
+        throw new Error(`The output ${index} is not allowed (${outputs.length} outputs)`);
+      }
+      outputs[index].push(item);
+    });
+    return outputs;
+  }
+
+  const ruleCount =
+    ((first.rules as { values?: unknown[] } | undefined)?.values ?? []).length;
+  const fallback = options.fallbackOutput ?? "none";
+  const outputs: ExecutionItem[][] = Array.from(
+    { length: ruleCount + (fallback === "extra" ? 1 : 0) },
+    () => []
+  );
+  ctx.inputs[0]?.forEach((item, i) => {
+    const params = ctx.param(i);
+    const rules = ((params.rules as { values?: Array<{ conditions?: unknown }> })
+      ?.values ?? []);
+    let matched = false;
+    for (const [index, rule] of rules.entries()) {
+      if (!matchesConditions(rule.conditions, params)) continue;
+      outputs[index].push(item);
+      matched = true;
+      if (!options.allMatchingOutputs) break;
+    }
+    if (matched || fallback === "none") return;
+    outputs[fallback === "extra" ? ruleCount : Number(fallback)]?.push(item);
+  });
+  return outputs;
+};
+
+interface Assignment {
+  name: string;
+  value: unknown;
+  type?: string;
+}
+
+function castAssignment({ value, type }: Assignment): unknown {
+  switch (type) {
+    case "number":
+      return toNumber(value);
+    case "boolean":
+      return value === true || value === "true";
+    case "array":
+    case "object":
+      return typeof value === "string" ? JSON.parse(value) : value;
+    default:
+      return value;
+  }
+}
+
+const setNode: NodeHandler = (ctx) => [
+  (ctx.inputs[0] ?? []).map((item, i) => {
+    const params = ctx.param(i);
+    const options = (params.options ?? {}) as { dotNotation?: boolean };
+    const dotNotation = options.dotNotation ?? true;
+
+    if (ctx.node.typeVersion < 3) {
+      // v1/v2: values grouped by type, "keep only set" option
+      const json = params.keepOnlySet ? {} : clone(item.json);
+      const groups = (params.values ?? {}) as Record<string, Assignment[]>;
+      for (const [type, values] of Object.entries(groups)) {
+        for (const v of values ?? []) {
+          setPath(json, v.name, castAssignment({ ...v, type }), dotNotation);
+        }
+      }
+      return { json, pairedItem: item.pairedItem };
+    }
+
+    if (params.mode === "raw") {
+      const raw = params.jsonOutput;
+      const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+      return {
+        json: { ...includedFields(item.json, params), ...parsed },
+        pairedItem: item.pairedItem,
+      };
+    }
+
+    const json = includedFields(item.json, params);
+    const assignments =
+      (params.assignments as { assignments?: Assignment[] } | undefined)
+        ?.assignments ?? [];
+    for (const a of assignments) {
+      setPath(json, a.name, castAssignment(a), dotNotation);
+    }
+    return { json, pairedItem: item.pairedItem };
+  }),
+];
+
+/** Which of the input fields a Set v3 node keeps alongside its own. */
+function includedFields(
+  json: Record<string, unknown>,
+  params: Record<string, unknown>
+): Record<string, unknown> {
+  // v3.3+ has an "include other fields" switch; earlier v3 only `include`
+  const include =
+    params.includeOtherFields === undefined
+      ? ((params.include as string) ?? "none")
+      : params.includeOtherFields
+        ? ((params.include as string) ?? "all")
+        : "none";
+  switch (include) {
+    case "all":
+      return clone(json);
+    case "selected": {
+      const fields = fieldList(params.includeFields);
+      return Object.fromEntries(
+        Object.entries(clone(json)).filter(([k]) => fields.includes(k))
+      );
+    }
+    case "except": {
+      const fields = fieldList(params.excludeFields);
+      return Object.fromEntries(
+        Object.entries(clone(json)).filter(([k]) => !fields.includes(k))
+      );
+    }
+    default:
+      return {};
+  }
+}
+
+const mergeNode: NodeHandler = (ctx) => {
+  const first = ctx.param(0);
+  const mode = (first.mode as string) ?? "append";
+  const [a = [], b = []] = ctx.inputs;
+
+  switch (mode) {
+    case "append":
+      return [ctx.inputs.flat()];
+    case "chooseBranch": {
+      const output = (first.output as string) ?? "input1";
+      if (output === "empty") return [[{ json: {} }]];
+      // v3 names the branch by number under "specifiedInput"
+      if (output === "specifiedInput") {
+        return [ctx.inputs[Number(first.useDataOfInput ?? 1) - 1] ?? []];
+      }
+      return [output === "input2" ? b : a];
+    }
+    case "combine":
+    case "mergeByPosition":
+    case "multiplex":
+    case "mergeByIndex":
+    case "mergeByKey":
+      break;
+    default:
+      throw new UnsupportedNodeError(`Merge mode "${mode}" is not supported in dry runs`);
+  }
+
+  // v2 spelled the combine variants as modes, v3 as `combineBy`
+  const combineBy =
+    mode === "combine"
+      ? ((first.combineBy as string) ??
+        (first.combinationMode as string) ??
+        "combineByFields")
+      : mode;
+  switch (combineBy) {
+    case "combineByPosition":
+    case "mergeByPosition":
+    case "mergeByIndex":
+      return [
+        Array.from({ length: Math.min(a.length, b.length) }, (_, i) => ({
+          json: { ...a[i].json, ...b[i].json },
+          pairedItem: pairedWith(a[i], b[i]),
+        })),
+      ];
+    case "combineAll":
+    case "multiplex":
+      return [
+        a.flatMap((x) =>
+          b.map((y) => ({ json: { ...x.json, ...y.json }, pairedItem: pairedWith(x, y) }))
+        ),
+      ];
+    case "combineByFields":
+    case "mergeByFields":
+    case "mergeByKey": {
+      const pairs = matchFields(first);
+      const joinMode = (first.joinMode as string) ?? "keepMatches";
+      if (joinMode !== "keepMatches") {
+        throw new UnsupportedNodeError(`Merge join mode "${joinMode}" is not supported in dry runs`);
+      }
+      return [
+        a.flatMap((x) =>
+          b
+            .filter((y) =>
+              pairs.every(
+                ([f1, f2]) => getPath(x.json, f1) === getPath(y.json, f2)
+              )
+            )
+            .map((y) => ({ json: { ...x.json, ...y.json }, pairedItem: pairedWith(x, y) }))
+        ),
+      ];
+    }
+  }
+  throw new UnsupportedNodeError(`Merge "${combineBy}" is not supported in dry runs`);
+};
+
+/** Field pairs a combine-by-fields Merge matches on. */
+function matchFields(params: Record<string, unknown>): Array<[string, string]> {
+  if (params.fieldsToMatchString !== undefined) {
+    return fieldList(params.fieldsToMatchString).map((f) => [f, f]);
+  }
+  const values =
+    (params.mergeByFields as { values?: Array<{ field1: string; field2: string }> })
+      ?.values ?? [];
+  if (values.length > 0) return values.map((v) => [v.field1, v.field2]);
+  if (params.propertyName1) {
+    return [[String(params.propertyName1), String(params.propertyName2 ?? params.propertyName1)]];
+  }
+  throw new Error("No fields to match on");
+}
+
+const splitOutNode: NodeHandler = (ctx) => [
+  (ctx.inputs[0] ?? []).flatMap((item, i) => {
+    const params = ctx.param(i);
+    const fields = fieldList(params.fieldToSplitOut);
+    if (fields.length !== 1) {
+      throw new UnsupportedNodeError("Splitting out several fields is not supported in dry runs");
+    }
+    const field = fields[0];
+    const value = getPath(item.json, field);
+    if (value === undefined) {
+      throw new Error(`The field '${field}' wasn't found in the input item`);
+    }
+    const list = Array.isArray(value) ? value : [value];
+
+    const include = (params.include as string) ?? "noOtherFields";
+    const others =
+      include === "allOtherFields"
+        ? Object.fromEntries(Object.entries(item.json).filter(([k]) => k !== field))
+        : include === "selectedOtherFields"
+          ? Object.fromEntries(
+              fieldList(params.fieldsToInclude).map((f) => [f, getPath(item.json, f)])
+            )
+          : {};
+    const options = (params.options ?? {}) as { destinationFieldName?: string };
+
+    return list.map((entry) => ({
+      json:
+        entry && typeof entry === "object" && !Array.isArray(entry) && !options.destinationFieldName
+          ? { ...others, ...clone(entry) }
+          : { ...others, [options.destinationFieldName || field]: clone(entry) },
+      pairedItem: item.pairedItem,
+    }));
+  }),
+];
+
+const aggregateNode: NodeHandler = (ctx) => {
+  const items = ctx.inputs[0] ?? [];
+  if (items.length === 0) return [[]];
+  const params = ctx.param(0);
+
+  if (params.aggregate === "aggregateAllItemData") {
+    const destination = (params.destinationFieldName as string) || "data";
+    return [
+      [
+        {
+          json: { [destination]: items.map((item) => clone(item.json)) },
+          pairedItem: pairedWith(...items),
+        },
+      ],
+    ];
+  }
+
+  const fields =
+    (params.fieldsToAggregate as {
+      fieldToAggregate?: Array<{
+        fieldToAggregate: string;
+        renameField?: boolean;
+        outputFieldName?: string;
+      }>;
+    })?.fieldToAggregate ?? [];
+  const options = (params.options ?? {}) as { mergeLists?: boolean };
+  const json: Record<string, unknown> = {};
+  for (const f of fields) {
+    const values = items
+      .map((item) => getPath(item.json, f.fieldToAggregate))
+      .filter((v) => v !== undefined);
+    const name = f.renameField && f.outputFieldName ? f.outputFieldName : f.fieldToAggregate;
+    json[name] = options.mergeLists ? values.flat() : values;
+  }
+  return [[{ json, pairedItem: pairedWith(...items) }]];
+};
+
+const limitNode: NodeHandler = (ctx) => {
+  const items = ctx.inputs[0] ?? [];
+  const params = ctx.param(0);
+  const max = Number(params.maxItems ?? 1);
+  return [params.keep === "lastItems" ? items.slice(-max) : items.slice(0, max)];
+};
+
+const sortNode: NodeHandler = (ctx) => {
+  const items = [...(ctx.inputs[0] ?? [])];
+  const params = ctx.param(0);
+  const type = (params.type as string) ?? "simple";
+  if (type === "random") {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return [items];
+  }
+  if (type !== "simple") {
+    throw new UnsupportedNodeError(`Sort type "${type}" is not supported in dry runs`);
+  }
+  const fields =
+    (params.sortFieldsUi as {
+      sortField?: Array<{ fieldName: string; order?: "ascending" | "descending" }>;
+    })?.sortField ?? [];
+  items.sort((x, y) => {
+    for (const f of fields) {
+      const a = getPath(x.json, f.fieldName) as string | number;
+      const b = getPath(y.json, f.fieldName) as string | number;
+      if (a === b) continue;
+      const cmp = a === undefined ? 1 : b === undefined ? -1 : a < b ? -1 : 1;
+      return f.order === "descending" ? -cmp : cmp;
+    }
+    return 0;
+  });
+  return [items];
+};
+
+const noOpNode: NodeHandler = (ctx) => [ctx.inputs[0] ?? []];
+
+const HANDLERS: Record<string, NodeHandler> = {
+  "n8n-nodes-base.set": setNode,
+  "n8n-nodes-base.if": ifNode,
+  "n8n-nodes-base.switch": switchNode,
+  "n8n-nodes-base.filter": filterNode,
+  "n8n-nodes-base.merge": mergeNode,
+  "n8n-nodes-base.splitOut": splitOutNode,
+  "n8n-nodes-base.aggregate": aggregateNode,
+  "n8n-nodes-base.limit": limitNode,
+  "n8n-nodes-base.sort": sortNode,
+  "n8n-nodes-base.noOp": noOpNode,
+};
+
+/** The dry-run implementation of a node type, if there is one. */
+export function getSimulatedNode(nodeType: string): NodeHandler | undefined {
+  return HANDLERS[nodeType];
+}
@@ -0,0 +1,288 @@
+import { isTriggerNode } from "@/lib/n8n/node-registry";
+import { resolveParameters, type ExpressionData } from "@/lib/n8n/expressions";
+import type {
+  ExecutionItem,
+  N8nNode,
+  N8nWorkflow,
+  NodeRunIO,
+  NodeRunSource,
+} from "@/lib/n8n/types";
+import { getSimulatedNode, UnsupportedNodeError } from "./simulator-nodes";
+
+/** Stands in for an execution id while a dry run is shown on the canvas. */
+export const DRY_RUN_ID = "dry-run";
+
+export interface SimulatedNode {
+  status: "success" | "error" | "skipped";
+  itemCount: number;
+  executionTime: number;
+  error?: string;
+  // Why the node was not simulated
+  skipReason?: string;
+  // Output came from the node's pinned data
+  pinned?: boolean;
+  run?: NodeRunIO;
+}
+
+export interface SimulationResult {
+  status: "success" | "error";
+  // By node name, in the order the nodes ran
+  nodes: Record<string, SimulatedNode>;
+}
+
+interface IncomingEdge {
+  from: string;
+  outputIndex: number;
+  inputIndex: number;
+}
+
+/**
+ * Run a workflow in-process, without n8n. Starts from its pinned trigger (or
+ * first trigger), with the trigger's pinned items or a single empty item,
+ * and follows main connections through the core data nodes the simulator
+ * implements. Pinned nodes output their pins; any other node is marked
+ * skipped, and nothing after it runs. Stops at the first error, as n8n does.
+ *
+ * Output items carry pairedItem like n8n's, and $('Node').item follows it
+ * back to the item it came from.
+ */
+export function simulateWorkflow(workflow: N8nWorkflow): SimulationResult {
+  const pinData = workflow.pinData ?? {};
+  const byName = new Map(workflow.nodes.map((n) => [n.name, n]));
+  const incoming = new Map<string, IncomingEdge[]>();
+  for (const [from, conn] of Object.entries(workflow.connections)) {
+    (conn.main ?? []).forEach((targets, outputIndex) => {
+      for (const t of targets ?? []) {
+        if (!byName.has(t.node)) continue;
+        const edges = incoming.get(t.node) ?? [];
+        edges.push({ from, outputIndex, inputIndex: t.index });
+        incoming.set(t.node, edges);
+      }
+    });
+  }
+
+  const triggers = workflow.nodes.filter((n) => !n.disabled && isTriggerNode(n.type));
+  const start = triggers.find((n) => pinData[n.name]) ?? triggers[0];
+  const result: SimulationResult = { status: "success", nodes: {} };
+  if (!start) return result;
+
+  const outputs = new Map<string, ExecutionItem[][]>();
+  // Each output item's node and that node's input, which its pairedItem indexes
+  const producedBy = new Map<ExecutionItem, { node: string; inputs: ExecutionItem[][] }>();
+  const produce = (name: string, inputs: ExecutionItem[][], out: ExecutionItem[][]) => {
+    for (const items of out) {
+      assignPairedItems(items, inputs[0] ?? []);
+      for (const item of items) producedBy.set(item, { node: name, inputs });
+    }
+    outputs.set(name, out);
+  };
+  const getPairedItem = (from: ExecutionItem, name: string): ExecutionItem => {
+    const found = new Set<ExecutionItem>();
+    const seen = new Set<ExecutionItem>();
+    const queue = [from];
+    while (queue.length > 0) {
+      const item = queue.shift()!;
+      const producer = producedBy.get(item);
+      if (!producer || seen.has(item)) continue;
+      seen.add(item);
+      if (producer.node === name) {
+        found.add(item);
+        continue;
+      }
+      for (const p of [item.pairedItem ?? []].flat()) {
+        const parent = producer.inputs[p.input ?? 0]?.[p.item];
+        if (parent) queue.push(parent);
+      }
+    }
+    if (found.size === 1) return [...found][0];
+    throw new Error(
+      found.size === 0
+        ? `No item of "${name}" leads to this one; use $('${name}').first() or .all()`
+        : `Several items of "${name}" lead to this one; use $('${name}').first() or .all()`
+    );
+  };
+  const expressionData = (
+    item: ExecutionItem,
+    itemIndex: number,
+    inputItems: ExecutionItem[]
+  ): ExpressionData => ({
+    item,
+    itemIndex,
+    inputItems,
+    getNode: (name) => {
+      const out = outputs.get(name);
+      return out ? { items: out.find((items) => items.length > 0) ?? [] } : undefined;
+    },
+    getPairedItem: (name) => getPairedItem(item, name),
+    workflow: { id: workflow.id, name: workflow.name, active: workflow.active },
+    executionId: DRY_RUN_ID,
+  });
+
+  const { order, looped } = executionOrder(workflow, start, incoming);
+  for (const node of looped) {
+    result.nodes[node.name] = {
+      status: "skipped",
+      itemCount: 0,
+      executionTime: 0,
+      skipReason: "Loops can't run in a dry run",
+    };
+  }
+
+  for (const node of order) {
+    const edges = node === start ? [] : (incoming.get(node.name) ?? []);
+    const inputs: ExecutionItem[][] = [];
+    const source: Array<NodeRunSource | null> = [];
+    for (const edge of edges) {
+      const items = outputs.get(edge.from)?.[edge.outputIndex];
+      if (!items) continue;
+      while (inputs.length <= edge.inputIndex) inputs.push([]);
+      inputs[edge.inputIndex].push(...items);
+      source[edge.inputIndex] = {
+        previousNode: edge.from,
+        previousNodeOutput: edge.outputIndex,
+      };
+    }
+    // Like n8n, a node without input items doesn't run
+    if (node !== start && inputs.every((items) => items.length === 0)) continue;
+
+    // What the node's own items point back to
+    const pairedInputs = inputs.map((items, input) =>
+      items.map((item, i): ExecutionItem => ({ ...item, pairedItem: { item: i, input } }))
+    );
+
+    if (node.disabled) {
+      produce(node.name, inputs, [pairedInputs[0] ?? []]);
+      continue;
+    }
+
+    const started = performance.now();
+    const record = (
+      entry: Omit<SimulatedNode, "itemCount" | "executionTime">,
+      out: ExecutionItem[][]
+    ) => {
+      const executionTime = performance.now() - started;
+      result.nodes[node.name] = {
+        ...entry,
+        itemCount: out.reduce((sum, items) => sum + items.length, 0),
+        executionTime,
+        run: {
+          runIndex: 0,
+          executionTime,
+          error: entry.error,
+          source: source.map((s) => s ?? null),
+          outputs: out,
+          inputs,
+        },
+      };
+    };
+
+    if (pinData[node.name]) {
+      const out = [structuredClone(pinData[node.name])];
+      produce(node.name, inputs, out);
+      record({ status: "success", pinned: true }, out);
+      continue;
+    }
+    if (node === start) {
+      // What a manual trigger emits
+      const out = [[{ json: {} }]];
+      produce(node.name, inputs, out);
+      record({ status: "success" }, out);
+      continue;
+    }
+
+    const handler = getSimulatedNode(node.type);
+    if (!handler) {
+      result.nodes[node.name] = {
+        status: "skipped",
+        itemCount: 0,
+        executionTime: 0,
+        skipReason: `${node.type} can't run in a dry run — pin data on it to test the nodes after it`,
+      };
+      continue;
+    }
+
+    try {
+      const out = handler({
+        node,
+        inputs: pairedInputs,
+        param: (itemIndex) => {
+          const items = inputs[0] ?? [];
+          const item = items[itemIndex] ?? { json: {} };
+          return resolveParameters(node.parameters, expressionData(item, itemIndex, items));
+        },
+      });
+      produce(node.name, inputs, out);
+      record({ status: "success" }, out);
+    } catch (err) {
+      if (err instanceof UnsupportedNodeError) {
+        result.nodes[node.name] = {
+          status: "skipped",
+          itemCount: 0,
+          executionTime: 0,
+          skipReason: err.message,
+        };
+        continue;
+      }
+      record({ status: "error", error: err instanceof Error ? err.message : String(err) }, []);
+      result.status = "error";
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Pair items a node output without pairedItem the way n8n does: all with
+ * the only input item, or each with the input item at its index.
+ */
+function assignPairedItems(items: ExecutionItem[], input: ExecutionItem[]) {
+  if (input.length !== 1 && input.length !== items.length) return;
+  items.forEach((item, i) => {
+    item.pairedItem ??= { item: input.length === 1 ? 0 : i };
+  });
+}
+
+/**
+ * Nodes reachable from `start` over main connections, each after all of
+ * its reachable parents (so a Merge sees both branches). Nodes on or after
+ * a cycle never become ready and are returned as `looped`.
+ */
+function executionOrder(
+  workflow: N8nWorkflow,
+  start: N8nNode,
+  incoming: Map<string, IncomingEdge[]>
+): { order: N8nNode[]; looped: N8nNode[] } {
+  const byName = new Map(workflow.nodes.map((n) => [n.name, n]));
+  const reachable = new Set<string>([start.name]);
+  const queue = [start.name];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const targets of workflow.connections[name]?.main ?? []) {
+      for (const t of targets ?? []) {
+        if (byName.has(t.node) && !reachable.has(t.node)) {
+          reachable.add(t.node);
+          queue.push(t.node);
+        }
+      }
+    }
+  }
+
+  const order: N8nNode[] = [];
+  const done = new Set<string>();
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const name of reachable) {
+      if (done.has(name)) continue;
+      const parents = name === start.name ? [] : (incoming.get(name) ?? []);
+      if (parents.some((e) => reachable.has(e.from) && !done.has(e.from))) continue;
+      done.add(name);
+      order.push(byName.get(name)!);
+      progressed = true;
+    }
+  }
+  const looped = [...reachable]
+    .filter((name) => !done.has(name))
+    .map((name) => byName.get(name)!);
+  return { order, looped };
+}
@@ -0,0 +1,399 @@
+import type { N8nClient } from "@/lib/n8n/client";
+import { isTriggerNode } from "@/lib/n8n/node-registry";
+import type { N8nNode, N8nPinData, N8nWorkflow, PinnedItem } from "@/lib/n8n/types";
+import { mockNode, prunePinData } from "./pin-data";
+
+/**
+ * How a run was started:
+ * - "test-webhook": the workflow's test URL (/webhook-test, /form-test), only
+ *   registered while the n8n editor is listening for a test event
+ * - "manual": the workflow's run copy, in which a webhook stands in
+ *   for the trigger — for manual, schedule and other triggers with no URL,
+ *   and for URL triggers whose test URL isn't listening
+ * - "mock": some nodes have pinned data — run like "manual", with each pinned
+ *   node replaced by one that outputs its pinned items
+ * The workflow itself is never activated or modified by a run.
+ */
+export type ExecutionStrategy = "test-webhook" | "manual" | "mock";
+
+export interface RunInput {
+  // Body for webhook runs, field values for form runs
+  testData?: Record<string, unknown>;
+  // Message for chat trigger runs
+  chatInput?: string;
+  // Pinned items by node name, from the canvas. n8n's public API doesn't
+  // store pins, so without these only pinData n8n happens to return is used
+  pinData?: N8nPinData;
+}
+
+export interface RunResult {
+  strategy: ExecutionStrategy;
+  triggerNode: string;
+  executionId: string | null;
+  triggerStatus: number;
+  // The run copy the run went through (see runThroughCopy)
+  runCopyId?: string;
+  // Nodes that output their pinned items instead of running
+  mockedNodes?: string[];
+  message?: string;
+}
+
+const WEBHOOK_TYPE = "n8n-nodes-base.webhook";
+const FORM_TRIGGER_TYPE = "n8n-nodes-base.formTrigger";
+const CHAT_TRIGGER_TYPE = "@n8n/n8n-nodes-langchain.chatTrigger";
+
+// Stand-in trigger used by the manual strategy
+const HARNESS_NODE_NAME = "Run Trigger (temporary)";
+// Run copies are named after their source workflow, so its runs can be
+// found from it and it from them
+const RUN_COPY_PREFIX = "Test runs of workflow ";
+
+function runCopyName(workflowId: string): string {
+  return `${RUN_COPY_PREFIX}${workflowId}`;
+}
+
+/** The workflow a run copy runs, from the copy's name; null for anything else. */
+export function runCopySource(workflowName: string | undefined): string | null {
+  return workflowName?.startsWith(RUN_COPY_PREFIX)
+    ? workflowName.slice(RUN_COPY_PREFIX.length)
+    : null;
+}
+
+/** The run copy of a workflow, if it has been run through one. */
+export async function findRunCopy(
+  client: N8nClient,
+  workflowId: string
+): Promise<N8nWorkflow | null> {
+  const name = runCopyName(workflowId);
+  const { data } = await client.listWorkflows({ name, limit: 10 });
+  return data.find((w) => w.name === name) ?? null;
+}
+
+// How long n8n needs to register webhooks after activation
+const ACTIVATION_DELAY_MS = 500;
+
+/**
+ * Retry a function up to `retries` times with a delay between attempts.
+ */
+async function retry<T>(
+  fn: () => Promise<T>,
+  retries: number,
+  delayMs: number
+): Promise<T | null> {
+  for (let i = 0; i < retries; i++) {
+    const result = await fn();
+    if (result !== null && result !== undefined) return result;
+    await new Promise((r) => setTimeout(r, delayMs));
+  }
+  return null;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// ── Trigger selection ──
+
+type TriggerKind = "webhook" | "chat" | "form" | "manual";
+
+function triggerKind(node: N8nNode): TriggerKind {
+  if (node.type === WEBHOOK_TYPE) return "webhook";
+  if (node.type === CHAT_TRIGGER_TYPE) return "chat";
+  if (node.type === FORM_TRIGGER_TYPE) return "form";
+  return "manual";
+}
+
+/**
+ * The trigger a run starts from. Triggers with a URL are preferred, since
+ * they can be called without touching the workflow.
+ */
+function pickTrigger(workflow: N8nWorkflow): N8nNode | undefined {
+  const triggers = workflow.nodes.filter(
+    (n) => !n.disabled && isTriggerNode(n.type)
+  );
+  const order: TriggerKind[] = ["webhook", "chat", "form", "manual"];
+  return [...triggers].sort(
+    (a, b) => order.indexOf(triggerKind(a)) - order.indexOf(triggerKind(b))
+  )[0];
+}
+
+/**
+ * Items a chat or form trigger would emit for `input`, so a run copy can
+ * skip the trigger and still hand its nodes the usual shape. Webhook and
+ * manual triggers are stood in for by the harness webhook itself.
+ */
+function triggerItems(
+  node: N8nNode,
+  input: RunInput
+): PinnedItem[] | undefined {
+  switch (triggerKind(node)) {
+    case "chat":
+      return [
+        {
+          json: {
+            sessionId: crypto.randomUUID(),
+            action: "sendMessage",
+            chatInput: input.chatInput ?? "Hello",
+          },
+        },
+      ];
+    case "form":
+      return [
+        {
+          json: {
+            ...input.testData,
+            submittedAt: new Date().toISOString(),
+            formMode: "test",
+          },
+        },
+      ];
+    default:
+      return undefined;
+  }
+}
+
+// ── URLs and requests ──
+
+function webhookPath(node: N8nNode): string {
+  // Priority: node parameter "path" > node "webhookId" (set by n8n) > node id
+  return (node.parameters.path as string) || node.webhookId || node.id;
+}
+
+function triggerUrl(
+  baseUrl: string,
+  node: N8nNode,
+  kind: Exclude<TriggerKind, "manual">,
+  test: boolean
+): string {
+  switch (kind) {
+    case "webhook":
+      return `${baseUrl}/${test ? "webhook-test" : "webhook"}/${webhookPath(node)}`;
+    case "chat":
+      return `${baseUrl}/${test ? "webhook-test" : "webhook"}/${node.webhookId ?? node.id}/chat`;
+    case "form":
+      return `${baseUrl}/${test ? "form-test" : "form"}/${webhookPath(node)}`;
+  }
+}
+
+function triggerRequest(
+  node: N8nNode,
+  kind: Exclude<TriggerKind, "manual">,
+  input: RunInput
+): RequestInit {
+  if (kind === "chat") {
+    return {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        action: "sendMessage",
+        sessionId: crypto.randomUUID(),
+        chatInput: input.chatInput ?? "Hello",
+      }),
+    };
+  }
+  if (kind === "form") {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(input.testData ?? {})) {
+      form.append(key, typeof value === "string" ? value : JSON.stringify(value));
+    }
+    return { method: "POST", body: form };
+  }
+  const method = ((node.parameters.httpMethod as string) || "POST").toUpperCase();
+  return {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body:
+      method !== "GET" && method !== "HEAD"
+        ? JSON.stringify(input.testData ?? { test: true, timestamp: Date.now() })
+        : undefined,
+  };
+}
+
+// ── Execution lookup ──
+
+async function latestExecutionId(
+  client: N8nClient,
+  workflowId: string
+): Promise<string | null> {
+  const executions = await client.listExecutions({
+    workflowId,
+    limit: 1,
+    includeData: false,
+  });
+  return executions.data?.[0]?.id ?? null;
+}
+
+/**
+ * Wait for an execution newer than `previousId` to show up (up to 5s).
+ */
+function findNewExecution(
+  client: N8nClient,
+  workflowId: string,
+  previousId: string | null
+): Promise<string | null> {
+  return retry(
+    async () => {
+      const id = await latestExecutionId(client, workflowId);
+      return id && id !== previousId ? id : null;
+    },
+    5,
+    1000
+  );
+}
+
+// ── Runner ──
+
+/**
+ * Run a workflow without activating or modifying it.
+ *
+ * Webhook, chat and form triggers are called on their test URL, which needs
+ * no activation. Anything else runs through the workflow's run copy
+ * (see runThroughCopy): any other trigger, a URL trigger whose test
+ * URL isn't listening (404), and every run when nodes have pinned data (n8n
+ * only honours pinData in editor runs, so pinned nodes are swapped for mocks).
+ * A trigger call answered with any other error status throws.
+ */
+export async function runWithStrategy(
+  client: N8nClient,
+  n8nUrl: string,
+  workflowId: string,
+  input: RunInput = {}
+): Promise<RunResult> {
+  const baseUrl = n8nUrl.replace(/\/+$/, "").replace(/\/api\/v1$/, "");
+  const workflow = await client.getWorkflow(workflowId);
+  const trigger = pickTrigger(workflow);
+  if (!trigger) {
+    throw new Error(
+      "Workflow has no enabled trigger node. Add a trigger (Manual, Webhook, Schedule, etc.) to run it."
+    );
+  }
+
+  const kind = triggerKind(trigger);
+  const items = triggerItems(trigger, input);
+
+  const pinData = prunePinData(
+    input.pinData ?? workflow.pinData,
+    new Set(workflow.nodes.filter((n) => !n.disabled).map((n) => n.name))
+  );
+  if (pinData) {
+    const mocks = items ? { [trigger.name]: items, ...pinData } : pinData;
+    return runThroughCopy(client, baseUrl, workflow, trigger, input, "mock", mocks);
+  }
+
+  if (kind !== "manual") {
+    const previousId = await latestExecutionId(client, workflowId);
+    const request = triggerRequest(trigger, kind, input);
+    const testRes = await fetch(triggerUrl(baseUrl, trigger, kind, true), request);
+    if (testRes.status !== 404) {
+      if (!testRes.ok) throw await triggerError(testRes);
+      return {
+        strategy: "test-webhook",
+        triggerNode: trigger.name,
+        executionId: await findNewExecution(client, workflowId, previousId),
+        triggerStatus: testRes.status,
+      };
+    }
+  }
+
+  // A chat or form trigger is fed its usual items by the harness
+  return runThroughCopy(
+    client,
+    baseUrl,
+    workflow,
+    trigger,
+    input,
+    "manual",
+    items ? { [trigger.name]: items } : undefined
+  );
+}
+
+/**
+ * Manual strategy: write the workflow's run copy — the workflow with its
+ * triggers disabled and a webhook wired to whatever `trigger` feeds — and
+ * activate it just long enough to call the webhook. With `mocks` those
+ * nodes are replaced in the copy; a mocked trigger is kept and fed by the
+ * webhook instead.
+ *
+ * Each workflow has one run copy, reused by every run and never deleted:
+ * n8n deletes a workflow's executions with it, and these runs stay in the
+ * workflow's execution history (see listWorkflowExecutions).
+ */
+async function runThroughCopy(
+  client: N8nClient,
+  baseUrl: string,
+  workflow: N8nWorkflow,
+  trigger: N8nNode,
+  input: RunInput,
+  strategy: "manual" | "mock",
+  mocks?: N8nPinData
+): Promise<RunResult> {
+  const mockedTrigger = !!mocks?.[trigger.name];
+  const path = `run-${crypto.randomUUID()}`;
+  const harness: N8nNode = {
+    id: crypto.randomUUID(),
+    name: HARNESS_NODE_NAME,
+    type: WEBHOOK_TYPE,
+    typeVersion: 2,
+    position: trigger.position,
+    parameters: { httpMethod: "POST", path, responseMode: "onReceived" },
+    webhookId: path,
+  };
+
+  const body = {
+    name: runCopyName(workflow.id!),
+    // Only the harness registers when the copy is activated
+    nodes: [
+      ...workflow.nodes.map((n) =>
+        mocks?.[n.name]
+          ? mockNode(n, mocks[n.name])
+          : isTriggerNode(n.type)
+            ? { ...n, disabled: true }
+            : n
+      ),
+      harness,
+    ],
+    connections: {
+      ...workflow.connections,
+      [HARNESS_NODE_NAME]: mockedTrigger
+        ? { main: [[{ node: trigger.name, type: "main" as const, index: 0 }]] }
+        : (workflow.connections[trigger.name] ?? {}),
+    },
+    settings: workflow.settings ?? {},
+  };
+  const existing = await findRunCopy(client, workflow.id!);
+  const copy = existing
+    ? await client.updateWorkflow(existing.id!, body)
+    : await client.createWorkflow(body);
+  const copyId = copy.id!;
+  const previousId = existing ? await latestExecutionId(client, copyId) : null;
+
+  let res: Response;
+  try {
+    await client.activateWorkflow(copyId, true);
+    await sleep(ACTIVATION_DELAY_MS);
+    res = await fetch(`${baseUrl}/webhook/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input.testData ?? {}),
+    });
+  } finally {
+    // The execution carries on without the webhook
+    await client.activateWorkflow(copyId, false).catch(() => undefined);
+  }
+  if (!res.ok) throw await triggerError(res);
+
+  return {
+    strategy,
+    triggerNode: trigger.name,
+    executionId: await findNewExecution(client, copyId, previousId),
+    triggerStatus: res.status,
+    runCopyId: copyId,
+    mockedNodes: strategy === "mock" && mocks ? Object.keys(mocks) : undefined,
+  };
+}
+
+/** A trigger call that didn't start a run, with what n8n said. */
+async function triggerError(res: Response): Promise<Error> {
+  const text = (await res.text().catch(() => "")).trim();
+  return new Error(
+    `The trigger was refused with HTTP ${res.status}` + (text ? `: ${text.slice(0, 300)}` : "")
+  );
+}
@@ -0,0 +1,78 @@
+import type {
+  N8nExecution,
+  NodeExecutionResult,
+  NodeExecutionStatus,
+  NodeRunOutput,
+} from "@/lib/n8n/types";
+import { countItems, toRunOutputs } from "./node-io";
+
+// ── Events sent by GET /api/execute/[executionId]/stream ──
+
+export interface NodeEvent {
+  nodeName: string;
+  status: NodeExecutionStatus;
+  // Items the latest run sent across all outputs
+  itemCount: number;
+  executionTime?: number;
+  error?: string;
+  // Every run so far, with every output
+  runs: NodeRunOutput[];
+}
+
+export interface StatusEvent {
+  status: N8nExecution["status"];
+}
+
+export interface DoneEvent {
+  status: N8nExecution["status"];
+  error?: string;
+}
+
+export interface FailureEvent {
+  // Why the server stopped tracking: n8n kept failing, or the run took too long
+  reason: "timeout" | "unreachable";
+  message: string;
+}
+
+export type ExecutionStreamEvent =
+  | { event: "node"; data: NodeEvent }
+  | { event: "status"; data: StatusEvent }
+  | { event: "done"; data: DoneEvent }
+  | { event: "failure"; data: FailureEvent };
+
+/**
+ * Node events for every node whose runData changed since the last poll.
+ * `seen` maps node name to a fingerprint of what was last sent and is
+ * updated in place.
+ */
+export function diffRunData(
+  runData: Record<string, NodeExecutionResult[]>,
+  seen: Map<string, string>
+): NodeEvent[] {
+  const events: NodeEvent[] = [];
+  for (const [nodeName, runs] of Object.entries(runData)) {
+    const latest = runs[runs.length - 1];
+    if (!latest) continue;
+
+    const itemCounts = (latest.data?.main ?? []).map((items) => items?.length ?? 0);
+    const fingerprint = `${runs.length}|${latest.executionTime}|${itemCounts.join(",")}|${latest.error?.message ?? ""}`;
+    if (seen.get(nodeName) === fingerprint) continue;
+    seen.set(nodeName, fingerprint);
+
+    const outputs = toRunOutputs(runs);
+    events.push({
+      nodeName,
+      status: latest.error ? "error" : "success",
+      itemCount: countItems(outputs[outputs.length - 1]),
+      executionTime: latest.executionTime,
+      error: latest.error?.message,
+      runs: outputs,
+    });
+  }
+  return events;
+}
+
+/** Serialize an event in the text/event-stream wire format. */
+export function formatSseEvent({ event, data }: ExecutionStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -1,4 +1,35 @@
-import type { N8nExecution, N8nWorkflow } from "./types";
+import type { N8nCredential, N8nExecution, N8nWorkflow } from "./types";
+
+/**
+ * Thrown by updateWorkflow when the workflow was changed on the n8n side
+ * (e.g. edited in the n8n UI) since the caller last loaded it.
+ */
+export class WorkflowConflictError extends Error {
+  constructor(
+    public readonly expectedUpdatedAt: string,
+    public readonly actualUpdatedAt: string | undefined
+  ) {
+    super(
+      `Workflow was modified in n8n at ${actualUpdatedAt ?? "an unknown time"} ` +
+        `(expected ${expectedUpdatedAt}). Reload it or overwrite the remote changes.`
+    );
+    this.name = "WorkflowConflictError";
+  }
+}
+
+/** A non-2xx response from the n8n API. */
+export class N8nApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "N8nApiError";
+  }
+}
+
+// Pages read when collecting credentials from workflows
+const MAX_CREDENTIAL_SCAN_PAGES = 10;
 
 export class N8nClient {
   private baseUrl: string;
@@ -33,8 +64,9 @@ export class N8nClient {
 
       if (!res.ok) {
         const body = await res.text().catch(() => "");
-        throw new Error(
-          `n8n API error ${res.status}: ${res.statusText}${body ? ` - ${body}` : ""}`
+        throw new N8nApiError(
+          `n8n API error ${res.status}: ${res.statusText}${body ? ` - ${body}` : ""}`,
+          res.status
         );
       }
 
@@ -49,11 +81,17 @@ export class N8nClient {
   async listWorkflows(params?: {
     limit?: number;
     active?: boolean;
-  }): Promise<{ data: N8nWorkflow[]; nextCursor?: string }> {
+    name?: string;
+    tags?: string;
+    cursor?: string;
+  }): Promise<{ data: N8nWorkflow[]; nextCursor?: string | null }> {
     const searchParams = new URLSearchParams();
     if (params?.limit) searchParams.set("limit", String(params.limit));
     if (params?.active !== undefined)
       searchParams.set("active", String(params.active));
+    if (params?.name) searchParams.set("name", params.name);
+    if (params?.tags) searchParams.set("tags", params.tags);
+    if (params?.cursor) searchParams.set("cursor", params.cursor);
     const qs = searchParams.toString();
     return this.request(`/workflows${qs ? `?${qs}` : ""}`);
   }
@@ -75,14 +113,27 @@ export class N8nClient {
 
   async updateWorkflow(
     id: string,
-    data: Partial<N8nWorkflow>
+    data: Partial<N8nWorkflow>,
+    options?: { expectedUpdatedAt?: string }
   ): Promise<N8nWorkflow> {
     // n8n PUT requires the full workflow body, so fetch first and merge
     const existing = await this.getWorkflow(id);
+    // Optimistic concurrency: refuse to clobber edits made since the caller's copy
+    if (
+      options?.expectedUpdatedAt &&
+      existing.updatedAt !== options.expectedUpdatedAt
+    ) {
+      throw new WorkflowConflictError(
+        options.expectedUpdatedAt,
+        existing.updatedAt
+      );
+    }
     const merged = {
       name: data.name ?? existing.name,
       nodes: data.nodes ?? existing.nodes,
       connections: data.connections ?? existing.connections,
+      // pinData isn't in n8n's public workflow schema, which refuses unknown
+      // fields, so pins never leave the app
       settings: data.settings ?? existing.settings ?? {},
     };
     return this.request(`/workflows/${id}`, {
@@ -109,13 +160,17 @@ export class N8nClient {
     workflowId?: string;
     limit?: number;
     status?: string;
+    cursor?: string;
+    // Defaults to true; runData can be large, so skip it when only ids are needed
+    includeData?: boolean;
   }): Promise<{ data: N8nExecution[]; nextCursor?: string }> {
     const searchParams = new URLSearchParams();
     if (params?.workflowId)
       searchParams.set("workflowId", params.workflowId);
     if (params?.limit) searchParams.set("limit", String(params.limit));
     if (params?.status) searchParams.set("status", params.status);
-    searchParams.set("includeData", "true");
+    if (params?.cursor) searchParams.set("cursor", params.cursor);
+    searchParams.set("includeData", String(params?.includeData ?? true));
     const qs = searchParams.toString();
     return this.request(`/executions${qs ? `?${qs}` : ""}`);
   }
@@ -124,6 +179,63 @@ export class N8nClient {
     return this.request(`/executions/${id}?includeData=true`);
   }
 
+  // ── Credentials ─────────────────────────────────────────
+
+  /**
+   * The instance's credentials (without their secrets). Instances whose API
+   * can't list credentials — older versions, or keys without the
+   * credential:list scope — get the ones their workflows' nodes use instead.
+   */
+  async listCredentials(): Promise<{
+    data: N8nCredential[];
+    source: "api" | "workflows";
+  }> {
+    try {
+      const data: N8nCredential[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await this.request<{ data: N8nCredential[]; nextCursor?: string | null }>(
+          `/credentials?limit=250${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`
+        );
+        data.push(...page.data);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return { data, source: "api" };
+    } catch (err) {
+      if (!(err instanceof N8nApiError) || ![403, 404, 405].includes(err.status)) {
+        throw err;
+      }
+      return { data: await this.credentialsFromWorkflows(), source: "workflows" };
+    }
+  }
+
+  private async credentialsFromWorkflows(): Promise<N8nCredential[]> {
+    const found = new Map<string, N8nCredential>();
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_CREDENTIAL_SCAN_PAGES; page++) {
+      const result = await this.listWorkflows({ limit: 100, cursor });
+      for (const workflow of result.data) {
+        for (const node of workflow.nodes ?? []) {
+          for (const [type, credential] of Object.entries(node.credentials ?? {})) {
+            if (!credential?.id) continue;
+            const seen = found.get(credential.id);
+            // Stands in for the credential's own updatedAt: when it was last used
+            if (seen && (seen.updatedAt ?? "") >= (workflow.updatedAt ?? "")) continue;
+            found.set(credential.id, {
+              id: credential.id,
+              name: credential.name,
+              type,
+              updatedAt: workflow.updatedAt,
+            });
+          }
+        }
+      }
+      cursor = result.nextCursor ?? undefined;
+      if (!cursor) break;
+    }
+    return [...found.values()];
+  }
+
   // ── Health ──────────────────────────────────────────────
 
   async testConnection(): Promise<{ ok: boolean; error?: string }> {
@@ -1,7 +1,19 @@
 import type { Edge, Node } from "@xyflow/react";
 import dagre from "dagre";
-import type { N8nConnection, N8nWorkflow } from "./types";
-import { getNodeInfo } from "./node-registry";
+import type {
+  N8nConnection,
+  N8nConnections,
+  N8nConnectionType,
+  N8nNode,
+  N8nNodeConnections,
+  N8nWorkflow,
+} from "./types";
+import {
+  getNodeInfo,
+  getRootNodeInputTypes,
+  getSubNodeOutputType,
+} from "./node-registry";
+import { prunePinData } from "@/lib/execution/pin-data";
 
 export interface ReactFlowData {
   nodes: Node[];
@@ -9,28 +21,127 @@ export interface ReactFlowData {
 }
 
 /**
- * Convert n8n workflow JSON to React Flow nodes and edges
+ * Build the React Flow handle id for an n8n connection endpoint.
+ * Main output/input 0 uses the node's default handle (undefined); other main
+ * indexes are "source-1"/"target-1"; AI connections get their own handle per
+ * type, e.g. "target-ai_languageModel" on the root node.
+ */
+export function getHandleId(
+  side: "source" | "target",
+  type: N8nConnectionType,
+  index: number
+): string | undefined {
+  if (type === "main") {
+    return index > 0 ? `${side}-${index}` : undefined;
+  }
+  return index > 0 ? `${side}-${type}-${index}` : `${side}-${type}`;
+}
+
+/**
+ * Inverse of getHandleId: recover the connection type and index from a handle id.
+ */
+export function parseHandleId(
+  handleId: string | null | undefined
+): { type: N8nConnectionType; index: number } {
+  if (!handleId) return { type: "main", index: 0 };
+  const parts = handleId.replace(/^(source|target)-/, "").split("-");
+  if (/^\d+$/.test(parts[0])) {
+    return { type: "main", index: parseInt(parts[0], 10) };
+  }
+  return {
+    type: parts[0] as N8nConnectionType,
+    index: parts[1] ? parseInt(parts[1], 10) : 0,
+  };
+}
+
+/**
+ * Build the canvas node for a single n8n node. `wiring` carries the handles
+ * its existing connections use; the node type's own defaults fill in the rest.
+ */
+export function toFlowNode(
+  n8nNode: N8nNode,
+  wiring: {
+    mainInputs?: number;
+    mainOutputs?: number;
+    aiInputs?: N8nConnectionType[];
+    subNodeType?: N8nConnectionType;
+  } = {}
+): Node {
+  const info = getNodeInfo(n8nNode.type);
+  return {
+    id: n8nNode.id,
+    type: "workflowNode",
+    position: { x: n8nNode.position[0], y: n8nNode.position[1] },
+    data: {
+      label: n8nNode.name,
+      n8nType: n8nNode.type,
+      category: info.category,
+      icon: info.icon,
+      color: info.color,
+      description: info.description,
+      parameters: n8nNode.parameters,
+      n8nNode,
+      mainInputs: Math.max(info.inputs ?? 1, wiring.mainInputs ?? 1),
+      mainOutputs: Math.max(info.outputs ?? 1, wiring.mainOutputs ?? 1),
+      aiInputs: [
+        ...new Set([
+          ...getRootNodeInputTypes(n8nNode.type),
+          ...(wiring.aiInputs ?? []),
+        ]),
+      ],
+      subNodeType: wiring.subNodeType ?? getSubNodeOutputType(n8nNode.type),
+      executionStatus: "idle" as const,
+      itemCount: 0,
+    },
+  };
+}
+
+/**
+ * Convert n8n workflow JSON to React Flow nodes and edges.
+ * Each node keeps its full original N8nNode in `data.n8nNode` so that
+ * reactFlowToN8n can reproduce fields the canvas doesn't edit.
  */
 export function n8nToReactFlow(workflow: N8nWorkflow): ReactFlowData {
-  const nodes: Node[] = workflow.nodes.map((n8nNode) => {
-    const info = getNodeInfo(n8nNode.type);
-    return {
-      id: n8nNode.id,
-      type: "workflowNode",
-      position: { x: n8nNode.position[0], y: n8nNode.position[1] },
-      data: {
-        label: n8nNode.name,
-        n8nType: n8nNode.type,
-        category: info.category,
-        icon: info.icon,
-        color: info.color,
-        description: info.description,
-        parameters: n8nNode.parameters,
-        executionStatus: "idle" as const,
-        itemCount: 0,
-      },
-    };
-  });
+  // Collect the AI connection types flowing into / out of each node so the
+  // canvas can render the matching sub-node handles.
+  const aiInputs = new Map<string, Set<N8nConnectionType>>();
+  const aiOutputs = new Map<string, N8nConnectionType>();
+  // Main handle counts actually used, for nodes with several inputs/outputs
+  const mainInputs = new Map<string, number>();
+  const mainOutputs = new Map<string, number>();
+  for (const [sourceName, conn] of Object.entries(workflow.connections)) {
+    for (const [type, outputs] of Object.entries(conn)) {
+      if (!outputs) continue;
+      if (type === "main") {
+        mainOutputs.set(sourceName, outputs.length);
+        for (const targets of outputs) {
+          for (const target of targets ?? []) {
+            mainInputs.set(
+              target.node,
+              Math.max(mainInputs.get(target.node) ?? 1, target.index + 1)
+            );
+          }
+        }
+        continue;
+      }
+      for (const targets of outputs) {
+        for (const target of targets ?? []) {
+          if (!aiInputs.has(target.node)) aiInputs.set(target.node, new Set());
+          aiInputs.get(target.node)!.add(type as N8nConnectionType);
+          aiOutputs.set(sourceName, type as N8nConnectionType);
+        }
+      }
+    }
+  }
+
+  const nodes: Node[] = workflow.nodes.map((n8nNode) =>
+    toFlowNode(n8nNode, {
+      mainInputs: mainInputs.get(n8nNode.name),
+      mainOutputs: mainOutputs.get(n8nNode.name),
+      aiInputs: [...(aiInputs.get(n8nNode.name) ?? [])],
+      subNodeType: aiOutputs.get(n8nNode.name),
+    })
+  );
 
   const edges: Edge[] = [];
   const nodeNameToId = new Map<string, string>();
@@ -40,24 +151,32 @@ export function n8nToReactFlow(workflow: N8nWorkflow): ReactFlowData {
 
   for (const [sourceName, conn] of Object.entries(workflow.connections)) {
     const sourceId = nodeNameToId.get(sourceName);
-    if (!sourceId || !conn.main) continue;
-
-    for (let outputIdx = 0; outputIdx < conn.main.length; outputIdx++) {
-      const targets: N8nConnection[] = conn.main[outputIdx] ?? [];
-      for (const target of targets) {
-        const targetId = nodeNameToId.get(target.node);
-        if (!targetId) continue;
-
-        edges.push({
-          id: `${sourceId}-${outputIdx}-${targetId}-${target.index}`,
-          source: sourceId,
-          target: targetId,
-          sourceHandle: outputIdx > 0 ? `source-${outputIdx}` : undefined,
-          targetHandle: target.index > 0 ? `target-${target.index}` : undefined,
-          type: "workflowEdge",
-          animated: false,
-          data: { status: "idle" },
-        });
+    if (!sourceId) continue;
+
+    for (const [rawType, outputs] of Object.entries(conn)) {
+      const type = rawType as N8nConnectionType;
+      if (!outputs) continue;
+
+      for (let outputIdx = 0; outputIdx < outputs.length; outputIdx++) {
+        const targets: N8nConnection[] = outputs[outputIdx] ?? [];
+        for (const target of targets) {
+          const targetId = nodeNameToId.get(target.node);
+          if (!targetId) continue;
+
+          edges.push({
+            id:
+              type === "main"
+                ? `${sourceId}-${outputIdx}-${targetId}-${target.index}`
+                : `${sourceId}-${type}-${outputIdx}-${targetId}-${target.index}`,
+            source: sourceId,
+            target: targetId,
+            sourceHandle: getHandleId("source", type, outputIdx),
+            targetHandle: getHandleId("target", type, target.index),
+            type: "workflowEdge",
+            animated: false,
+            data: { status: "idle", connectionType: type },
+          });
+        }
       }
     }
   }
@@ -66,95 +185,195 @@ export function n8nToReactFlow(workflow: N8nWorkflow): ReactFlowData {
 }
 
 /**
- * Auto-layout nodes using dagre when positions are missing or overlapping
+ * Auto-layout nodes using dagre when positions are missing or overlapping.
+ * Only main connections drive the left-to-right ranking; AI sub-nodes are
+ * placed in a row below the root node they plug into.
  */
 export function autoLayout(flowData: ReactFlowData): ReactFlowData {
   const g = new dagre.graphlib.Graph();
   g.setDefaultEdgeLabel(() => ({}));
   g.setGraph({ rankdir: "LR", nodesep: 60, ranksep: 120 });
 
+  // sub-node id -> root node id
+  const subNodeRoots = new Map<string, string>();
+  for (const edge of flowData.edges) {
+    if (parseHandleId(edge.targetHandle).type !== "main") {
+      subNodeRoots.set(edge.source, edge.target);
+    }
+  }
+
   for (const node of flowData.nodes) {
+    if (subNodeRoots.has(node.id)) continue;
     g.setNode(node.id, { width: 240, height: 80 });
   }
 
   for (const edge of flowData.edges) {
+    if (subNodeRoots.has(edge.source) || subNodeRoots.has(edge.target)) continue;
     g.setEdge(edge.source, edge.target);
   }
 
   dagre.layout(g);
 
-  const layoutedNodes = flowData.nodes.map((node) => {
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const node of flowData.nodes) {
+    if (subNodeRoots.has(node.id)) continue;
     const dagreNode = g.node(node.id);
-    return {
-      ...node,
-      position: {
-        x: dagreNode.x - 120,
-        y: dagreNode.y - 40,
-      },
-    };
-  });
+    positions.set(node.id, { x: dagreNode.x - 120, y: dagreNode.y - 40 });
+  }
+
+  // Place sub-nodes in a row below their root. A root can itself be a
+  // sub-node (e.g. embeddings under a vector store tool), so repeat until
+  // nothing else can be placed.
+  const slotsUsed = new Map<string, number>();
+  let placed = true;
+  while (placed) {
+    placed = false;
+    for (const [subNodeId, rootId] of subNodeRoots) {
+      if (positions.has(subNodeId)) continue;
+      const root = positions.get(rootId);
+      if (!root) continue;
+      const slot = slotsUsed.get(rootId) ?? 0;
+      slotsUsed.set(rootId, slot + 1);
+      positions.set(subNodeId, { x: root.x + slot * 200 - 40, y: root.y + 160 });
+      placed = true;
+    }
+  }
+
+  const layoutedNodes = flowData.nodes.map((node) => ({
+    ...node,
+    position: positions.get(node.id) ?? node.position,
+  }));
 
   return { nodes: layoutedNodes, edges: flowData.edges };
 }
 
 /**
- * Convert React Flow nodes/edges back to n8n workflow format
+ * Convert React Flow nodes/edges back to n8n workflow format.
+ * Nodes that came from n8nToReactFlow are rebuilt on top of their original
+ * N8nNode (typeVersion, credentials, webhookId, disabled, notes, …) with only
+ * the canvas-owned fields overridden, so an untouched workflow round-trips exactly.
  */
 export function reactFlowToN8n(
   nodes: Node[],
   edges: Edge[],
   existingWorkflow?: Partial<N8nWorkflow>
 ): N8nWorkflow {
-  const n8nNodes = nodes.map((node) => ({
-    id: node.id,
-    name: node.data.label as string,
-    type: node.data.n8nType as string,
-    typeVersion: 1,
-    position: [Math.round(node.position.x), Math.round(node.position.y)] as [number, number],
-    parameters: (node.data.parameters as Record<string, unknown>) ?? {},
-  }));
+  const n8nNodes = nodes.map((node): N8nNode => {
+    const original = node.data.n8nNode as N8nNode | undefined;
+    // Keep the original (possibly fractional) position unless the node moved
+    const moved =
+      !original ||
+      original.position[0] !== node.position.x ||
+      original.position[1] !== node.position.y;
+    return {
+      ...original,
+      id: node.id,
+      name: node.data.label as string,
+      type: node.data.n8nType as string,
+      typeVersion: original?.typeVersion ?? 1,
+      position: moved
+        ? [Math.round(node.position.x), Math.round(node.position.y)]
+        : original.position,
+      parameters:
+        (node.data.parameters as Record<string, unknown>) ??
+        original?.parameters ??
+        {},
+    };
+  });
 
   const nodeIdToName = new Map<string, string>();
   for (const n of n8nNodes) {
     nodeIdToName.set(n.id, n.name);
   }
 
-  const connections: Record<string, { main: N8nConnection[][] }> = {};
+  const connections: N8nConnections = {};
 
   for (const edge of edges) {
     const sourceName = nodeIdToName.get(edge.source);
     const targetName = nodeIdToName.get(edge.target);
     if (!sourceName || !targetName) continue;
 
+    const source = parseHandleId(edge.sourceHandle);
+    const target = parseHandleId(edge.targetHandle);
+    const type =
+      (edge.data?.connectionType as N8nConnectionType | undefined) ??
+      (target.type !== "main" ? target.type : source.type);
+
     if (!connections[sourceName]) {
-      connections[sourceName] = { main: [[]] };
+      connections[sourceName] = {};
     }
-
-    const outputIdx = edge.sourceHandle
-      ? parseInt(edge.sourceHandle.replace("source-", ""), 10)
-      : 0;
-    const targetIdx = edge.targetHandle
-      ? parseInt(edge.targetHandle.replace("target-", ""), 10)
-      : 0;
+    const outputs = (connections[sourceName][type] ??= [[]]);
 
     // Ensure array is large enough
-    while (connections[sourceName].main.length <= outputIdx) {
-      connections[sourceName].main.push([]);
+    while (outputs.length <= source.index) {
+      outputs.push([]);
     }
 
-    connections[sourceName].main[outputIdx].push({
+    outputs[source.index].push({
       node: targetName,
-      type: "main",
-      index: targetIdx,
+      type,
+      index: target.index,
     });
   }
 
   return {
+    ...existingWorkflow,
     name: existingWorkflow?.name ?? "Untitled Workflow",
     nodes: n8nNodes,
-    connections,
+    connections: alignConnections(
+      connections,
+      existingWorkflow?.connections,
+      new Set(nodeIdToName.values())
+    ),
     active: existingWorkflow?.active ?? false,
     settings: existingWorkflow?.settings ?? {},
-    ...(existingWorkflow?.id ? { id: existingWorkflow.id } : {}),
+    // Pins of deleted nodes go; an emptied map is kept, as the canvas had one
+    ...(existingWorkflow?.pinData
+      ? {
+          pinData:
+            prunePinData(existingWorkflow.pinData, new Set(nodeIdToName.values())) ?? {},
+        }
+      : {}),
   };
 }
+
+/**
+ * Lay rebuilt connections out in the same shape as the original workflow:
+ * source and connection-type keys keep their original order, and empty
+ * output slots n8n stores (e.g. an IF node's unused true branch,
+ * `main: [[], [...]]`) are kept instead of being trimmed away.
+ */
+function alignConnections(
+  rebuilt: N8nConnections,
+  original: N8nConnections | undefined,
+  nodeNames: Set<string>
+): N8nConnections {
+  if (!original) return rebuilt;
+
+  const result: N8nConnections = {};
+  for (const [sourceName, conn] of Object.entries(original)) {
+    if (!nodeNames.has(sourceName)) continue;
+    const current = rebuilt[sourceName] ?? {};
+    const aligned: N8nNodeConnections = {};
+    for (const [rawType, outputs] of Object.entries(conn)) {
+      const type = rawType as N8nConnectionType;
+      const next = [...(current[type] ?? [])];
+      while (next.length < (outputs?.length ?? 0)) {
+        next.push([]);
+      }
+      aligned[type] = next;
+    }
+    // Connection types added on the canvas go after the original ones
+    for (const [rawType, outputs] of Object.entries(current)) {
+      const type = rawType as N8nConnectionType;
+      if (!aligned[type]) aligned[type] = outputs;
+    }
+    result[sourceName] = aligned;
+  }
+
+  // Sources wired up on the canvas that had no connections before
+  for (const [sourceName, conn] of Object.entries(rebuilt)) {
+    if (!result[sourceName]) result[sourceName] = conn;
+  }
+  return result;
+}
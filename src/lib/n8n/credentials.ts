@@ -0,0 +1,145 @@
+import type { AppSettings } from "@/contexts/settings-context";
+import { isPropertyVisible } from "./parameter-validator";
+import type {
+  N8nCredential,
+  N8nNode,
+  NodeCredentialRequirement,
+  NodePropertySchema,
+} from "./types";
+
+/** A node type's synced description, for one group of typeVersions. */
+export interface CredentialSchema {
+  typeVersions: number[];
+  properties: NodePropertySchema[];
+  credentials?: NodeCredentialRequirement[];
+}
+
+export interface CredentialAssignment {
+  node: string;
+  type: string;
+  credential: { id: string; name: string };
+}
+
+/**
+ * Credential types a node needs for its current parameters: the required
+ * ones whose displayOptions match, e.g. slackOAuth2Api only when its
+ * "authentication" parameter is "oAuth2".
+ */
+export function requiredCredentialTypes(
+  node: Pick<N8nNode, "typeVersion" | "parameters">,
+  schemas: CredentialSchema[]
+): string[] {
+  const schema = schemas.find((s) => s.typeVersions.includes(node.typeVersion));
+  if (!schema) return [];
+  return (schema.credentials ?? [])
+    .filter(
+      (c) =>
+        c.required &&
+        isPropertyVisible(
+          c.displayOptions,
+          node.parameters ?? {},
+          schema.properties,
+          node.typeVersion
+        )
+    )
+    .map((c) => c.name);
+}
+
+/** Required credential types the node has nothing assigned for. */
+export function missingCredentialTypes(
+  node: Pick<N8nNode, "credentials">,
+  required: string[]
+): string[] {
+  return required.filter((type) => !node.credentials?.[type]?.id);
+}
+
+/**
+ * The credential to use for `type`: one already used elsewhere in the same
+ * workflow, or else the most recently updated one of that type.
+ */
+export function matchCredential(
+  type: string,
+  available: N8nCredential[],
+  inWorkflow: N8nNode[] = []
+): N8nCredential | undefined {
+  const candidates = available.filter((c) => c.type === type);
+  const used = new Set(
+    inWorkflow.flatMap((n) => (n.credentials?.[type]?.id ? [n.credentials[type].id] : []))
+  );
+  return (
+    candidates.find((c) => used.has(c.id)) ??
+    [...candidates].sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""))[0]
+  );
+}
+
+/**
+ * Fill in every missing required credential the user has a match for.
+ * Returns the updated nodes, what was assigned, and what is still missing
+ * because no credential of that type exists yet.
+ */
+export function assignCredentials(
+  nodes: N8nNode[],
+  getRequired: (node: N8nNode) => string[],
+  available: N8nCredential[]
+): {
+  nodes: N8nNode[];
+  assigned: CredentialAssignment[];
+  missing: Array<{ node: string; type: string }>;
+} {
+  const assigned: CredentialAssignment[] = [];
+  const missing: Array<{ node: string; type: string }> = [];
+  const updated = nodes.map((node) => {
+    const types = missingCredentialTypes(node, getRequired(node));
+    if (types.length === 0) return node;
+    const credentials = { ...node.credentials };
+    for (const type of types) {
+      const match = matchCredential(type, available, nodes);
+      if (!match) {
+        missing.push({ node: node.name, type });
+        continue;
+      }
+      credentials[type] = { id: match.id, name: match.name };
+      assigned.push({ node: node.name, type, credential: credentials[type] });
+    }
+    return Object.keys(credentials).length > 0 ? { ...node, credentials } : node;
+  });
+  return { nodes: updated, assigned, missing };
+}
+
+// ── Client ──
+
+// By n8n instance; cleared by `refresh`
+const credentialCache = new Map<string, Promise<N8nCredential[]>>();
+
+/** The connected instance's credentials, loaded once per session. */
+export async function fetchCredentials(
+  settings: AppSettings,
+  options?: { refresh?: boolean }
+): Promise<{ success: true; credentials: N8nCredential[] } | { success: false; error: string }> {
+  const key = settings.n8nBaseUrl;
+  if (options?.refresh) credentialCache.delete(key);
+  if (!credentialCache.has(key)) {
+    credentialCache.set(
+      key,
+      fetch("/api/n8n/credentials", {
+        headers: {
+          "x-n8n-key": settings.n8nApiKey,
+          "x-n8n-url": settings.n8nBaseUrl,
+        },
+      }).then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        return data.data as N8nCredential[];
+      })
+    );
+  }
+  try {
+    return { success: true, credentials: await credentialCache.get(key)! };
+  } catch (err) {
+    credentialCache.delete(key);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load credentials",
+    };
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Autocomplete for n8n expressions: variables, upstream node names and the
+ * field paths of items captured from earlier runs.
+ */
+
+export interface Completion {
+  label: string;
+  // Replaces the text from `from` to the cursor
+  insertText: string;
+  kind: "variable" | "node" | "method" | "field";
+  detail?: string;
+  // Overrides the result's `from`, e.g. to replace a "." with ["key"]
+  from?: number;
+}
+
+export interface CompletionResult {
+  // Offset in the text where the completed word starts
+  from: number;
+  options: Completion[];
+}
+
+export interface CompletionContext {
+  // Nodes that run before the edited one, closest first
+  upstream: string[];
+  // Items the edited node receives, for $json and $input
+  inputItems: Array<{ json: Record<string, unknown> }>;
+  // Captured output of an upstream node, when it has run
+  getNodeItems: (name: string) => Array<{ json: Record<string, unknown> }> | undefined;
+}
+
+const VARIABLES: Array<[string, string]> = [
+  ["$json", "Current item's data"],
+  ["$input", "This node's input items"],
+  ["$(", "Output of another node: $('Node Name')"],
+  ["$node", "Output of another node (legacy)"],
+  ["$now", "Current date and time"],
+  ["$today", "Today at midnight"],
+  ["$itemIndex", "Index of the current item"],
+  ["$runIndex", "How many times this node has run"],
+  ["$workflow", "Workflow id, name and active state"],
+  ["$execution", "Execution id and mode"],
+  ["$vars", "Instance variables"],
+];
+
+const ITEM_ACCESSORS: Array<[string, string]> = [
+  ["item", "Item paired with the current one"],
+  ["first()", "First item"],
+  ["last()", "Last item"],
+  ["all()", "All items"],
+];
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Suggestions for the cursor at the end of `text`, or null when the cursor
+ * isn't inside an expression's `{{ … }}`.
+ */
+export function getCompletions(
+  text: string,
+  context: CompletionContext
+): CompletionResult | null {
+  if (!text.startsWith("=")) return null;
+  const open = text.lastIndexOf("{{");
+  if (open === -1 || text.lastIndexOf("}}") > open) return null;
+  const code = text.slice(open + 2);
+
+  // $('Nam| → node names
+  const nodeCall = code.match(/\$\(\s*(['"])([^'"]*)$/);
+  if (nodeCall) {
+    const [, quote, partial] = nodeCall;
+    return {
+      from: text.length - partial.length,
+      options: context.upstream
+        .filter((name) => name.toLowerCase().includes(partial.toLowerCase()))
+        .map((name) => ({
+          label: name,
+          insertText: `${name}${quote})`,
+          kind: "node",
+        })),
+    };
+  }
+
+  // <source>.json.a.b.par| → fields
+  const fieldAccess = code.match(
+    /(\$json|\$input\.(?:item|first\(\)|last\(\))\.json|\$\((['"])(.+?)\2\)\.(?:item|first\(\)|last\(\))\.json|\$node\[(['"])(.+?)\4\]\.json)((?:\.[\w$]+|\[\d+\])*)\.([\w$]*)$/
+  );
+  if (fieldAccess) {
+    const [, source, , callName, , indexName, path, partial] = fieldAccess;
+    const nodeName = callName ?? indexName;
+    const items =
+      source === "$json" || source.startsWith("$input")
+        ? context.inputItems
+        : context.getNodeItems(nodeName) ?? [];
+    const dot = text.length - partial.length - 1;
+    return {
+      from: text.length - partial.length,
+      options: fieldsAt(items, parsePath(path))
+        .filter(([key]) => key.toLowerCase().startsWith(partial.toLowerCase()))
+        .map(([key, value]) => ({
+          label: key,
+          insertText: IDENTIFIER.test(key) ? key : `["${key}"]`,
+          kind: "field" as const,
+          detail: describe(value),
+          // Keys that aren't identifiers need bracket access, replacing the dot
+          ...(IDENTIFIER.test(key) ? {} : { from: dot }),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    };
+  }
+
+  // $('Node').| / $input.| → accessors
+  const accessor = code.match(/(\$\((['"]).+?\2\)|\$input)\.([\w$]*)$/);
+  if (accessor) {
+    const partial = accessor[3];
+    return {
+      from: text.length - partial.length,
+      options: ITEM_ACCESSORS.filter(([name]) => name.startsWith(partial)).map(
+        ([name, detail]) => ({ label: name, insertText: name, kind: "method", detail })
+      ),
+    };
+  }
+
+  // ….item.| / ….first().| → json
+  const item = code.match(/\.(?:item|first\(\)|last\(\))\.([\w$]*)$/);
+  if (item) {
+    const partial = item[1];
+    const options: Completion[] = [
+      { label: "json", insertText: "json", kind: "field", detail: "Item data" },
+      { label: "binary", insertText: "binary", kind: "field", detail: "Item files" },
+    ];
+    return {
+      from: text.length - partial.length,
+      options: options.filter((o) => o.label.startsWith(partial)),
+    };
+  }
+
+  // $js| → variables, or all of them right after {{
+  const variable = code.match(/(^|[^\w$.])(\$[\w$]*)$/);
+  if (variable || code.trim() === "") {
+    const partial = variable?.[2] ?? "";
+    return {
+      from: text.length - partial.length,
+      options: VARIABLES.filter(([name]) => name.startsWith(partial)).map(
+        ([name, detail]) => ({ label: name, insertText: name, kind: "variable", detail })
+      ),
+    };
+  }
+
+  return null;
+}
+
+function parsePath(path: string): string[] {
+  return [...path.matchAll(/\.([\w$]+)|\[(\d+)\]/g)].map((m) => m[1] ?? m[2]);
+}
+
+/**
+ * Keys found at `path` across the items, with an example value for each.
+ * Arrays are looked into through their first element.
+ */
+function fieldsAt(
+  items: Array<{ json: Record<string, unknown> }>,
+  path: string[]
+): Array<[string, unknown]> {
+  const fields = new Map<string, unknown>();
+  for (const item of items) {
+    let value: unknown = item.json;
+    for (const key of path) {
+      if (value === null || typeof value !== "object") {
+        value = undefined;
+        break;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    if (Array.isArray(value)) value = value[0];
+    if (value === null || typeof value !== "object") continue;
+    for (const [key, v] of Object.entries(value)) {
+      if (!fields.has(key)) fields.set(key, v);
+    }
+  }
+  return [...fields.entries()];
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return `array (${value.length})`;
+  if (value === null) return "null";
+  if (typeof value === "object") return "object";
+  const text = String(value);
+  return `${typeof value}: ${text.length > 30 ? `${text.slice(0, 30)}…` : text}`;
+}
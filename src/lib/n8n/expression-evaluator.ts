@@ -0,0 +1,616 @@
+/**
+ * A small interpreter for the JavaScript inside `{{ … }}`, so dry runs never
+ * execute workflow code in the app's origin, where the n8n and AI keys live.
+ *
+ * Supported: literals (numbers, strings, template literals, arrays, objects),
+ * the scope's variables and a few safe globals, member access (`.`, `[]`,
+ * `?.`), calls, `new Date(…)`, arrow functions with an expression body,
+ * spread, and the unary, binary, logical and conditional operators.
+ * Anything else — assignments, statements, regex literals — is a syntax
+ * error. The names that lead back to the Function constructor
+ * (`constructor`, `__proto__`, `prototype`) can't be read, and the
+ * constructor itself is refused wherever a value turns up.
+ */
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "template"; parts: Array<string | Node> }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string };
+
+type Node =
+  | { type: "literal"; value: unknown }
+  | { type: "template"; parts: Array<string | Node> }
+  | { type: "identifier"; name: string }
+  | { type: "array"; elements: Array<Node | { spread: Node }> }
+  | { type: "object"; properties: Array<{ key: string | Node; value: Node } | { spread: Node }> }
+  | { type: "member"; object: Node; property: Node; optional: boolean }
+  | { type: "call"; callee: Node; args: Array<Node | { spread: Node }>; optional: boolean }
+  | { type: "new"; callee: Node; args: Array<Node | { spread: Node }> }
+  | { type: "unary"; operator: string; argument: Node }
+  | { type: "binary"; operator: string; left: Node; right: Node }
+  | { type: "conditional"; test: Node; consequent: Node; alternate: Node }
+  | { type: "arrow"; params: string[]; body: Node };
+
+// Longest first, so "===" isn't read as "==" and "="
+const OPERATORS = [
+  "===", "!==", "...", "**", "==", "!=", "<=", ">=", "&&", "||", "??", "?.", "=>",
+  "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", ".", ",", "(", ")", "[", "]", "{", "}",
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1, "||": 1, "&&": 2,
+  "==": 3, "!=": 3, "===": 3, "!==": 3,
+  "<": 4, ">": 4, "<=": 4, ">=": 4, in: 4,
+  "+": 5, "-": 5, "*": 6, "/": 6, "%": 6, "**": 7,
+};
+
+const BLOCKED_PROPERTIES = new Set(["constructor", "__proto__", "prototype"]);
+
+const FUNCTION_CONSTRUCTORS = new Set<unknown>([
+  Function,
+  Object.getPrototypeOf(async () => {}).constructor,
+  Object.getPrototypeOf(function* () {}).constructor,
+  Object.getPrototypeOf(async function* () {}).constructor,
+]);
+
+// Plain frozen copies, so nothing here leads to a prototype or a descriptor,
+// and `Object.assign(Math, …)` can't change the app's own globals
+const GLOBALS: Record<string, unknown> = Object.freeze({
+  Math: Object.fromEntries(
+    Object.getOwnPropertyNames(Math).map((key) => [key, Math[key as keyof Math]])
+  ),
+  JSON: { parse: JSON.parse, stringify: JSON.stringify },
+  Object: {
+    keys: Object.keys,
+    values: Object.values,
+    entries: Object.entries,
+    fromEntries: Object.fromEntries,
+    assign: Object.assign,
+  },
+  Array: { isArray: Array.isArray, from: Array.from, of: Array.of },
+  Number: Object.assign((v: unknown) => Number(v), {
+    isInteger: Number.isInteger,
+    isFinite: Number.isFinite,
+    isNaN: Number.isNaN,
+    parseFloat: Number.parseFloat,
+    parseInt: Number.parseInt,
+  }),
+  String: Object.assign((v: unknown) => String(v), { fromCharCode: String.fromCharCode }),
+  Boolean: (v: unknown) => Boolean(v),
+  Date: Object.assign(
+    (...args: ConstructorParameters<typeof Date>) => new Date(...args),
+    { now: Date.now, parse: Date.parse, UTC: Date.UTC }
+  ),
+  parseInt,
+  parseFloat,
+  isNaN,
+  isFinite,
+  encodeURIComponent,
+  decodeURIComponent,
+  encodeURI,
+  decodeURI,
+  undefined,
+  NaN,
+  Infinity,
+});
+for (const value of Object.values(GLOBALS)) {
+  if (value && (typeof value === "object" || typeof value === "function")) Object.freeze(value);
+}
+
+/** Evaluate one `{{ … }}` segment against `scope`. Throws on invalid code. */
+export function evaluateCode(code: string, scope: Record<string, unknown>): unknown {
+  return evaluate(parse(code), scope);
+}
+
+// ── Tokenizer ──
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (code.startsWith("//", i)) {
+      while (i < code.length && code[i] !== "\n") i++;
+      continue;
+    }
+    if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+      continue;
+    }
+    const number = /^(?:0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(
+      code.slice(i)
+    );
+    if (number && !(ch === "." && code[i + 1] === ".")) {
+      tokens.push({ type: "number", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      const start = i;
+      while (i < code.length && /[\w$]/.test(code[i])) i++;
+      tokens.push({ type: "identifier", value: code.slice(start, i) });
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const { value, end } = readString(code, i + 1, ch);
+      tokens.push({ type: "string", value });
+      i = end;
+      continue;
+    }
+    if (ch === "`") {
+      const { parts, end } = readTemplate(code, i + 1);
+      tokens.push({ type: "template", parts });
+      i = end;
+      continue;
+    }
+    // "a?.5:1" is a conditional, not optional chaining
+    const operator = OPERATORS.find(
+      (op) => code.startsWith(op, i) && !(op === "?." && /\d/.test(code[i + 2] ?? ""))
+    );
+    if (!operator) throw new SyntaxError(`Unexpected character "${ch}"`);
+    tokens.push({ type: "operator", value: operator });
+    i += operator.length;
+  }
+  return tokens;
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", "0": "\0" };
+
+function readEscape(code: string, i: number): { value: string; end: number } {
+  const ch = code[i];
+  if (ch === "u" && code[i + 1] === "{") {
+    const close = code.indexOf("}", i);
+    return { value: String.fromCodePoint(parseInt(code.slice(i + 2, close), 16)), end: close + 1 };
+  }
+  if (ch === "u") return { value: String.fromCharCode(parseInt(code.slice(i + 1, i + 5), 16)), end: i + 5 };
+  if (ch === "x") return { value: String.fromCharCode(parseInt(code.slice(i + 1, i + 3), 16)), end: i + 3 };
+  if (ch === "\n") return { value: "", end: i + 1 };
+  return { value: ESCAPES[ch] ?? ch, end: i + 1 };
+}
+
+function readString(code: string, i: number, quote: string): { value: string; end: number } {
+  let value = "";
+  while (i < code.length && code[i] !== quote) {
+    if (code[i] === "\\") {
+      const escape = readEscape(code, i + 1);
+      value += escape.value;
+      i = escape.end;
+    } else {
+      value += code[i++];
+    }
+  }
+  if (i >= code.length) throw new SyntaxError("Unterminated string");
+  return { value, end: i + 1 };
+}
+
+function readTemplate(code: string, i: number): { parts: Array<string | Node>; end: number } {
+  const parts: Array<string | Node> = [];
+  let text = "";
+  while (i < code.length && code[i] !== "`") {
+    if (code[i] === "\\") {
+      const escape = readEscape(code, i + 1);
+      text += escape.value;
+      i = escape.end;
+    } else if (code.startsWith("${", i)) {
+      const end = findClosingBrace(code, i + 2);
+      parts.push(text, parse(code.slice(i + 2, end)));
+      text = "";
+      i = end + 1;
+    } else {
+      text += code[i++];
+    }
+  }
+  if (i >= code.length) throw new SyntaxError("Unterminated template literal");
+  parts.push(text);
+  return { parts, end: i + 1 };
+}
+
+/** Index of the `}` closing a `${`, skipping nested braces and strings. */
+function findClosingBrace(code: string, i: number): number {
+  let depth = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '"' || ch === "'") i = readString(code, i + 1, ch).end;
+    else if (ch === "`") i = readTemplate(code, i + 1).end;
+    else {
+      if (ch === "{") depth++;
+      if (ch === "}" && depth-- === 0) return i;
+      i++;
+    }
+  }
+  throw new SyntaxError("Unterminated ${ in template literal");
+}
+
+// ── Parser ──
+
+function parse(code: string): Node {
+  const tokens = tokenize(code);
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[pos + offset];
+  const isOperator = (value: string, offset = 0) => {
+    const token = peek(offset);
+    return token?.type === "operator" && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new SyntaxError(`Expected "${value}"`);
+    pos++;
+  };
+
+  function parseExpression(): Node {
+    const arrow = tryParseArrow();
+    if (arrow) return arrow;
+    const test = parseBinary(1);
+    if (!isOperator("?")) return test;
+    pos++;
+    const consequent = parseExpression();
+    expect(":");
+    return { type: "conditional", test, consequent, alternate: parseExpression() };
+  }
+
+  function tryParseArrow(): Node | null {
+    const token = peek();
+    if (token?.type === "identifier" && isOperator("=>", 1)) {
+      pos += 2;
+      return { type: "arrow", params: [token.value], body: parseExpression() };
+    }
+    if (!isOperator("(")) return null;
+    // "(a, b) =>": identifiers and commas up to ")", then "=>"
+    const params: string[] = [];
+    let offset = 1;
+    while (!isOperator(")", offset)) {
+      const param = peek(offset);
+      if (param?.type !== "identifier") return null;
+      params.push(param.value);
+      offset++;
+      if (isOperator(",", offset)) offset++;
+      else if (!isOperator(")", offset)) return null;
+    }
+    if (!isOperator("=>", offset + 1)) return null;
+    pos += offset + 2;
+    return { type: "arrow", params, body: parseExpression() };
+  }
+
+  function parseBinary(minPrecedence: number): Node {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const operator =
+        token?.type === "operator" || (token?.type === "identifier" && token.value === "in")
+          ? token.value
+          : undefined;
+      const precedence = operator ? BINARY_PRECEDENCE[operator] : undefined;
+      if (!operator || precedence === undefined || precedence < minPrecedence) return left;
+      pos++;
+      // ** is right-associative
+      const right = parseBinary(operator === "**" ? precedence : precedence + 1);
+      left = { type: "binary", operator, left, right };
+    }
+  }
+
+  function parseUnary(): Node {
+    const token = peek();
+    if (token?.type === "operator" && ["!", "-", "+"].includes(token.value)) {
+      pos++;
+      return { type: "unary", operator: token.value, argument: parseUnary() };
+    }
+    if (token?.type === "identifier" && token.value === "typeof") {
+      pos++;
+      return { type: "unary", operator: "typeof", argument: parseUnary() };
+    }
+    return parsePostfix(parsePrimary());
+  }
+
+  function parsePostfix(node: Node): Node {
+    for (;;) {
+      if (isOperator(".") || (isOperator("?.") && peek(1)?.type === "identifier")) {
+        const optional = isOperator("?.");
+        pos++;
+        const name = peek();
+        if (name?.type !== "identifier") throw new SyntaxError("Expected a property name");
+        pos++;
+        node = { type: "member", object: node, property: { type: "literal", value: name.value }, optional };
+      } else if (isOperator("[") || (isOperator("?.") && isOperator("[", 1))) {
+        const optional = isOperator("?.");
+        pos += optional ? 2 : 1;
+        const property = parseExpression();
+        expect("]");
+        node = { type: "member", object: node, property, optional };
+      } else if (isOperator("(") || (isOperator("?.") && isOperator("(", 1))) {
+        const optional = isOperator("?.");
+        pos += optional ? 2 : 1;
+        node = { type: "call", callee: node, args: parseList(")"), optional };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /** Comma-separated expressions, with spread, up to `close`. */
+  function parseList(close: string): Array<Node | { spread: Node }> {
+    const items: Array<Node | { spread: Node }> = [];
+    while (!isOperator(close)) {
+      if (isOperator("...")) {
+        pos++;
+        items.push({ spread: parseExpression() });
+      } else {
+        items.push(parseExpression());
+      }
+      if (!isOperator(close)) expect(",");
+    }
+    pos++;
+    return items;
+  }
+
+  function parsePrimary(): Node {
+    const token = peek();
+    if (!token) throw new SyntaxError("Unexpected end of expression");
+    pos++;
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "template":
+        return { type: "template", parts: token.parts };
+      case "identifier":
+        switch (token.value) {
+          case "true":
+            return { type: "literal", value: true };
+          case "false":
+            return { type: "literal", value: false };
+          case "null":
+            return { type: "literal", value: null };
+          case "new": {
+            const callee = parsePrimary();
+            expect("(");
+            return { type: "new", callee, args: parseList(")") };
+          }
+          default:
+            return { type: "identifier", name: token.value };
+        }
+      case "operator":
+        if (token.value === "(") {
+          const inner = parseExpression();
+          expect(")");
+          return inner;
+        }
+        if (token.value === "[") return { type: "array", elements: parseList("]") };
+        if (token.value === "{") return parseObject();
+        throw new SyntaxError(`Unexpected "${token.value}"`);
+    }
+  }
+
+  function parseObject(): Node {
+    const properties: Array<{ key: string | Node; value: Node } | { spread: Node }> = [];
+    while (!isOperator("}")) {
+      if (isOperator("...")) {
+        pos++;
+        properties.push({ spread: parseExpression() });
+      } else {
+        const token = peek();
+        let key: string | Node;
+        if (isOperator("[")) {
+          pos++;
+          key = parseExpression();
+          expect("]");
+        } else if (token?.type === "identifier" || token?.type === "string") {
+          pos++;
+          key = token.value;
+        } else if (token?.type === "number") {
+          pos++;
+          key = String(token.value);
+        } else {
+          throw new SyntaxError("Expected a property name");
+        }
+        if (isOperator(":")) {
+          pos++;
+          properties.push({ key, value: parseExpression() });
+        } else if (typeof key === "string" && token?.type === "identifier") {
+          // Shorthand { a }
+          properties.push({ key, value: { type: "identifier", name: key } });
+        } else {
+          throw new SyntaxError('Expected ":"');
+        }
+      }
+      if (!isOperator("}")) expect(",");
+    }
+    pos++;
+    return { type: "object", properties };
+  }
+
+  const node = parseExpression();
+  if (pos < tokens.length) throw new SyntaxError("Unexpected token after expression");
+  return node;
+}
+
+// ── Evaluation ──
+
+function guard<T>(value: T): T {
+  if (FUNCTION_CONSTRUCTORS.has(value)) throw new Error("Function constructors are not allowed");
+  return value;
+}
+
+function propertyKey(value: unknown): PropertyKey {
+  const key = typeof value === "symbol" ? value : String(value);
+  if (typeof key === "string" && BLOCKED_PROPERTIES.has(key)) {
+    throw new Error(`"${key}" is not allowed in expressions`);
+  }
+  return key;
+}
+
+function lookup(name: string, scope: Record<string, unknown>): unknown {
+  if (Object.hasOwn(scope, name)) return scope[name];
+  if (Object.hasOwn(GLOBALS, name)) return GLOBALS[name];
+  throw new ReferenceError(`${name} is not defined`);
+}
+
+/** Source-like name of a callee, for error messages: `$json.items.map`. */
+function describe(node: Node): string {
+  if (node.type === "identifier") return node.name;
+  if (node.type === "member" && node.property.type === "literal") {
+    return `${describe(node.object)}.${String(node.property.value)}`;
+  }
+  return "expression";
+}
+
+// Returned when an optional chain stops at null or undefined
+const SHORT_CIRCUIT = Symbol("short-circuit");
+
+function evaluate(node: Node, scope: Record<string, unknown>): unknown {
+  const result = evaluateChain(node, scope);
+  return result === SHORT_CIRCUIT ? undefined : result;
+}
+
+function evaluateList(items: Array<Node | { spread: Node }>, scope: Record<string, unknown>) {
+  return items.flatMap((item) =>
+    "spread" in item ? [...(evaluate(item.spread, scope) as Iterable<unknown>)] : [evaluate(item, scope)]
+  );
+}
+
+function evaluateChain(node: Node, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "template":
+      return node.parts
+        .map((part) => (typeof part === "string" ? part : String(evaluate(part, scope))))
+        .join("");
+
+    case "identifier":
+      return guard(lookup(node.name, scope));
+
+    case "array":
+      return evaluateList(node.elements, scope);
+
+    case "object": {
+      const result: Record<PropertyKey, unknown> = {};
+      for (const property of node.properties) {
+        if ("spread" in property) {
+          Object.assign(result, evaluate(property.spread, scope));
+        } else {
+          const key =
+            typeof property.key === "string" ? property.key : evaluate(property.key, scope);
+          result[propertyKey(key)] = evaluate(property.value, scope);
+        }
+      }
+      return result;
+    }
+
+    case "member": {
+      const object = evaluateChain(node.object, scope);
+      if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+      if (object === null || object === undefined) {
+        if (node.optional) return SHORT_CIRCUIT;
+        const name = String(evaluate(node.property, scope));
+        throw new TypeError(`Cannot read properties of ${object} (reading '${name}')`);
+      }
+      const key = propertyKey(evaluate(node.property, scope));
+      return guard((object as Record<PropertyKey, unknown>)[key]);
+    }
+
+    case "call": {
+      let thisArg: unknown;
+      let callee: unknown;
+      if (node.callee.type === "member") {
+        thisArg = evaluateChain(node.callee.object, scope);
+        if (thisArg === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+        callee = evaluateChain(node.callee, scope);
+      } else {
+        callee = evaluateChain(node.callee, scope);
+      }
+      if (callee === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+      if ((callee === null || callee === undefined) && node.optional) return SHORT_CIRCUIT;
+      if (typeof callee !== "function") {
+        throw new TypeError(`${describe(node.callee)} is not a function`);
+      }
+      return guard(Reflect.apply(callee, thisArg, evaluateList(node.args, scope)));
+    }
+
+    case "new": {
+      // Only Date can be constructed
+      const callee = evaluate(node.callee, scope);
+      if (callee !== GLOBALS.Date) throw new Error("Only `new Date(…)` is allowed in expressions");
+      return new Date(...(evaluateList(node.args, scope) as []));
+    }
+
+    case "unary": {
+      const argument = evaluate(node.argument, scope);
+      switch (node.operator) {
+        case "!":
+          return !argument;
+        case "-":
+          return -(argument as number);
+        case "+":
+          return +(argument as number);
+        default:
+          return typeof argument;
+      }
+    }
+
+    case "binary": {
+      const left = evaluate(node.left, scope);
+      switch (node.operator) {
+        case "&&":
+          return left && evaluate(node.right, scope);
+        case "||":
+          return left || evaluate(node.right, scope);
+        case "??":
+          return left ?? evaluate(node.right, scope);
+      }
+      const right = evaluate(node.right, scope) as never;
+      const l = left as never;
+      switch (node.operator) {
+        case "==":
+          return l == right;
+        case "!=":
+          return l != right;
+        case "===":
+          return l === right;
+        case "!==":
+          return l !== right;
+        case "<":
+          return l < right;
+        case ">":
+          return l > right;
+        case "<=":
+          return l <= right;
+        case ">=":
+          return l >= right;
+        case "in":
+          return propertyKey(l) in (right as object);
+        case "+":
+          return (l as number) + (right as number);
+        case "-":
+          return l - right;
+        case "*":
+          return l * right;
+        case "/":
+          return l / right;
+        case "%":
+          return l % right;
+        default:
+          return l ** right;
+      }
+    }
+
+    case "conditional":
+      return evaluate(node.test, scope)
+        ? evaluate(node.consequent, scope)
+        : evaluate(node.alternate, scope);
+
+    case "arrow":
+      return (...args: unknown[]) =>
+        evaluate(node.body, {
+          ...scope,
+          ...Object.fromEntries(node.params.map((name, i) => [name, args[i]])),
+        });
+  }
+}
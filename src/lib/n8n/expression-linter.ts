@@ -0,0 +1,161 @@
+import {
+  collectExpressions,
+  findNodeReferences,
+  splitTemplate,
+  ExpressionError,
+} from "./expressions";
+import type { N8nWorkflow } from "./types";
+
+export type ExpressionIssueCode =
+  | "expression_syntax_error"
+  | "unknown_node_reference"
+  | "node_reference_not_upstream";
+
+export interface ExpressionIssue {
+  code: ExpressionIssueCode;
+  message: string;
+  // Offsets into the expression (including its leading "="), when known
+  start?: number;
+  end?: number;
+  fix?: string;
+}
+
+export interface WorkflowExpressionIssue extends ExpressionIssue {
+  node: string;
+  // Dotted path of the parameter, e.g. "assignments.assignments.0.value"
+  parameter: string;
+}
+
+/**
+ * Names of the nodes whose data can reach `nodeName` when it runs: its
+ * ancestors over any connection type. A sub-node (e.g. an agent's tool)
+ * runs inside its root node, so it also sees the root's ancestors.
+ */
+export function upstreamNodes(
+  workflow: Pick<N8nWorkflow, "connections">,
+  nodeName: string
+): Set<string> {
+  const parents = new Map<string, Set<string>>();
+  const roots = new Map<string, Set<string>>();
+  for (const [source, byType] of Object.entries(workflow.connections)) {
+    for (const [type, outputs] of Object.entries(byType)) {
+      for (const targets of outputs ?? []) {
+        for (const t of targets ?? []) {
+          if (!parents.has(t.node)) parents.set(t.node, new Set());
+          parents.get(t.node)!.add(source);
+          if (type === "main") continue;
+          if (!roots.has(source)) roots.set(source, new Set());
+          roots.get(source)!.add(t.node);
+        }
+      }
+    }
+  }
+
+  // The node itself only ends up included when it sits on a loop
+  const seen = new Set<string>();
+  const queue = [nodeName];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const next of [...(parents.get(name) ?? []), ...(roots.get(name) ?? [])]) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Check one expression: that its `{{ … }}` blocks close and parse, and that
+ * the nodes it references exist and run before the node it belongs to.
+ */
+export function lintExpression(
+  expression: string,
+  context: { nodeNames: Set<string>; upstream: Set<string> }
+): ExpressionIssue[] {
+  const issues: ExpressionIssue[] = [];
+  let segments;
+  try {
+    segments = splitTemplate(expression.slice(1));
+  } catch (err) {
+    return [
+      {
+        code: "expression_syntax_error",
+        message: err instanceof ExpressionError ? err.message : String(err),
+        fix: "Close every {{ with }}.",
+      },
+    ];
+  }
+
+  for (const segment of segments) {
+    if (segment.kind !== "code") continue;
+    // Offset of the code in the expression: "=" plus "{{"
+    const offset = segment.start + 3;
+    const syntaxError = checkSyntax(segment.value);
+    if (syntaxError) {
+      issues.push({
+        code: "expression_syntax_error",
+        message: `Invalid expression {{${segment.value}}}: ${syntaxError}`,
+        start: segment.start + 1,
+        end: segment.end + 1,
+      });
+    }
+
+    for (const ref of findNodeReferences(segment.value)) {
+      const range = { start: offset + ref.start, end: offset + ref.end };
+      if (!context.nodeNames.has(ref.nodeName)) {
+        const similar = [...context.nodeNames].find(
+          (n) => n.toLowerCase() === ref.nodeName.toLowerCase()
+        );
+        issues.push({
+          code: "unknown_node_reference",
+          message: `References node "${ref.nodeName}", which doesn't exist.`,
+          ...range,
+          fix: similar
+            ? `Did you mean "${similar}"? Node names are case-sensitive.`
+            : "Reference an existing node by its exact name.",
+        });
+      } else if (!context.upstream.has(ref.nodeName)) {
+        issues.push({
+          code: "node_reference_not_upstream",
+          message: `References node "${ref.nodeName}", which doesn't run before this node.`,
+          ...range,
+          fix: "Only nodes connected before this one have data; connect it upstream or reference another node.",
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function checkSyntax(code: string): string | null {
+  if (!code.trim()) return null;
+  try {
+    // Compiles without running
+    new Function(`return (${code});`);
+    return null;
+  } catch (err) {
+    // Content security policies can forbid compiling at all
+    if (err instanceof EvalError) return null;
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/** Lint the expressions in every node of a workflow. */
+export function lintWorkflowExpressions(
+  workflow: Pick<N8nWorkflow, "nodes" | "connections">
+): WorkflowExpressionIssue[] {
+  const nodeNames = new Set(workflow.nodes.map((n) => n.name));
+  return workflow.nodes.flatMap((node) => {
+    const expressions = collectExpressions(node.parameters ?? {});
+    if (expressions.length === 0) return [];
+    const upstream = upstreamNodes(workflow, node.name);
+    return expressions.flatMap(({ path, expression }) =>
+      lintExpression(expression, { nodeNames, upstream }).map((issue) => ({
+        ...issue,
+        node: node.name,
+        parameter: path,
+      }))
+    );
+  });
+}
@@ -0,0 +1,401 @@
+/**
+ * n8n expressions: parameter values starting with "=", where `{{ … }}`
+ * segments hold JavaScript evaluated against the current item, e.g.
+ * `={{ $json.email }}` or `=Hello {{ $json.name }}!`.
+ */
+
+import { evaluateCode } from "./expression-evaluator";
+
+export type TemplateSegment =
+  | { kind: "text"; value: string; start: number; end: number }
+  | { kind: "code"; value: string; start: number; end: number };
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string
+  ) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+/** Whether a parameter value is an expression rather than a literal. */
+export function isExpression(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("=");
+}
+
+/**
+ * Split an expression's template (without the leading "=") into literal text
+ * and `{{ … }}` code. Braces inside the code, e.g. object literals, and
+ * quoted strings are skipped when looking for the closing `}}`. Offsets are
+ * into the template. Throws on an unclosed `{{`.
+ */
+export function splitTemplate(template: string): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let textStart = 0;
+  let i = 0;
+  while (i < template.length) {
+    if (template[i] !== "{" || template[i + 1] !== "{") {
+      i++;
+      continue;
+    }
+    if (i > textStart) {
+      segments.push({ kind: "text", value: template.slice(textStart, i), start: textStart, end: i });
+    }
+    const codeStart = i + 2;
+    const codeEnd = findCodeEnd(template, codeStart);
+    if (codeEnd === -1) {
+      throw new ExpressionError("Unclosed {{ in expression", template);
+    }
+    segments.push({
+      kind: "code",
+      value: template.slice(codeStart, codeEnd),
+      start: i,
+      end: codeEnd + 2,
+    });
+    i = textStart = codeEnd + 2;
+  }
+  if (textStart < template.length) {
+    segments.push({ kind: "text", value: template.slice(textStart), start: textStart, end: template.length });
+  }
+  return segments;
+}
+
+function findCodeEnd(template: string, from: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = from; i < template.length; i++) {
+    const ch = template[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === "`") quote = ch;
+    else if (ch === "{") depth++;
+    else if (ch === "}") {
+      if (depth === 0 && template[i + 1] === "}") return i;
+      depth = Math.max(0, depth - 1);
+    }
+  }
+  return -1;
+}
+
+// ── Tokens and references ──
+
+export interface ExpressionToken {
+  type: "identifier" | "string" | "number" | "punctuation" | "template";
+  // For strings, the unquoted value
+  value: string;
+  start: number;
+  end: number;
+}
+
+/** The language of a Code node's source; expressions are JavaScript. */
+export type CodeLanguage = "javaScript" | "python";
+
+/**
+ * Tokenize the JavaScript inside `{{ … }}`, or a Code node's source. Just
+ * enough to find variables, member access and string arguments; offsets are
+ * into `code`. Comments are skipped, template literals are kept as one
+ * token, and unterminated strings run to the end.
+ */
+export function tokenizeExpression(
+  code: string,
+  language: CodeLanguage = "javaScript"
+): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (
+      (language === "python" && ch === "#") ||
+      (language === "javaScript" && code.startsWith("//", i))
+    ) {
+      while (i < code.length && code[i] !== "\n") i++;
+    } else if (language === "javaScript" && code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const start = i;
+      while (i < code.length && /[\w$]/.test(code[i])) i++;
+      tokens.push({ type: "identifier", value: code.slice(start, i), start, end: i });
+    } else if (/\d/.test(ch)) {
+      const start = i;
+      while (i < code.length && /[\d.]/.test(code[i])) i++;
+      tokens.push({ type: "number", value: code.slice(start, i), start, end: i });
+    } else if (ch === '"' || ch === "'" || ch === "`") {
+      const start = i++;
+      let value = "";
+      while (i < code.length && code[i] !== ch) {
+        if (code[i] === "\\" && i + 1 < code.length) i++;
+        value += code[i++];
+      }
+      i = Math.min(i + 1, code.length);
+      tokens.push({ type: ch === "`" ? "template" : "string", value, start, end: i });
+    } else {
+      tokens.push({ type: "punctuation", value: ch, start: i, end: i + 1 });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+export interface NodeReference {
+  nodeName: string;
+  // Offsets of the whole reference, e.g. `$('Webhook')`, in the code
+  start: number;
+  end: number;
+}
+
+// Python Code nodes write `_('Name')` and `_node["Name"]`
+const REFERENCE_NAMES: Record<CodeLanguage, { calls: string[]; node: string }> = {
+  javaScript: { calls: ["$", "$items"], node: "$node" },
+  python: { calls: ["_"], node: "_node" },
+};
+
+/**
+ * Nodes referenced by name in expression code: `$('Name')`, `$node["Name"]`,
+ * `$node.Name` and `$items("Name")`, or their Python forms.
+ */
+export function findNodeReferences(
+  code: string,
+  language: CodeLanguage = "javaScript"
+): NodeReference[] {
+  const tokens = tokenizeExpression(code, language);
+  const names = REFERENCE_NAMES[language];
+  const refs: NodeReference[] = [];
+  const at = (i: number, type: ExpressionToken["type"], value?: string) =>
+    tokens[i]?.type === type && (value === undefined || tokens[i].value === value);
+
+  tokens.forEach((token, i) => {
+    if (token.type !== "identifier") return;
+    // Skip property names such as `.$node`
+    if (at(i - 1, "punctuation", ".")) return;
+    const call =
+      names.calls.includes(token.value) &&
+      at(i + 1, "punctuation", "(") &&
+      at(i + 2, "string") &&
+      at(i + 3, "punctuation", ")");
+    const index =
+      token.value === names.node &&
+      at(i + 1, "punctuation", "[") &&
+      at(i + 2, "string") &&
+      at(i + 3, "punctuation", "]");
+    if (call || index) {
+      refs.push({ nodeName: tokens[i + 2].value, start: token.start, end: tokens[i + 3].end });
+    } else if (
+      token.value === names.node &&
+      at(i + 1, "punctuation", ".") &&
+      at(i + 2, "identifier")
+    ) {
+      refs.push({ nodeName: tokens[i + 2].value, start: token.start, end: tokens[i + 2].end });
+    }
+  });
+  return refs;
+}
+
+/**
+ * Point an expression's references to node `from` at `to`, keeping each
+ * reference's form and quotes (`$node.Name` becomes `$node["New Name"]` when
+ * the new name isn't an identifier). Anything else, including expressions
+ * that don't parse, is returned unchanged.
+ */
+export function renameNodeInExpression(value: string, from: string, to: string): string {
+  if (!isExpression(value)) return value;
+  const template = value.slice(1);
+  let segments: TemplateSegment[];
+  try {
+    segments = splitTemplate(template);
+  } catch {
+    return value;
+  }
+  const renamed = segments.map((segment) =>
+    segment.kind === "text"
+      ? segment.value
+      : `{{${renameNodeInCode(segment.value, from, to)}}}`
+  );
+  return `=${renamed.join("")}`;
+}
+
+/**
+ * Point a Code node's references to node `from` at `to`, as
+ * renameNodeInExpression does for expressions. Comments are left alone.
+ */
+export function renameNodeInCode(
+  code: string,
+  from: string,
+  to: string,
+  language: CodeLanguage = "javaScript"
+): string {
+  const refs = findNodeReferences(code, language).filter((r) => r.nodeName === from);
+  for (const ref of refs.reverse()) {
+    code =
+      code.slice(0, ref.start) +
+      formatReference(code.slice(ref.start, ref.end), to) +
+      code.slice(ref.end);
+  }
+  return code;
+}
+
+function formatReference(original: string, name: string): string {
+  const quote = original.match(/["'`]/)?.[0] ?? '"';
+  const quoted =
+    quote + name.replace(/\\/g, "\\\\").replaceAll(quote, `\\${quote}`) + quote;
+  // "$", "$items", "$node", or their Python forms
+  const prefix = original.match(/^[\w$]+/)?.[0] ?? "$";
+  if (prefix.endsWith("node")) {
+    const isDotted = /^[\w$]+\s*\./.test(original);
+    return isDotted && /^[A-Za-z_$][\w$]*$/.test(name) ? `${prefix}.${name}` : `${prefix}[${quoted}]`;
+  }
+  return `${prefix}(${quoted})`;
+}
+
+/** Every expression string nested in a node's parameters, with its path. */
+export function collectExpressions(
+  value: unknown,
+  path: string[] = []
+): Array<{ path: string; expression: string }> {
+  if (isExpression(value)) return [{ path: path.join("."), expression: value }];
+  if (Array.isArray(value)) {
+    return value.flatMap((v, i) => collectExpressions(v, [...path, String(i)]));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([k, v]) => collectExpressions(v, [...path, k]));
+  }
+  return [];
+}
+
+// ── Evaluation ──
+
+/** An executed node's output, as seen from an expression. */
+export interface ExpressionNodeData {
+  items: Array<{ json: Record<string, unknown> }>;
+}
+
+export interface ExpressionData {
+  // The item being processed and its index in the node's input
+  item: { json: Record<string, unknown> };
+  itemIndex: number;
+  inputItems: Array<{ json: Record<string, unknown> }>;
+  // Output of an already executed node, by name
+  getNode: (name: string) => ExpressionNodeData | undefined;
+  // The item of an executed node the current item was made from, following
+  // pairedItem ($('Node').item); throws when there isn't exactly one
+  getPairedItem: (name: string) => { json: Record<string, unknown> };
+  workflow: { id?: string; name: string; active: boolean };
+  executionId: string;
+}
+
+/**
+ * Evaluate a parameter value. Literals are returned as is; an expression
+ * that is a single `{{ … }}` returns its value with its own type, anything
+ * else is rendered to a string. Only n8n's core variables are available
+ * ($json, $input, $('Node'), $node, $items, $now, …) — not Luxon or the
+ * extension methods n8n adds to strings and arrays — and the code is
+ * interpreted by expression-evaluator.ts, which supports a subset of
+ * JavaScript.
+ */
+export function evaluateExpression(value: unknown, data: ExpressionData): unknown {
+  if (!isExpression(value)) return value;
+  const template = value.slice(1);
+  const segments = splitTemplate(template);
+  const scope = buildScope(data);
+
+  if (segments.length === 1 && segments[0].kind === "code") {
+    return runCode(segments[0].value, scope, template);
+  }
+  return segments
+    .map((segment) =>
+      segment.kind === "text"
+        ? segment.value
+        : stringify(runCode(segment.value, scope, template))
+    )
+    .join("");
+}
+
+/** Evaluate every expression nested in a node's parameters. */
+export function resolveParameters<T>(value: T, data: ExpressionData): T {
+  if (isExpression(value)) return evaluateExpression(value, data) as T;
+  if (Array.isArray(value)) {
+    return value.map((v) => resolveParameters(v, data)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, resolveParameters(v, data)])
+    ) as T;
+  }
+  return value;
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object" && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function runCode(
+  code: string,
+  scope: Record<string, unknown>,
+  template: string
+): unknown {
+  if (!code.trim()) return undefined;
+  try {
+    // Interpreted, never run as JavaScript: workflows come from anywhere
+    return evaluateCode(code, scope);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ExpressionError(`${message} [in {{${code}}}]`, template);
+  }
+}
+
+function buildScope(data: ExpressionData): Record<string, unknown> {
+  const input = data.inputItems;
+  const nodeProxy = (name: string) => {
+    const node = data.getNode(name);
+    if (!node) {
+      throw new Error(`Referenced node "${name}" has not been executed`);
+    }
+    return {
+      // Resolved on access, so first(), all() etc. work without a lineage
+      get item() {
+        return data.getPairedItem(name);
+      },
+      first: () => node.items[0],
+      last: () => node.items[node.items.length - 1],
+      all: () => node.items,
+      isExecuted: true,
+      // Legacy $node["Node"].json, which n8n pairs by index
+      json: node.items[Math.min(data.itemIndex, node.items.length - 1)]?.json,
+    };
+  };
+  const now = new Date();
+
+  return {
+    $json: data.item.json,
+    $input: {
+      item: data.item,
+      first: () => input[0],
+      last: () => input[input.length - 1],
+      all: () => input,
+    },
+    $: nodeProxy,
+    $node: new Proxy(
+      {},
+      { get: (_target, name) => (typeof name === "string" ? nodeProxy(name) : undefined) }
+    ),
+    $items: (name?: string) => (name ? nodeProxy(name).all() : input),
+    $itemIndex: data.itemIndex,
+    $runIndex: 0,
+    $now: now,
+    $today: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+    $workflow: data.workflow,
+    $execution: { id: data.executionId, mode: "manual" },
+    $vars: {},
+  };
+}
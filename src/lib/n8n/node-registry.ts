@@ -1,9 +1,13 @@
+import type { N8nConnectionType } from "./types";
+
 export interface NodeTypeInfo {
   label: string;
   category: "trigger" | "action" | "logic" | "output";
   icon: string; // lucide icon name
   color: string;
   description: string;
+  inputs?: number; // main inputs, when the node has more than one (e.g. Merge)
+  outputs?: number; // main outputs, when the node has more than one (e.g. IF)
 }
 
 export const NODE_REGISTRY: Record<string, NodeTypeInfo> = {
@@ -67,6 +71,7 @@ export const NODE_REGISTRY: Record<string, NodeTypeInfo> = {
     icon: "GitBranch",
     color: "#10b981",
     description: "Route items based on conditions",
+    outputs: 2,
   },
   "n8n-nodes-base.switch": {
     label: "Switch",
@@ -81,6 +86,7 @@ export const NODE_REGISTRY: Record<string, NodeTypeInfo> = {
     icon: "Merge",
     color: "#10b981",
     description: "Combine data from multiple branches",
+    inputs: 2,
   },
   "n8n-nodes-base.splitInBatches": {
     label: "Loop Over Items",
@@ -88,6 +94,7 @@ export const NODE_REGISTRY: Record<string, NodeTypeInfo> = {
     icon: "Repeat",
     color: "#10b981",
     description: "Process items in batches",
+    outputs: 2,
   },
   "n8n-nodes-base.wait": {
     label: "Wait",
@@ -294,3 +301,89 @@ export function getNodeInfo(type: string): NodeTypeInfo {
     }
   );
 }
+
+/**
+ * Whether a node type starts executions (webhooks, schedules, app triggers…).
+ * Types outside the static registry are recognised by n8n's "…Trigger" naming.
+ */
+export function isTriggerNode(type: string): boolean {
+  if (NODE_REGISTRY[type]) return NODE_REGISTRY[type].category === "trigger";
+  const name = type.split(".").pop() ?? "";
+  return /trigger$/i.test(name) || name === "webhook";
+}
+
+// LangChain sub-node type prefixes (after the package name) and the AI
+// connection type each one plugs into on its root node.
+const SUB_NODE_PREFIXES: Array<[string, N8nConnectionType]> = [
+  ["lm", "ai_languageModel"],
+  ["modelSelector", "ai_languageModel"],
+  ["memory", "ai_memory"],
+  ["tool", "ai_tool"],
+  ["mcpClientTool", "ai_tool"],
+  ["embeddings", "ai_embedding"],
+  ["outputParser", "ai_outputParser"],
+  ["document", "ai_document"],
+  ["textSplitter", "ai_textSplitter"],
+  ["retriever", "ai_retriever"],
+  ["reranker", "ai_reranker"],
+];
+
+/**
+ * Infer the AI connection type a LangChain sub-node outputs, from its type name.
+ * Returns null for regular nodes (including root nodes like agents and chains).
+ */
+export function getSubNodeOutputType(type: string): N8nConnectionType | null {
+  if (!type.includes("n8n-nodes-langchain.")) return null;
+  const name = type.split(".").pop() ?? "";
+  for (const [prefix, connectionType] of SUB_NODE_PREFIXES) {
+    if (name.startsWith(prefix)) return connectionType;
+  }
+  return null;
+}
+
+// AI inputs offered by common LangChain root nodes, so sub-nodes can be
+// wired to them on the canvas before any connection exists.
+const ROOT_NODE_INPUTS: Array<[string, N8nConnectionType[]]> = [
+  ["agent", ["ai_languageModel", "ai_memory", "ai_tool", "ai_outputParser"]],
+  ["toolAiAgent", ["ai_languageModel", "ai_memory", "ai_tool", "ai_outputParser"]],
+  ["chainLlm", ["ai_languageModel", "ai_outputParser"]],
+  ["chainRetrievalQa", ["ai_languageModel", "ai_retriever"]],
+  ["chainSummarization", ["ai_languageModel", "ai_textSplitter"]],
+  ["vectorStore", ["ai_embedding", "ai_document"]],
+  ["retrieverVectorStore", ["ai_vectorStore"]],
+];
+
+/**
+ * AI connection types a LangChain root node accepts on its bottom handles.
+ */
+export function getRootNodeInputTypes(type: string): N8nConnectionType[] {
+  if (!type.includes("n8n-nodes-langchain.")) return [];
+  const name = type.split(".").pop() ?? "";
+  const match = ROOT_NODE_INPUTS.find(
+    ([prefix]) => name === prefix || name.startsWith(prefix)
+  );
+  return match?.[1] ?? [];
+}
+
+// The subset of a root node's AI inputs n8n refuses to run without
+const ROOT_NODE_REQUIRED_INPUTS: Array<[string, N8nConnectionType[]]> = [
+  ["agent", ["ai_languageModel"]],
+  ["toolAiAgent", ["ai_languageModel"]],
+  ["chainLlm", ["ai_languageModel"]],
+  ["chainRetrievalQa", ["ai_languageModel", "ai_retriever"]],
+  ["chainSummarization", ["ai_languageModel"]],
+  ["vectorStore", ["ai_embedding"]],
+  ["retrieverVectorStore", ["ai_vectorStore"]],
+];
+
+/**
+ * AI connection types a LangChain root node must have a sub-node attached for.
+ */
+export function getRequiredAiInputs(type: string): N8nConnectionType[] {
+  if (!type.includes("n8n-nodes-langchain.")) return [];
+  const name = type.split(".").pop() ?? "";
+  const match = ROOT_NODE_REQUIRED_INPUTS.find(
+    ([prefix]) => name === prefix || name.startsWith(prefix)
+  );
+  return match?.[1] ?? [];
+}
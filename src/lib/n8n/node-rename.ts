@@ -0,0 +1,108 @@
+import { isExpression, renameNodeInCode, renameNodeInExpression } from "./expressions";
+import { CODE_FIELDS } from "./parameter-form";
+import type { N8nConnections, N8nWorkflow } from "./types";
+
+/**
+ * n8n refers to nodes by name — in `connections`, in `pinData` and in
+ * expressions such as `$('Get User').item.json.id` — so a rename has to
+ * update all of them, as the n8n editor does.
+ */
+
+/** What a rename rewrote besides the node itself. */
+export interface RenameReport {
+  from: string;
+  to: string;
+  // Connections with the node as source or target
+  connections: number;
+  // Expressions and code fields that referenced the node, by node and parameter path
+  expressions: Array<{ node: string; path: string }>;
+  pinData: boolean;
+}
+
+/**
+ * Point every expression in a node's parameters that references `from` at
+ * `to`, and, for Code and Function nodes, every reference in their code.
+ * Returns the parameters unchanged (same object) when none did.
+ */
+export function renameNodeInParameters(
+  parameters: Record<string, unknown>,
+  from: string,
+  to: string,
+  nodeType?: string
+): { parameters: Record<string, unknown>; paths: string[] } {
+  const paths: string[] = [];
+  const codeFields = (nodeType && CODE_FIELDS[nodeType]) || [];
+  const rewrite = (value: unknown, path: string[]): unknown => {
+    if (path.length === 1 && codeFields.includes(path[0]) && typeof value === "string") {
+      const renamed = renameNodeInCode(
+        value,
+        from,
+        to,
+        path[0] === "pythonCode" ? "python" : "javaScript"
+      );
+      if (renamed !== value) paths.push(path[0]);
+      return renamed;
+    }
+    if (isExpression(value)) {
+      const renamed = renameNodeInExpression(value, from, to);
+      if (renamed !== value) paths.push(path.join("."));
+      return renamed;
+    }
+    if (Array.isArray(value)) return value.map((v, i) => rewrite(v, [...path, String(i)]));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, rewrite(v, [...path, k])])
+      );
+    }
+    return value;
+  };
+  const rewritten = rewrite(parameters, []) as Record<string, unknown>;
+  return { parameters: paths.length > 0 ? rewritten : parameters, paths };
+}
+
+/**
+ * Rename a node in a workflow: the node, its connections as source and
+ * target, its pinned data, and expressions referencing it in every node.
+ * The caller checks that `to` is free.
+ */
+export function renameNodeInWorkflow<
+  T extends Pick<N8nWorkflow, "nodes" | "connections" | "pinData">,
+>(workflow: T, from: string, to: string): { workflow: T; report: RenameReport } {
+  const report: RenameReport = { from, to, connections: 0, expressions: [], pinData: false };
+
+  const nodes = workflow.nodes.map((node) => {
+    const name = node.name === from ? to : node.name;
+    const { parameters, paths } = renameNodeInParameters(
+      node.parameters ?? {},
+      from,
+      to,
+      node.type
+    );
+    report.expressions.push(...paths.map((path) => ({ node: name, path })));
+    return { ...node, name, parameters };
+  });
+
+  const connections: N8nConnections = {};
+  for (const [source, byType] of Object.entries(workflow.connections)) {
+    connections[source === from ? to : source] = Object.fromEntries(
+      Object.entries(byType).map(([type, outputs]) => [
+        type,
+        (outputs ?? []).map((conns) =>
+          conns.map((c) => {
+            if (source === from || c.node === from) report.connections++;
+            return c.node === from ? { ...c, node: to } : c;
+          })
+        ),
+      ])
+    );
+  }
+
+  let pinData = workflow.pinData;
+  if (pinData?.[from]) {
+    const { [from]: pins, ...rest } = pinData;
+    pinData = { ...rest, [to]: pins };
+    report.pinData = true;
+  }
+
+  return { workflow: { ...workflow, nodes, connections, pinData }, report };
+}
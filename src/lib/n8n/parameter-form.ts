@@ -0,0 +1,192 @@
+import { isExpression } from "./expressions";
+import { isPropertyVisible } from "./parameter-validator";
+import type { NodeCredentialRequirement, NodePropertySchema } from "./types";
+
+/**
+ * Helpers for the parameter form in the node drawer, which is generated from
+ * the node type's synced property schema.
+ */
+
+export const CODE_FIELDS: Record<string, string[]> = {
+  "n8n-nodes-base.code": ["jsCode", "pythonCode"],
+  "n8n-nodes-base.function": ["functionCode"],
+  "n8n-nodes-base.functionItem": ["functionCode"],
+};
+
+export interface NodeSchema {
+  properties: NodePropertySchema[];
+  credentials: NodeCredentialRequirement[];
+}
+
+// Schemas don't change while the app is open; failed loads are retried
+const schemaCache = new Map<string, Promise<NodeSchema | null>>();
+
+/**
+ * The properties and credential types of a node type version, or null when
+ * no schema has been synced for it (the form then falls back to raw JSON).
+ */
+export async function fetchParameterSchema(
+  nodeType: string,
+  typeVersion: number
+): Promise<
+  | { success: true; schema: NodeSchema | null }
+  | { success: false; error: string }
+> {
+  const key = `${nodeType}@${typeVersion}`;
+  if (!schemaCache.has(key)) {
+    schemaCache.set(
+      key,
+      fetch(
+        `/api/node-schema?type=${encodeURIComponent(nodeType)}&version=${typeVersion}`
+      ).then(async (res) => {
+        if (res.status === 404) return null;
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        return data as NodeSchema;
+      })
+    );
+  }
+  try {
+    return { success: true, schema: await schemaCache.get(key)! };
+  } catch (err) {
+    schemaCache.delete(key);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load parameter schema",
+    };
+  }
+}
+
+// Likewise for the latest typeVersion of each node type
+const latestVersionCache = new Map<string, Promise<number | null>>();
+
+/**
+ * The latest synced typeVersion of a node type — the one the workflow
+ * validator expects — or null when its docs haven't been synced.
+ */
+export async function fetchLatestTypeVersion(
+  nodeType: string
+): Promise<
+  | { success: true; typeVersion: number | null }
+  | { success: false; error: string }
+> {
+  if (!latestVersionCache.has(nodeType)) {
+    latestVersionCache.set(
+      nodeType,
+      fetch(`/api/node-schema?type=${encodeURIComponent(nodeType)}&version=latest`).then(
+        async (res) => {
+          if (res.status === 404) return null;
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+          return data.typeVersion as number;
+        }
+      )
+    );
+  }
+  try {
+    return { success: true, typeVersion: await latestVersionCache.get(nodeType)! };
+  } catch (err) {
+    latestVersionCache.delete(nodeType);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load the latest typeVersion",
+    };
+  }
+}
+
+/**
+ * The properties n8n would show for the current values, in schema order.
+ * A name can be declared several times (once per resource/operation); the
+ * first visible declaration wins. `scope` holds the values displayOptions
+ * are checked against — inside a collection, its own values over the node's.
+ */
+export function visibleProperties(
+  properties: NodePropertySchema[],
+  scope: Record<string, unknown>,
+  typeVersion: number
+): NodePropertySchema[] {
+  const seen = new Set<string>();
+  return properties.filter((p) => {
+    if (p.type === "hidden" || seen.has(p.name)) return false;
+    if (!isPropertyVisible(p.displayOptions, scope, properties, typeVersion)) {
+      return false;
+    }
+    seen.add(p.name);
+    return true;
+  });
+}
+
+/**
+ * Drop values whose every declaration is hidden by the current values, as
+ * n8n does when e.g. the resource changes, and option values the now visible
+ * declaration doesn't offer (so they fall back to its default). Repeats until
+ * stable, since a dropped value can hide others. Keys the schema doesn't
+ * know are kept.
+ */
+export function pruneHiddenParameters(
+  parameters: Record<string, unknown>,
+  properties: NodePropertySchema[],
+  typeVersion: number
+): Record<string, unknown> {
+  let current = parameters;
+  for (;;) {
+    const next = Object.fromEntries(
+      Object.entries(current).filter(([name]) => {
+        const declarations = properties.filter((p) => p.name === name);
+        if (declarations.length === 0) return true;
+        const visible = declarations.find((p) =>
+          isPropertyVisible(p.displayOptions, current, properties, typeVersion)
+        );
+        if (!visible) return false;
+        const value = current[name];
+        return (
+          visible.type !== "options" ||
+          !visible.options?.length ||
+          isExpression(value) ||
+          visible.options.some((o) => o.value === value)
+        );
+      })
+    );
+    if (Object.keys(next).length === Object.keys(current).length) return next;
+    current = next;
+  }
+}
+
+/** Value for a field the user adds to a collection or a new entry. */
+export function initialValue(property: NodePropertySchema): unknown {
+  if (property.default !== undefined) return structuredClone(property.default);
+  switch (property.type) {
+    case "number":
+      return 0;
+    case "boolean":
+      return false;
+    case "options":
+      return property.options?.[0]?.value ?? "";
+    case "multiOptions":
+      return [];
+    case "collection":
+    case "fixedCollection":
+      return {};
+    default:
+      return "";
+  }
+}
+
+/**
+ * Whether a fixedCollection keeps a list of entries per group. Schemas synced
+ * before the flag was recorded don't have it, so an existing list counts too.
+ */
+export function hasMultipleValues(
+  property: NodePropertySchema,
+  value: Record<string, unknown>
+): boolean {
+  return (
+    !!property.multipleValues ||
+    Object.values(value).some((group) => Array.isArray(group))
+  );
+}
+
+/** Whether a string field holds code and gets the code editor. */
+export function isCodeField(property: NodePropertySchema, nodeType: string): boolean {
+  return !!property.editor || !!CODE_FIELDS[nodeType]?.includes(property.name);
+}
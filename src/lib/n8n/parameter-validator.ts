@@ -0,0 +1,220 @@
+import type {
+  DisplayConditionValue,
+  DisplayOptions,
+  NodePropertySchema,
+} from "./types";
+
+export interface ParameterIssue {
+  code: "unknown_parameter" | "invalid_option_value" | "missing_required_parameter";
+  // Dotted path of the parameter, e.g. "options.timeout"
+  parameter: string;
+  message: string;
+  fix?: string;
+}
+
+// How many allowed values to list in an invalid-option message
+const MAX_LISTED_OPTIONS = 12;
+
+function isExpression(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith("=");
+}
+
+/**
+ * Pick the stored schema whose version group includes `typeVersion`.
+ */
+export function pickSchemaForVersion<T extends { typeVersions: number[] }>(
+  schemas: T[],
+  typeVersion: number
+): T | undefined {
+  return schemas.find((s) => s.typeVersions.includes(typeVersion));
+}
+
+// ── displayOptions ──
+
+function matchesCondition(actual: unknown, condition: DisplayConditionValue): boolean {
+  if (typeof condition !== "object" || condition === null) {
+    return Array.isArray(actual) ? actual.includes(condition) : actual === condition;
+  }
+  const [op, expected] = Object.entries(condition._cnd)[0] ?? [];
+  const n = actual as number;
+  const s = String(actual ?? "");
+  switch (op) {
+    case "eq":
+      return actual === expected;
+    case "not":
+      return actual !== expected;
+    case "gte":
+      return n >= (expected as number);
+    case "lte":
+      return n <= (expected as number);
+    case "gt":
+      return n > (expected as number);
+    case "lt":
+      return n < (expected as number);
+    case "between": {
+      const { from, to } = expected as { from: number; to: number };
+      return n >= from && n <= to;
+    }
+    case "startsWith":
+      return s.startsWith(String(expected));
+    case "endsWith":
+      return s.endsWith(String(expected));
+    case "includes":
+      return s.includes(String(expected));
+    case "regex":
+      return new RegExp(String(expected)).test(s);
+    case "exists":
+      return actual !== undefined && actual !== "";
+    default:
+      // Unknown operator: don't hide anything on its account
+      return true;
+  }
+}
+
+/**
+ * Whether n8n would show a property given the node's current parameters,
+ * evaluating its displayOptions show/hide conditions. Values that aren't set
+ * fall back to the controlling property's default; `@version` is the node's
+ * typeVersion. Conditions on expression values are treated as satisfied.
+ */
+export function isPropertyVisible(
+  displayOptions: DisplayOptions | undefined,
+  parameters: Record<string, unknown>,
+  properties: NodePropertySchema[],
+  typeVersion: number
+): boolean {
+  if (!displayOptions) return true;
+
+  const resolve = (key: string): unknown => {
+    if (key === "@version") return typeVersion;
+    const name = key.replace(/^\//, "");
+    if (name in parameters) return parameters[name];
+    return properties.find((p) => p.name === name && p.default !== undefined)
+      ?.default;
+  };
+  const satisfied = (key: string, conditions: DisplayConditionValue[]) => {
+    const actual = resolve(key);
+    return isExpression(actual) || conditions.some((c) => matchesCondition(actual, c));
+  };
+
+  for (const [key, conditions] of Object.entries(displayOptions.show ?? {})) {
+    if (!satisfied(key, conditions)) return false;
+  }
+  for (const [key, conditions] of Object.entries(displayOptions.hide ?? {})) {
+    if (!isExpression(resolve(key)) && satisfied(key, conditions)) return false;
+  }
+  return true;
+}
+
+// ── Validation ──
+
+function checkOptionValue(
+  path: string,
+  value: unknown,
+  candidates: NodePropertySchema[]
+): ParameterIssue | null {
+  const allowed = candidates.flatMap((p) => p.options ?? []);
+  if (allowed.length === 0) return null;
+  const values = Array.isArray(value) ? value : [value];
+  const invalid = values.filter(
+    (v) => !isExpression(v) && !allowed.some((o) => o.value === v)
+  );
+  if (invalid.length === 0) return null;
+
+  const listed = [...new Set(allowed.map((o) => JSON.stringify(o.value)))];
+  return {
+    code: "invalid_option_value",
+    parameter: path,
+    message: `"${path}" is ${invalid.map((v) => JSON.stringify(v)).join(", ")}, which is not an allowed value.`,
+    fix:
+      `Use one of: ${listed.slice(0, MAX_LISTED_OPTIONS).join(", ")}` +
+      (listed.length > MAX_LISTED_OPTIONS ? ", …" : ""),
+  };
+}
+
+function checkNestedKeys(
+  path: string,
+  value: unknown,
+  property: NodePropertySchema
+): ParameterIssue[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [];
+  }
+  const known =
+    property.type === "collection"
+      ? (property.values ?? []).map((v) => v.name)
+      : (property.groups ?? []).map((g) => g.name);
+  if (known.length === 0) return [];
+
+  return Object.keys(value)
+    .filter((key) => !known.includes(key))
+    .map((key) => ({
+      code: "unknown_parameter" as const,
+      parameter: `${path}.${key}`,
+      message: `"${path}" has no field "${key}".`,
+      fix: `Valid fields are: ${known.join(", ")}.`,
+    }));
+}
+
+/**
+ * Check a node's `parameters` against its ingested property schema, reporting
+ * unknown keys, option values outside the allowed set and missing required
+ * fields. Only properties visible under the current parameters are considered.
+ */
+export function validateNodeParameters(
+  parameters: Record<string, unknown>,
+  properties: NodePropertySchema[],
+  typeVersion: number
+): ParameterIssue[] {
+  const issues: ParameterIssue[] = [];
+  // The same name can be declared several times, e.g. one "operation" per resource
+  const visible = properties.filter((p) =>
+    isPropertyVisible(p.displayOptions, parameters, properties, typeVersion)
+  );
+
+  for (const [key, value] of Object.entries(parameters)) {
+    if (!properties.some((p) => p.name === key)) {
+      issues.push({
+        code: "unknown_parameter",
+        parameter: key,
+        message: `"${key}" is not a parameter of this node.`,
+        fix: "Remove it, or check the parameter name with getNodeDetails.",
+      });
+      continue;
+    }
+    const candidates = visible.filter((p) => p.name === key);
+    // Set but hidden under the current resource/operation; n8n ignores it
+    if (candidates.length === 0 || isExpression(value)) continue;
+
+    if (candidates.some((p) => p.type === "options" || p.type === "multiOptions")) {
+      const issue = checkOptionValue(key, value, candidates);
+      if (issue) issues.push(issue);
+    }
+    const nested = candidates.find(
+      (p) => p.type === "collection" || p.type === "fixedCollection"
+    );
+    if (nested) issues.push(...checkNestedKeys(key, value, nested));
+  }
+
+  const reported = new Set<string>();
+  for (const property of visible) {
+    if (!property.required || reported.has(property.name)) continue;
+    const value = parameters[property.name];
+    const missing =
+      value === ""
+        ? true
+        : value === undefined &&
+          (property.default === undefined || property.default === "");
+    if (missing) {
+      reported.add(property.name);
+      issues.push({
+        code: "missing_required_parameter",
+        parameter: property.name,
+        message: `Required parameter "${property.name}" (${property.displayName}) is not set.`,
+        fix: `Set "${property.name}".`,
+      });
+    }
+  }
+
+  return issues;
+}
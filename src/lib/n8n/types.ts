@@ -9,23 +9,130 @@ export interface N8nNode {
   position: [number, number]; // [x, y] coordinates
   parameters: Record<string, unknown>;
   credentials?: Record<string, { id: string; name: string }>;
+  webhookId?: string;
+  disabled?: boolean;
+  notes?: string;
+  notesInFlow?: boolean;
+  onError?: "stopWorkflow" | "continueRegularOutput" | "continueErrorOutput";
+  retryOnFail?: boolean;
+  maxTries?: number;
+  waitBetweenTries?: number;
+  alwaysOutputData?: boolean;
+  executeOnce?: boolean;
+  // n8n adds fields over time; anything else on the node is carried through untouched
+  [key: string]: unknown;
 }
 
+// Every connection type n8n knows about. "main" carries items between nodes;
+// the ai_* types wire LangChain sub-nodes (models, memory, tools…) into a root node.
+export const N8N_CONNECTION_TYPES = [
+  "main",
+  "ai_agent",
+  "ai_chain",
+  "ai_document",
+  "ai_embedding",
+  "ai_languageModel",
+  "ai_memory",
+  "ai_outputParser",
+  "ai_retriever",
+  "ai_reranker",
+  "ai_textSplitter",
+  "ai_tool",
+  "ai_vectorStore",
+] as const;
+
+export type N8nConnectionType = (typeof N8N_CONNECTION_TYPES)[number];
+
 export interface N8nConnection {
   node: string; // target node name
-  type: "main";
+  type: N8nConnectionType;
   index: number; // input index on target node
 }
 
-// connections map: sourceNodeName -> { main: [[connections from output 0], [connections from output 1]] }
+// Outgoing connections of one node, keyed by connection type:
+// { main: [[connections from output 0], [connections from output 1]], ai_tool: [[...]] }
+export type N8nNodeConnections = Partial<
+  Record<N8nConnectionType, N8nConnection[][]>
+>;
+
+// connections map: sourceNodeName -> N8nNodeConnections
+export type N8nConnections = Record<string, N8nNodeConnections>;
+
+// Sample output pinned on a node, keyed by node name in `pinData`. Saved in
+// the browser per workflow (see pin-data.ts): n8n's public API doesn't store it
+export interface PinnedItem {
+  json: Record<string, unknown>;
+}
+
+export type N8nPinData = Record<string, PinnedItem[]>;
+
 export interface N8nWorkflow {
   id?: string;
   name: string;
   nodes: N8nNode[];
-  connections: Record<string, { main: N8nConnection[][] }>;
+  connections: N8nConnections;
   active: boolean;
   settings: Record<string, unknown>;
   tags?: Array<{ id: string; name: string }>;
+  pinData?: N8nPinData;
+  staticData?: Record<string, unknown> | null;
+  meta?: Record<string, unknown> | null;
+  versionId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// ── Node parameter schema (from n8n's published node descriptions) ──
+
+// A displayOptions condition value: a literal, or n8n's `{ _cnd: { gte: 2 } }` form
+export type DisplayConditionValue =
+  | string
+  | number
+  | boolean
+  | { _cnd: Record<string, unknown> };
+
+export interface DisplayOptions {
+  show?: Record<string, DisplayConditionValue[]>;
+  hide?: Record<string, DisplayConditionValue[]>;
+}
+
+export interface NodePropertyOption {
+  name: string; // label shown in the n8n UI
+  value: string | number | boolean;
+}
+
+export interface NodePropertySchema {
+  name: string;
+  displayName: string;
+  type: string; // "string" | "number" | "boolean" | "options" | "multiOptions" | "collection" | "fixedCollection" | …
+  default?: unknown;
+  required?: boolean;
+  displayOptions?: DisplayOptions;
+  // type "options" / "multiOptions": the allowed values
+  options?: NodePropertyOption[];
+  // type "collection": the optional fields it may contain
+  values?: NodePropertySchema[];
+  // type "fixedCollection": named groups of fields
+  groups?: Array<{ name: string; displayName: string; values: NodePropertySchema[] }>;
+  // type "fixedCollection": each group holds a list of entries, not one
+  multipleValues?: boolean;
+  // Code or query editor the field opens in, e.g. "codeNodeEditor", "sqlEditor"
+  editor?: string;
+}
+
+/** A credential type a node can use, from its n8n node description. */
+export interface NodeCredentialRequirement {
+  name: string; // credential type, e.g. "slackOAuth2Api"
+  required?: boolean;
+  // Usually tied to the node's "authentication" parameter
+  displayOptions?: DisplayOptions;
+}
+
+/** A credential stored in n8n. Its secret data is never returned by the API. */
+export interface N8nCredential {
+  id: string;
+  name: string;
+  type: string; // credential type, e.g. "slackOAuth2Api"
   createdAt?: string;
   updatedAt?: string;
 }
@@ -33,8 +140,16 @@ export interface N8nWorkflow {
 export interface N8nExecution {
   id: string;
   finished: boolean;
-  mode: "manual" | "trigger" | "webhook";
-  status: "success" | "error" | "running" | "waiting" | "new" | "unknown";
+  mode: "manual" | "trigger" | "webhook" | "retry" | "integrated" | "internal";
+  status:
+    | "success"
+    | "error"
+    | "running"
+    | "waiting"
+    | "new"
+    | "canceled"
+    | "crashed"
+    | "unknown";
   startedAt: string;
   stoppedAt?: string;
   workflowId: string;
@@ -42,26 +157,101 @@ export interface N8nExecution {
     resultData: {
       runData: Record<string, NodeExecutionResult[]>;
       error?: { message: string; description?: string };
+      lastNodeExecuted?: string;
     };
   };
+  // The workflow as it was when the execution ran
+  workflowData?: Pick<N8nWorkflow, "name" | "nodes" | "connections">;
 }
 
-// Per-node execution result
+// Per-node execution result (one per run; nodes in loops run more than once)
 export interface NodeExecutionResult {
   startTime: number;
   executionTime: number; // milliseconds
-  // data.main[outputIndex][itemIndex]
+  // data.main[outputIndex][itemIndex]; null for outputs that sent nothing
   data: {
-    main: Array<Array<{ json: Record<string, unknown>; binary?: Record<string, unknown> }>>;
+    main: Array<Array<{
+      json: Record<string, unknown>;
+      binary?: Record<string, N8nBinaryData>;
+    }> | null>;
   };
+  // Where each input's items came from, by input index
+  source?: Array<NodeRunSource | null>;
   error?: { message: string; description?: string };
 }
 
-export type NodeExecutionStatus = "idle" | "pending" | "running" | "success" | "error";
+export interface NodeRunSource {
+  previousNode: string;
+  previousNodeOutput?: number;
+  previousNodeRun?: number;
+}
+
+// A binary property on an execution item
+export interface N8nBinaryData {
+  mimeType: string;
+  fileName?: string;
+  fileExtension?: string;
+  fileSize?: string; // human readable, e.g. "12.4 kB"
+  // Base64 content in n8n's default mode; a storage marker otherwise
+  data?: string;
+  // Set when the content lives in external storage (filesystem/S3 mode)
+  id?: string;
+}
+
+// ── Node I/O as shown in the UI ──
+
+// Binary metadata without the content itself
+export interface BinaryMetadata {
+  mimeType: string;
+  fileName?: string;
+  fileExtension?: string;
+  fileSize?: string;
+  // Whether the content is kept in the execution and can be fetched through the API
+  downloadable: boolean;
+}
+
+// n8n's pairedItem: the input item an output item was made from
+export interface PairedItem {
+  item: number;
+  // Input index, 0 when omitted
+  input?: number;
+}
+
+export interface ExecutionItem {
+  json: Record<string, unknown>;
+  binary?: Record<string, BinaryMetadata>;
+  // Only dry runs track it; see simulateWorkflow
+  pairedItem?: PairedItem | PairedItem[];
+}
+
+export interface NodeRunOutput {
+  runIndex: number;
+  executionTime: number;
+  error?: string;
+  errorDescription?: string;
+  source: Array<NodeRunSource | null>;
+  // Items per output index (e.g. IF true/false, Switch branches)
+  outputs: ExecutionItem[][];
+}
+
+export interface NodeRunIO extends NodeRunOutput {
+  // Items per input index, reconstructed from upstream nodes' outputs
+  inputs: ExecutionItem[][];
+}
+
+// "skipped": not run by a dry run, which only simulates some node types
+export type NodeExecutionStatus =
+  | "idle"
+  | "pending"
+  | "running"
+  | "success"
+  | "error"
+  | "skipped";
 
 export interface NodeStatus {
   status: NodeExecutionStatus;
   itemCount?: number;
   executionTime?: number;
   error?: string;
+  skipReason?: string;
 }
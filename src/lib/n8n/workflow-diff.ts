@@ -0,0 +1,206 @@
+import type { Edge, Node } from "@xyflow/react";
+import {
+  autoLayout,
+  n8nToReactFlow,
+  parseHandleId,
+  type ReactFlowData,
+} from "./converter";
+import type {
+  N8nConnectionType,
+  N8nConnections,
+  N8nNode,
+  N8nWorkflow,
+} from "./types";
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface NodeDiff {
+  name: string;
+  status: DiffStatus;
+  // Parameter keys whose values differ (plus "type"/"typeVersion"/"credentials")
+  changedFields: string[];
+}
+
+export interface ConnectionDiff {
+  source: string;
+  target: string;
+  type: N8nConnectionType;
+  status: "added" | "removed";
+}
+
+export interface WorkflowDiff {
+  nodes: NodeDiff[];
+  connections: ConnectionDiff[];
+  summary: { added: number; removed: number; changed: number; rewired: number };
+}
+
+interface FlatConnection {
+  source: string;
+  type: N8nConnectionType;
+  output: number;
+  target: string;
+  index: number;
+}
+
+function connectionKey(c: FlatConnection): string {
+  return `${c.source}|${c.type}|${c.output}|${c.target}|${c.index}`;
+}
+
+function flattenConnections(connections: N8nConnections): FlatConnection[] {
+  const flat: FlatConnection[] = [];
+  for (const [source, conn] of Object.entries(connections)) {
+    for (const [type, outputs] of Object.entries(conn)) {
+      (outputs ?? []).forEach((targets, output) => {
+        for (const t of targets ?? []) {
+          flat.push({
+            source,
+            type: type as N8nConnectionType,
+            output,
+            target: t.node,
+            index: t.index,
+          });
+        }
+      });
+    }
+  }
+  return flat;
+}
+
+function changedFields(before: N8nNode, after: N8nNode): string[] {
+  const fields: string[] = [];
+  if (before.type !== after.type) fields.push("type");
+  if (before.typeVersion !== after.typeVersion) fields.push("typeVersion");
+  if (JSON.stringify(before.credentials) !== JSON.stringify(after.credentials)) {
+    fields.push("credentials");
+  }
+  const keys = new Set([
+    ...Object.keys(before.parameters ?? {}),
+    ...Object.keys(after.parameters ?? {}),
+  ]);
+  for (const key of keys) {
+    if (
+      JSON.stringify(before.parameters?.[key]) !==
+      JSON.stringify(after.parameters?.[key])
+    ) {
+      fields.push(key);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Compare two versions of a workflow. Nodes are matched by name, which is
+ * how n8n itself identifies them in connections.
+ */
+export function diffWorkflows(
+  base: Pick<N8nWorkflow, "nodes" | "connections">,
+  proposed: Pick<N8nWorkflow, "nodes" | "connections">
+): WorkflowDiff {
+  const baseNodes = new Map(base.nodes.map((n) => [n.name, n]));
+  const proposedNames = new Set(proposed.nodes.map((n) => n.name));
+
+  const nodes: NodeDiff[] = proposed.nodes.map((n) => {
+    const before = baseNodes.get(n.name);
+    if (!before) return { name: n.name, status: "added", changedFields: [] };
+    const fields = changedFields(before, n);
+    return {
+      name: n.name,
+      status: fields.length > 0 ? "changed" : "unchanged",
+      changedFields: fields,
+    };
+  });
+  for (const n of base.nodes) {
+    if (!proposedNames.has(n.name)) {
+      nodes.push({ name: n.name, status: "removed", changedFields: [] });
+    }
+  }
+
+  const baseConns = flattenConnections(base.connections);
+  const proposedConns = flattenConnections(proposed.connections);
+  const baseKeys = new Set(baseConns.map(connectionKey));
+  const proposedKeys = new Set(proposedConns.map(connectionKey));
+  const connections: ConnectionDiff[] = [
+    ...proposedConns
+      .filter((c) => !baseKeys.has(connectionKey(c)))
+      .map((c) => ({ source: c.source, target: c.target, type: c.type, status: "added" as const })),
+    ...baseConns
+      .filter((c) => !proposedKeys.has(connectionKey(c)))
+      .map((c) => ({ source: c.source, target: c.target, type: c.type, status: "removed" as const })),
+  ];
+
+  return {
+    nodes,
+    connections,
+    summary: {
+      added: nodes.filter((n) => n.status === "added").length,
+      removed: nodes.filter((n) => n.status === "removed").length,
+      changed: nodes.filter((n) => n.status === "changed").length,
+      rewired: connections.length,
+    },
+  };
+}
+
+/**
+ * Build the canvas overlay for a proposed change: the proposed workflow plus
+ * ghosts of removed nodes and connections, each tagged with `data.diff`.
+ */
+export function buildDiffPreview(
+  base: Pick<N8nWorkflow, "nodes" | "connections">,
+  proposed: N8nWorkflow
+): ReactFlowData & { diff: WorkflowDiff } {
+  const diff = diffWorkflows(base, proposed);
+  const proposedNames = new Set(proposed.nodes.map((n) => n.name));
+  const proposedIds = new Set(proposed.nodes.map((n) => n.id));
+  // A renamed node keeps its id, so its ghost needs one of its own
+  const removedNodes = base.nodes
+    .filter((n) => !proposedNames.has(n.name))
+    .map((n) => (proposedIds.has(n.id) ? { ...n, id: `removed-${n.id}` } : n));
+
+  // Lay the removed connections back over the proposed ones
+  const merged: N8nConnections = structuredClone(proposed.connections);
+  const proposedKeys = new Set(
+    flattenConnections(proposed.connections).map(connectionKey)
+  );
+  for (const c of flattenConnections(base.connections)) {
+    if (proposedKeys.has(connectionKey(c))) continue;
+    const outputs = ((merged[c.source] ??= {})[c.type] ??= []);
+    while (outputs.length <= c.output) outputs.push([]);
+    outputs[c.output].push({ node: c.target, type: c.type, index: c.index });
+  }
+
+  const flow = n8nToReactFlow({
+    ...proposed,
+    nodes: [...proposed.nodes, ...removedNodes],
+    connections: merged,
+  });
+  const laid = flow.nodes.every((n) => n.position.x === 0 && n.position.y === 0)
+    ? autoLayout(flow)
+    : flow;
+
+  const nodeDiffs = new Map(diff.nodes.map((d) => [d.name, d]));
+  const nodes: Node[] = laid.nodes.map((node) => ({
+    ...node,
+    draggable: false,
+    data: { ...node.data, diff: nodeDiffs.get(node.data.label as string) },
+  }));
+
+  const idToName = new Map(nodes.map((n) => [n.id, n.data.label as string]));
+  const baseKeys = new Set(flattenConnections(base.connections).map(connectionKey));
+  const edges: Edge[] = laid.edges.map((edge) => {
+    const key = connectionKey({
+      source: idToName.get(edge.source) ?? "",
+      type: edge.data?.connectionType as N8nConnectionType,
+      output: parseHandleId(edge.sourceHandle).index,
+      target: idToName.get(edge.target) ?? "",
+      index: parseHandleId(edge.targetHandle).index,
+    });
+    const status: DiffStatus = !proposedKeys.has(key)
+      ? "removed"
+      : baseKeys.has(key)
+        ? "unchanged"
+        : "added";
+    return { ...edge, data: { ...edge.data, diff: status } };
+  });
+
+  return { nodes, edges, diff };
+}
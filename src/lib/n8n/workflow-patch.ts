@@ -0,0 +1,280 @@
+import { renameNodeInWorkflow, type RenameReport } from "./node-rename";
+import { pruneHiddenParameters } from "./parameter-form";
+import type {
+  N8nConnectionType,
+  N8nNode,
+  N8nWorkflow,
+  NodeCredentialRequirement,
+  NodePropertySchema,
+} from "./types";
+
+/**
+ * Small, typed edits to a workflow, so a change to a large workflow doesn't
+ * require resending every node. A patch is applied to a copy as a whole: if
+ * any operation fails, none of them take effect.
+ */
+
+export type WorkflowPatchOperation =
+  | {
+      op: "setParameter";
+      node: string;
+      // e.g. "text", "options.timeout" or "assignments.assignments[0].value"
+      path: string;
+      // Omitted to remove the parameter
+      value?: unknown;
+    }
+  | { op: "renameNode"; node: string; newName: string }
+  | {
+      op: "connect" | "disconnect";
+      from: string;
+      to: string;
+      type?: N8nConnectionType;
+      // For disconnect, omitted to match any index
+      outputIndex?: number;
+      inputIndex?: number;
+    }
+  | { op: "moveNode"; node: string; position: { x: number; y: number } }
+  | {
+      op: "replaceNodeType";
+      node: string;
+      type: string;
+      typeVersion: number;
+      // Set after the migrated parameters, e.g. ones the new type names differently
+      parameters?: Record<string, unknown>;
+    };
+
+export type PatchableWorkflow = Pick<N8nWorkflow, "nodes" | "connections" | "pinData">;
+
+/** The synced schema of a node type version, for replaceNodeType. */
+export type PatchSchemaLookup = (
+  nodeType: string,
+  typeVersion: number
+) =>
+  | { properties: NodePropertySchema[]; credentials?: NodeCredentialRequirement[] }
+  | undefined;
+
+export class WorkflowPatchError extends Error {
+  constructor(
+    message: string,
+    public readonly operationIndex: number
+  ) {
+    super(`Operation ${operationIndex + 1}: ${message}`);
+    this.name = "WorkflowPatchError";
+  }
+}
+
+/**
+ * Apply every operation in order and describe what each did, with what each
+ * rename rewrote. Throws a WorkflowPatchError naming the first operation
+ * that can't be applied.
+ */
+export function applyWorkflowPatch(
+  workflow: PatchableWorkflow,
+  operations: WorkflowPatchOperation[],
+  getSchema?: PatchSchemaLookup
+): { workflow: PatchableWorkflow; summary: string[]; renames: RenameReport[] } {
+  let current: PatchableWorkflow = structuredClone(workflow);
+  const summary: string[] = [];
+  const renames: RenameReport[] = [];
+  operations.forEach((operation, i) => {
+    try {
+      const result = applyOperation(current, operation, getSchema);
+      current = result.workflow;
+      summary.push(result.summary);
+      if (result.rename) renames.push(result.rename);
+    } catch (err) {
+      throw new WorkflowPatchError(err instanceof Error ? err.message : String(err), i);
+    }
+  });
+  return { workflow: current, summary, renames };
+}
+
+function applyOperation(
+  workflow: PatchableWorkflow,
+  operation: WorkflowPatchOperation,
+  getSchema?: PatchSchemaLookup
+): { workflow: PatchableWorkflow; summary: string; rename?: RenameReport } {
+  switch (operation.op) {
+    case "setParameter": {
+      const node = findNode(workflow, operation.node);
+      node.parameters = setAtPath(
+        node.parameters ?? {},
+        parsePath(operation.path),
+        operation.value
+      ) as Record<string, unknown>;
+      return {
+        workflow,
+        summary:
+          operation.value === undefined
+            ? `Removed ${operation.path} from "${node.name}"`
+            : `Set ${operation.path} on "${node.name}"`,
+      };
+    }
+
+    case "renameNode": {
+      const newName = operation.newName.trim();
+      if (!newName) throw new Error("newName is empty");
+      findNode(workflow, operation.node);
+      if (workflow.nodes.some((n) => n.name === newName)) {
+        throw new Error(`A node named "${newName}" already exists`);
+      }
+      const { workflow: renamed, report } = renameNodeInWorkflow(
+        workflow,
+        operation.node,
+        newName
+      );
+      const count = report.expressions.length;
+      return {
+        workflow: renamed,
+        summary:
+          `Renamed "${operation.node}" to "${newName}"` +
+          (count > 0 ? `, updating ${count} expression${count !== 1 ? "s" : ""}` : ""),
+        rename: report,
+      };
+    }
+
+    case "connect": {
+      findNode(workflow, operation.from);
+      findNode(workflow, operation.to);
+      const type = operation.type ?? "main";
+      const outputIndex = operation.outputIndex ?? 0;
+      const inputIndex = operation.inputIndex ?? 0;
+      const source = (workflow.connections[operation.from] ??= {});
+      const outputs = (source[type] ??= []);
+      while (outputs.length <= outputIndex) outputs.push([]);
+      const exists = outputs[outputIndex].some(
+        (c) => c.node === operation.to && c.index === inputIndex
+      );
+      if (!exists) {
+        outputs[outputIndex].push({ node: operation.to, type, index: inputIndex });
+      }
+      return {
+        workflow,
+        summary:
+          `Connected "${operation.from}" to "${operation.to}"` +
+          (exists ? " (already connected)" : ""),
+      };
+    }
+
+    case "disconnect": {
+      const type = operation.type ?? "main";
+      const outputs = workflow.connections[operation.from]?.[type] ?? [];
+      let removed = 0;
+      outputs.forEach((connections, outputIndex) => {
+        if (operation.outputIndex !== undefined && operation.outputIndex !== outputIndex) {
+          return;
+        }
+        outputs[outputIndex] = connections.filter((c) => {
+          const matches =
+            c.node === operation.to &&
+            (operation.inputIndex === undefined || c.index === operation.inputIndex);
+          if (matches) removed++;
+          return !matches;
+        });
+      });
+      if (removed === 0) {
+        throw new Error(`"${operation.from}" has no ${type} connection to "${operation.to}"`);
+      }
+      return {
+        workflow,
+        summary: `Disconnected "${operation.from}" from "${operation.to}"`,
+      };
+    }
+
+    case "moveNode": {
+      const node = findNode(workflow, operation.node);
+      node.position = [operation.position.x, operation.position.y];
+      return { workflow, summary: `Moved "${node.name}"` };
+    }
+
+    case "replaceNodeType": {
+      const node = findNode(workflow, operation.node);
+      const schema = getSchema?.(operation.type, operation.typeVersion);
+      const dropped: string[] = [];
+      let parameters = node.parameters ?? {};
+      if (schema) {
+        // Keep what the new type also declares; it hides or ignores the rest
+        const known = new Set(schema.properties.map((p) => p.name));
+        parameters = Object.fromEntries(
+          Object.entries(parameters).filter(([name]) => {
+            if (!known.has(name)) dropped.push(name);
+            return known.has(name);
+          })
+        );
+        const accepted = new Set(schema.credentials?.map((c) => c.name) ?? []);
+        node.credentials = Object.fromEntries(
+          Object.entries(node.credentials ?? {}).filter(([type]) => accepted.has(type))
+        );
+        if (Object.keys(node.credentials).length === 0) delete node.credentials;
+      }
+      parameters = { ...parameters, ...operation.parameters };
+      if (schema) {
+        const pruned = pruneHiddenParameters(parameters, schema.properties, operation.typeVersion);
+        dropped.push(...Object.keys(parameters).filter((name) => !(name in pruned)));
+        parameters = pruned;
+      }
+      const previous = node.type;
+      node.type = operation.type;
+      node.typeVersion = operation.typeVersion;
+      node.parameters = parameters;
+      return {
+        workflow,
+        summary:
+          `Changed "${node.name}" from ${previous} to ${operation.type} v${operation.typeVersion}` +
+          (dropped.length > 0 ? `, dropping parameters: ${dropped.join(", ")}` : "") +
+          (schema ? "" : " (no synced schema, parameters kept as they were)"),
+      };
+    }
+  }
+}
+
+function findNode(workflow: PatchableWorkflow, name: string): N8nNode {
+  const node = workflow.nodes.find((n) => n.name === name);
+  if (!node) throw new Error(`No node named "${name}"`);
+  return node;
+}
+
+// ── Parameter paths ──
+
+/** "a.b[0].c" or "a.b.0.c" → ["a", "b", 0, "c"] */
+function parsePath(path: string): Array<string | number> {
+  const segments = path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter((s) => s !== "");
+  if (segments.length === 0) throw new Error("path is empty");
+  return segments.map((s) => (/^\d+$/.test(s) ? Number(s) : s));
+}
+
+function setAtPath(
+  target: unknown,
+  path: Array<string | number>,
+  value: unknown,
+  at = 0
+): unknown {
+  if (at === path.length) return value;
+  const key = path[at];
+  const isLast = at === path.length - 1;
+  if (Array.isArray(target) || (target === undefined && typeof key === "number")) {
+    if (typeof key !== "number") {
+      throw new Error(`${path.slice(0, at).join(".")} is a list; use an index`);
+    }
+    const array = [...((target as unknown[] | undefined) ?? [])];
+    // A gap would be saved as null entries; the length itself appends
+    if (key > array.length) {
+      throw new Error(
+        `${path.slice(0, at + 1).join(".")} is past the end of a list of ${array.length}`
+      );
+    }
+    if (isLast && value === undefined) array.splice(key, 1);
+    else array[key] = setAtPath(array[key], path, value, at + 1);
+    return array;
+  }
+  if (target !== undefined && (target === null || typeof target !== "object")) {
+    throw new Error(`${path.slice(0, at).join(".")} is not an object`);
+  }
+  const object = { ...(target as Record<string, unknown> | undefined) };
+  if (isLast && value === undefined) delete object[key];
+  else object[key] = setAtPath(object[key], path, value, at + 1);
+  return object;
+}
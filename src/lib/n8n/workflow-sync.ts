@@ -0,0 +1,108 @@
+import type { AppSettings } from "@/contexts/settings-context";
+import { useWorkflowStore } from "@/stores/workflow-store";
+import { reactFlowToN8n } from "./converter";
+import type { N8nWorkflow } from "./types";
+
+export type SaveWorkflowResult =
+  | { success: true; workflow: N8nWorkflow }
+  | { success: false; conflict: boolean; error: string };
+
+/**
+ * Save the canvas back to n8n.
+ *
+ * Uses the loaded workflow's `updatedAt` for optimistic concurrency: if the
+ * workflow was changed in the n8n UI since it was loaded, the save is refused
+ * with `conflict: true` unless `force` is set.
+ */
+export async function saveWorkflow(
+  settings: AppSettings,
+  options?: { force?: boolean }
+): Promise<SaveWorkflowResult> {
+  const { workflow, nodes, edges, setWorkflow } = useWorkflowStore.getState();
+  if (!workflow?.id) {
+    return { success: false, conflict: false, error: "No workflow to save" };
+  }
+
+  const saved = reactFlowToN8n(nodes, edges, workflow);
+  const result = await putWorkflow(
+    settings,
+    workflow.id,
+    saved,
+    options?.force ? undefined : workflow.updatedAt
+  );
+  if (result.success) setWorkflow(keepPinData(result.workflow, saved));
+  return result;
+}
+
+/**
+ * Push the pending AI proposal to n8n and load the result onto the canvas.
+ * Refused with `conflict: true` if n8n changed since the proposal was made.
+ */
+export async function applyProposal(
+  settings: AppSettings
+): Promise<SaveWorkflowResult> {
+  const { proposal, workflow, setWorkflow } = useWorkflowStore.getState();
+  if (!proposal?.workflow.id) {
+    return { success: false, conflict: false, error: "No change to apply" };
+  }
+
+  const result = await putWorkflow(
+    settings,
+    proposal.workflow.id,
+    proposal.workflow,
+    proposal.baseUpdatedAt
+  );
+  if (result.success) {
+    setWorkflow(keepPinData(result.workflow, workflow), `AI: ${proposal.toolName}`);
+  }
+  return result;
+}
+
+/**
+ * n8n's public API neither stores nor returns pinData, so pins live in the
+ * browser; carry them over to the saved copy rather than dropping them.
+ */
+function keepPinData(
+  updated: N8nWorkflow,
+  previous: N8nWorkflow | null
+): N8nWorkflow {
+  if (updated.pinData || !previous?.pinData || previous.id !== updated.id) {
+    return updated;
+  }
+  return { ...updated, pinData: previous.pinData };
+}
+
+async function putWorkflow(
+  settings: AppSettings,
+  id: string,
+  workflow: N8nWorkflow,
+  expectedUpdatedAt: string | undefined
+): Promise<SaveWorkflowResult> {
+  try {
+    const res = await fetch(`/api/n8n/workflows/${id}`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        "x-n8n-key": settings.n8nApiKey,
+        "x-n8n-url": settings.n8nBaseUrl,
+      },
+      body: JSON.stringify({ workflow, expectedUpdatedAt }),
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+      return {
+        success: false,
+        conflict: res.status === 409,
+        error: data.error || `Save failed (HTTP ${res.status})`,
+      };
+    }
+    return { success: true, workflow: data as N8nWorkflow };
+  } catch (err) {
+    return {
+      success: false,
+      conflict: false,
+      error: err instanceof Error ? err.message : "Save failed",
+    };
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  getRequiredAiInputs,
+  getSubNodeOutputType,
+  isTriggerNode,
+  NODE_REGISTRY,
+} from "./node-registry";
+import { validateNodeParameters } from "./parameter-validator";
+import { lintWorkflowExpressions } from "./expression-linter";
+import type {
+  N8nConnectionType,
+  N8nWorkflow,
+  NodePropertySchema,
+} from "./types";
+
+export type ValidationCode =
+  | "duplicate_name"
+  | "duplicate_id"
+  | "unknown_source"
+  | "unknown_target"
+  | "no_trigger"
+  | "multiple_triggers"
+  | "orphaned_node"
+  | "unknown_node_type"
+  | "invalid_type_version"
+  | "missing_ai_input"
+  | "unattached_sub_node"
+  | "wrong_connection_type"
+  | "unknown_parameter"
+  | "invalid_option_value"
+  | "missing_required_parameter"
+  | "expression_syntax_error"
+  | "unknown_node_reference"
+  | "node_reference_not_upstream";
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: "error" | "warning";
+  message: string;
+  // Name of the node the issue is about, when there is one
+  node?: string;
+  // How to fix it, phrased for the model
+  fix?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface ValidateOptions {
+  /**
+   * Latest known typeVersion per node type (from the ingested node docs).
+   * When omitted, node types and versions are not checked.
+   */
+  nodeTypeVersions?: Map<string, number>;
+  /**
+   * Every ingested typeVersion per node type (from the parameter schemas).
+   * A node of a type listed here must use one of them; other types are only
+   * checked against the latest version.
+   */
+  knownTypeVersions?: Map<string, number[]>;
+  /**
+   * Ingested parameter schema for a node type at a given typeVersion.
+   * When omitted, or when it returns nothing, parameters are not checked.
+   */
+  getParameterSchema?: (
+    nodeType: string,
+    typeVersion: number
+  ) => NodePropertySchema[] | undefined;
+}
+
+const STICKY_NOTE_TYPE = "n8n-nodes-base.stickyNote";
+
+/**
+ * Statically check a workflow before it is sent to n8n, so the model gets
+ * issues it can fix in its next step instead of a bare HTTP 400.
+ */
+export function validateWorkflow(
+  workflow: Pick<N8nWorkflow, "nodes" | "connections">,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const error = (issue: Omit<ValidationIssue, "severity">) =>
+    issues.push({ ...issue, severity: "error" });
+  const warning = (issue: Omit<ValidationIssue, "severity">) =>
+    issues.push({ ...issue, severity: "warning" });
+
+  const nodes = workflow.nodes.filter((n) => n.type !== STICKY_NOTE_TYPE);
+
+  // ── Unique names and ids ──
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  for (const node of workflow.nodes) {
+    if (names.has(node.name)) {
+      error({
+        code: "duplicate_name",
+        node: node.name,
+        message: `More than one node is named "${node.name}".`,
+        fix: "Give every node a unique name and update connections to match.",
+      });
+    }
+    names.add(node.name);
+    if (ids.has(node.id)) {
+      error({
+        code: "duplicate_id",
+        node: node.name,
+        message: `Node id "${node.id}" is used by more than one node.`,
+        fix: "Generate a fresh UUID for each node.",
+      });
+    }
+    ids.add(node.id);
+  }
+
+  // ── Referential integrity of connections ──
+  // Per node: main inputs received, AI connection types received / sent
+  const mainIncoming = new Set<string>();
+  const mainOutgoing = new Set<string>();
+  const aiReceived = new Map<string, Set<N8nConnectionType>>();
+  const aiSent = new Map<string, Set<N8nConnectionType>>();
+  const typeByName = new Map(workflow.nodes.map((n) => [n.name, n.type]));
+
+  for (const [source, conn] of Object.entries(workflow.connections)) {
+    if (!names.has(source)) {
+      error({
+        code: "unknown_source",
+        node: source,
+        message: `Connections are listed under "${source}", but no node has that name.`,
+        fix: "Key connections by the exact name of an existing node, or remove them.",
+      });
+      continue;
+    }
+    for (const [rawType, outputs] of Object.entries(conn)) {
+      const type = rawType as N8nConnectionType;
+      for (const targets of outputs ?? []) {
+        for (const target of targets ?? []) {
+          if (!names.has(target.node)) {
+            error({
+              code: "unknown_target",
+              node: source,
+              message: `"${source}" connects to "${target.node}", which does not exist.`,
+              fix: "Point the connection at the exact name of an existing node.",
+            });
+            continue;
+          }
+          if (type === "main") {
+            mainOutgoing.add(source);
+            mainIncoming.add(target.node);
+            continue;
+          }
+          if (!aiReceived.has(target.node)) aiReceived.set(target.node, new Set());
+          aiReceived.get(target.node)!.add(type);
+          if (!aiSent.has(source)) aiSent.set(source, new Set());
+          aiSent.get(source)!.add(type);
+
+          const expected = getSubNodeOutputType(typeByName.get(source) ?? "");
+          if (expected && expected !== type) {
+            error({
+              code: "wrong_connection_type",
+              node: source,
+              message: `"${source}" is connected as ${type}, but it is a ${expected} sub-node.`,
+              fix: `List its connection under "${expected}" instead of "${type}".`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // ── Triggers ──
+  const triggers = nodes.filter((n) => isTriggerNode(n.type));
+  if (nodes.length > 0 && triggers.length === 0) {
+    error({
+      code: "no_trigger",
+      message: "The workflow has no trigger node, so it can never start.",
+      fix: "Add a trigger (e.g. Manual Trigger, Webhook or Schedule Trigger) and connect it to the first step.",
+    });
+  } else if (triggers.length > 1) {
+    error({
+      code: "multiple_triggers",
+      message: `The workflow has ${triggers.length} triggers (${triggers
+        .map((t) => `"${t.name}"`)
+        .join(", ")}); a workflow must have exactly one.`,
+      fix: "Keep one trigger and move each other entry point into a workflow of its own.",
+    });
+  }
+
+  // ── Per-node checks ──
+  const { nodeTypeVersions, knownTypeVersions, getParameterSchema } = options;
+  for (const node of nodes) {
+    const subNodeType = getSubNodeOutputType(node.type);
+    if (subNodeType) {
+      if (!aiSent.has(node.name)) {
+        error({
+          code: "unattached_sub_node",
+          node: node.name,
+          message: `Sub-node "${node.name}" is not attached to any root node.`,
+          fix: `Connect it to an AI Agent or chain via "${subNodeType}".`,
+        });
+      }
+    } else if (
+      !isTriggerNode(node.type) &&
+      !mainIncoming.has(node.name) &&
+      !mainOutgoing.has(node.name)
+    ) {
+      warning({
+        code: "orphaned_node",
+        node: node.name,
+        message: `"${node.name}" is not connected to anything and will never run.`,
+        fix: "Connect it into the flow or remove it.",
+      });
+    }
+
+    for (const required of getRequiredAiInputs(node.type)) {
+      if (!aiReceived.get(node.name)?.has(required)) {
+        error({
+          code: "missing_ai_input",
+          node: node.name,
+          message: `"${node.name}" needs a ${required} sub-node but none is connected.`,
+          fix: `Add a sub-node and connect it to "${node.name}" under "${required}".`,
+        });
+      }
+    }
+
+    const properties = getParameterSchema?.(node.type, node.typeVersion);
+    if (properties) {
+      for (const issue of validateNodeParameters(
+        node.parameters ?? {},
+        properties,
+        node.typeVersion
+      )) {
+        error({
+          code: issue.code,
+          node: node.name,
+          message: `"${node.name}": ${issue.message}`,
+          fix: issue.fix,
+        });
+      }
+    }
+
+    if (!nodeTypeVersions) continue;
+    const latest = nodeTypeVersions.get(node.type);
+    if (latest === undefined) {
+      // The static registry covers common nodes the docs may have missed
+      if (!NODE_REGISTRY[node.type]) {
+        error({
+          code: "unknown_node_type",
+          node: node.name,
+          message: `"${node.name}" uses node type "${node.type}", which is not a known n8n node.`,
+          fix: "Look up the correct type with getNodeDocumentation.",
+        });
+      }
+    } else {
+      const known = knownTypeVersions?.get(node.type);
+      if (known?.length && !known.includes(node.typeVersion)) {
+        error({
+          code: "invalid_type_version",
+          node: node.name,
+          message: `"${node.name}" uses typeVersion ${node.typeVersion}, which ${node.type} doesn't have (it has ${[...known]
+            .sort((a, b) => a - b)
+            .join(", ")}).`,
+          fix: `Set typeVersion to ${latest}.`,
+        });
+      } else if (!known?.length && (node.typeVersion <= 0 || node.typeVersion > latest)) {
+        error({
+          code: "invalid_type_version",
+          node: node.name,
+          message: `"${node.name}" uses typeVersion ${node.typeVersion}, but ${node.type} only goes up to ${latest}.`,
+          fix: `Set typeVersion to ${latest}.`,
+        });
+      }
+    }
+  }
+
+  // Referencing a node that runs later may still work if an earlier branch
+  // happened to execute it, so that one is only a warning
+  for (const issue of lintWorkflowExpressions({ nodes, connections: workflow.connections })) {
+    (issue.code === "node_reference_not_upstream" ? warning : error)({
+      code: issue.code,
+      node: issue.node,
+      message: `"${issue.node}" parameter "${issue.parameter}": ${issue.message}`,
+      fix: issue.fix,
+    });
+  }
+
+  const errors = issues.filter((i) => i.severity === "error");
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((i) => i.severity === "warning"),
+  };
+}
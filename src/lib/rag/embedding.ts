@@ -1,43 +1,259 @@
 import { embed, embedMany } from "ai";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { createGatewayProvider } from "@ai-sdk/gateway";
 import { createOpenAI } from "@ai-sdk/openai";
 
-// Use a dedicated OpenAI client for embeddings (uses OPENAI_API_KEY env var)
-function getEmbeddingModel() {
-  const openai = createOpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-  return openai.embedding("text-embedding-3-small");
+/**
+ * RAG embeddings come from one provider, chosen with EMBEDDING_PROVIDER:
+ * - "openai" (default): OpenAI's API with OPENAI_API_KEY
+ * - "gateway": the Vercel AI Gateway with AI_GATEWAY_API_KEY
+ * - "ollama": an Ollama-compatible /api/embed endpoint at OLLAMA_BASE_URL
+ * - "local": a deterministic in-process model, for tests and offline use
+ * EMBEDDING_MODEL and EMBEDDING_DIMENSIONS override the provider's defaults.
+ *
+ * Every stored vector records the model that produced it. Searches only
+ * compare vectors from the configured model, and a sync re-embeds rows from
+ * any other, so switching providers never mixes vector spaces.
+ */
+
+export interface EmbeddingProvider {
+  // Recorded with every vector, e.g. "openai/text-embedding-3-small"
+  model: string;
+  // Vector length, when known before anything is embedded
+  dimensions?: number;
+  // Most texts sent in one request
+  batchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: "text-embedding-3-small",
+  gateway: "openai/text-embedding-3-small",
+  ollama: "nomic-embed-text",
+  local: "hashing-v1",
+};
+
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  "openai/text-embedding-3-small": 1536,
+  "openai/text-embedding-3-large": 3072,
+  "openai/text-embedding-ada-002": 1536,
+  "ollama/nomic-embed-text": 768,
+  "ollama/mxbai-embed-large": 1024,
+  "ollama/all-minilm": 384,
+};
+
+const LOCAL_DIMENSIONS = 256;
+
+/** The embedding provider configured by environment variables. */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER || "openai";
+  const modelId = process.env.EMBEDDING_MODEL || DEFAULT_MODELS[provider];
+  const configured = Number(process.env.EMBEDDING_DIMENSIONS) || undefined;
+
+  switch (provider) {
+    case "openai":
+    case "gateway": {
+      // The gateway names models "openai/…", so the same model recorded
+      // through either provider is the same vector space
+      const model =
+        provider === "openai"
+          ? createOpenAI({ apiKey: process.env.OPENAI_API_KEY }).embeddingModel(modelId)
+          : createGatewayProvider({ apiKey: process.env.AI_GATEWAY_API_KEY }).embeddingModel(
+              modelId
+            );
+      const name = provider === "openai" ? `openai/${modelId}` : modelId;
+      // text-embedding-3 models can return shortened vectors
+      const providerOptions = configured ? { openai: { dimensions: configured } } : undefined;
+      return {
+        model: name,
+        dimensions: configured ?? KNOWN_DIMENSIONS[name],
+        // OpenAI allows max 2048 inputs per batch
+        batchSize: 512,
+        embed: async (texts) => {
+          if (texts.length === 1) {
+            const { embedding } = await embed({ model, value: texts[0], providerOptions });
+            return [embedding];
+          }
+          const { embeddings } = await embedMany({ model, values: texts, providerOptions });
+          return embeddings;
+        },
+      };
+    }
+
+    case "ollama": {
+      const baseUrl = (process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/+$/, "");
+      const name = `ollama/${modelId}`;
+      return {
+        model: name,
+        dimensions: configured ?? KNOWN_DIMENSIONS[name],
+        batchSize: 64,
+        embed: async (texts) => {
+          const res = await fetch(`${baseUrl}/api/embed`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...(process.env.OLLAMA_API_KEY
+                ? { Authorization: `Bearer ${process.env.OLLAMA_API_KEY}` }
+                : {}),
+            },
+            body: JSON.stringify({ model: modelId, input: texts, dimensions: configured }),
+          });
+          if (!res.ok) {
+            const detail = await res.text().catch(() => "");
+            throw new Error(`Ollama embedding failed: HTTP ${res.status} ${detail}`.trim());
+          }
+          const data = (await res.json()) as { embeddings?: number[][] };
+          if (data.embeddings?.length !== texts.length) {
+            throw new Error(
+              `Ollama returned ${data.embeddings?.length ?? 0} embeddings for ${texts.length} texts`
+            );
+          }
+          return data.embeddings;
+        },
+      };
+    }
+
+    case "local": {
+      const dimensions = configured ?? LOCAL_DIMENSIONS;
+      return {
+        model: `local/${modelId}-${dimensions}`,
+        dimensions,
+        batchSize: 512,
+        embed: async (texts) => texts.map((text) => hashEmbedding(text, dimensions)),
+      };
+    }
+
+    default:
+      throw new Error(
+        `Unknown EMBEDDING_PROVIDER "${provider}". Use openai, gateway, ollama or local.`
+      );
+  }
 }
 
+// ── Local model ──
+
 /**
- * Generate a single embedding vector for a text string.
+ * Feature hashing: words and their character trigrams are hashed into a
+ * fixed number of signed buckets, then normalized. Texts sharing words are
+ * close, which is enough to exercise retrieval without a network.
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const { embedding } = await embed({
-    model: getEmbeddingModel(),
-    value: text,
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = words.flatMap((word) => {
+    const padded = `#${word}#`;
+    const trigrams: string[] = [];
+    for (let i = 0; i + 3 <= padded.length; i++) trigrams.push(padded.slice(i, i + 3));
+    return [`w:${word}`, ...trigrams];
   });
-  return embedding;
+  // A zero vector has no cosine similarity to anything
+  if (features.length === 0) features.push(`t:${text}`);
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((v) => v / norm);
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// ── API ──
+
+/**
+ * Embed a search query, with the model that produced the vector so it is
+ * only compared with rows from the same model.
+ */
+export async function embedQuery(
+  text: string
+): Promise<{ embedding: number[]; model: string }> {
+  const provider = getEmbeddingProvider();
+  const [embedding] = await provider.embed([text]);
+  return { embedding, model: provider.model };
+}
+
+type EmbeddingTable = {
+  embedding: PgColumn;
+  embeddingModel: PgColumn;
+  embeddingDimensions: PgColumn;
+};
+
+/**
+ * Rows whose vectors came from `model` with this many dimensions. The
+ * length is written into the SQL so the planner can match it against the
+ * partial vector index for that length (see db/schema.ts).
+ */
+export function sameEmbeddingSpace(
+  table: Omit<EmbeddingTable, "embedding">,
+  model: string,
+  dimensions: number
+): SQL {
+  return and(
+    eq(table.embeddingModel, model),
+    sql`${table.embeddingDimensions} = ${sql.raw(String(Math.trunc(dimensions)))}`
+  )!;
+}
+
+/**
+ * Cosine distance from `query`, with the stored vector cast to the query's
+ * length as the vector index expects. Only evaluate it on rows already
+ * narrowed by sameEmbeddingSpace, in a subquery: a vector of another length
+ * can't be cast, and Postgres doesn't promise to apply a WHERE clause's
+ * conditions in order.
+ */
+export function embeddingDistance(table: EmbeddingTable, query: number[]): SQL<number> {
+  const type = sql.raw(`vector(${query.length})`);
+  return sql<number>`(${table.embedding}::${type}) <=> ${`[${query.join(",")}]`}::${type}`;
+}
+
+/**
+ * Cosine similarity to `query` for rows that may come from any embedding
+ * space; rows from another model score 0. CASE is evaluated in order, so
+ * their vectors are never cast.
+ */
+export function embeddingSimilarity(
+  table: EmbeddingTable,
+  model: string,
+  query: number[]
+): SQL<number> {
+  return sql<number>`CASE WHEN ${sameEmbeddingSpace(table, model, query.length)}
+    THEN 1 - (${embeddingDistance(table, query)}) ELSE 0 END`;
+}
+
+/**
+ * Vector length of the configured model, when known without embedding
+ * anything; the schema indexes vectors of this length.
+ */
+export function configuredEmbeddingDimensions(): number | undefined {
+  try {
+    return getEmbeddingProvider().dimensions;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
- * Generate embeddings for multiple texts in a single batch call.
- * More efficient than calling generateEmbedding() in a loop.
+ * Generate embeddings for multiple texts, in as few requests as the
+ * provider allows.
  */
 export async function generateEmbeddings(
-  texts: string[]
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
 ): Promise<number[][]> {
-  // OpenAI allows max 2048 inputs per batch; chunk if needed
-  const BATCH_SIZE = 512;
   const allEmbeddings: number[][] = [];
 
-  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
-    const batch = texts.slice(i, i + BATCH_SIZE);
-    const { embeddings } = await embedMany({
-      model: getEmbeddingModel(),
-      values: batch,
-    });
-    allEmbeddings.push(...embeddings);
+  for (let i = 0; i < texts.length; i += provider.batchSize) {
+    const batch = texts.slice(i, i + provider.batchSize);
+    allEmbeddings.push(...(await provider.embed(batch)));
   }
 
   return allEmbeddings;
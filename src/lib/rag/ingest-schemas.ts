@@ -0,0 +1,289 @@
+import { getDbUnpooled } from "@/lib/db";
+import { nodeParameterSchemas, syncLog } from "@/lib/db/schema";
+import { eq, gte } from "drizzle-orm";
+import type {
+  DisplayOptions,
+  NodeCredentialRequirement,
+  NodePropertyOption,
+  NodePropertySchema,
+} from "@/lib/n8n/types";
+import type { StageRun } from "./types";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/**
+ * n8n publishes the full description of every node it ships (the same data
+ * its editor renders forms from) as dist/types/nodes.json in each package.
+ */
+const NODE_PACKAGES = [
+  { name: "n8n-nodes-base", prefix: "n8n-nodes-base." },
+  { name: "@n8n/n8n-nodes-langchain", prefix: "@n8n/n8n-nodes-langchain." },
+];
+
+// Node types written between progress saves
+const UPSERT_BATCH = 50;
+
+const CDN_URLS = [
+  (pkg: string) => `https://cdn.jsdelivr.net/npm/${pkg}@latest/dist/types/nodes.json`,
+  (pkg: string) => `https://unpkg.com/${pkg}@latest/dist/types/nodes.json`,
+];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The parts of an n8n INodeTypeDescription we read. */
+interface RawNodeDescription {
+  name: string;
+  version: number | number[];
+  properties?: RawProperty[];
+  credentials?: NodeCredentialRequirement[];
+}
+
+interface RawProperty {
+  name: string;
+  displayName?: string;
+  type: string;
+  default?: unknown;
+  required?: boolean;
+  displayOptions?: DisplayOptions;
+  // options: NodePropertyOption[]; collection: RawProperty[];
+  // fixedCollection: Array<{ name, displayName, values: RawProperty[] }>
+  options?: Array<Record<string, unknown>>;
+  typeOptions?: { multipleValues?: boolean; editor?: string };
+}
+
+interface SchemaRecord {
+  nodeType: string;
+  typeVersions: number[];
+  maxVersion: number;
+  properties: NodePropertySchema[];
+  credentials: NodeCredentialRequirement[];
+}
+
+export interface SchemaSyncResult {
+  success: boolean;
+  // False when it stopped at the run's time budget; the next run resumes it
+  complete: boolean;
+  schemasProcessed: number;
+  errors: string[];
+  duration: number;
+}
+
+// ─── Fetching ─────────────────────────────────────────────────────────────────
+
+async function fetchNodeDescriptions(pkg: string): Promise<RawNodeDescription[]> {
+  let lastError: unknown;
+  for (const url of CDN_URLS) {
+    try {
+      const res = await fetch(url(pkg), {
+        headers: { "User-Agent": "n8n-rag-sync" },
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status} fetching ${url(pkg)}`);
+      return (await res.json()) as RawNodeDescription[];
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError instanceof Error
+    ? lastError
+    : new Error(`Failed to fetch node descriptions for ${pkg}`);
+}
+
+// ─── Conversion ───────────────────────────────────────────────────────────────
+
+/**
+ * Reduce an n8n property description to what validation and the parameter
+ * form need: names, types, allowed values, required flags, defaults, show/hide
+ * conditions and the editor hints that change a value's shape. Hints and
+ * descriptions are dropped to keep rows small.
+ */
+function toPropertySchema(raw: RawProperty): NodePropertySchema {
+  const schema: NodePropertySchema = {
+    name: raw.name,
+    displayName: raw.displayName ?? raw.name,
+    type: raw.type,
+  };
+  if (raw.default !== undefined) schema.default = raw.default;
+  if (raw.required) schema.required = true;
+  if (raw.displayOptions) schema.displayOptions = raw.displayOptions;
+  if (raw.typeOptions?.multipleValues) schema.multipleValues = true;
+  if (raw.typeOptions?.editor) schema.editor = raw.typeOptions.editor;
+
+  const options = raw.options ?? [];
+  if (raw.type === "options" || raw.type === "multiOptions") {
+    schema.options = options
+      .filter((o) => "value" in o)
+      .map((o) => ({
+        name: String(o.name),
+        value: o.value as NodePropertyOption["value"],
+      }));
+  } else if (raw.type === "collection") {
+    schema.values = (options as unknown as RawProperty[]).map(toPropertySchema);
+  } else if (raw.type === "fixedCollection") {
+    schema.groups = options.map((group) => ({
+      name: String(group.name),
+      displayName: String(group.displayName ?? group.name),
+      values: ((group.values as RawProperty[] | undefined) ?? []).map(
+        toPropertySchema
+      ),
+    }));
+  }
+  return schema;
+}
+
+function toSchemaRecord(
+  description: RawNodeDescription,
+  prefix: string
+): SchemaRecord | null {
+  if (!description.name || !Array.isArray(description.properties)) return null;
+  const nodeType = description.name.startsWith(prefix)
+    ? description.name
+    : `${prefix}${description.name}`;
+  const typeVersions = Array.isArray(description.version)
+    ? description.version
+    : [description.version ?? 1];
+  return {
+    nodeType,
+    typeVersions,
+    maxVersion: Math.max(...typeVersions),
+    properties: description.properties.map(toPropertySchema),
+    credentials: (description.credentials ?? []).map((c) => ({
+      name: c.name,
+      ...(c.required ? { required: true } : {}),
+      ...(c.displayOptions ? { displayOptions: c.displayOptions } : {}),
+    })),
+  };
+}
+
+// ─── Main Ingestion ───────────────────────────────────────────────────────────
+
+/**
+ * Ingest structured parameter schemas for every node n8n ships:
+ * 1. Fetch nodes.json for each node package
+ * 2. Convert each description (one per group of versions) to a schema record
+ * 3. Replace the stored rows for each node type
+ * 4. Log to sync_log
+ *
+ * As a stage of a sync `run`, it saves progress every UPSERT_BATCH node
+ * types, stops once the run is out of time, and skips node types written
+ * since the stage began.
+ */
+export async function runSchemaIngestion(run?: StageRun): Promise<SchemaSyncResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+  let schemasProcessed = 0;
+  let complete = true;
+
+  try {
+    console.log("[ingest-schemas] Fetching node descriptions...");
+    const byType = new Map<string, SchemaRecord[]>();
+    for (const pkg of NODE_PACKAGES) {
+      try {
+        const descriptions = await fetchNodeDescriptions(pkg.name);
+        for (const description of descriptions) {
+          const record = toSchemaRecord(description, pkg.prefix);
+          if (!record) continue;
+          if (!byType.has(record.nodeType)) byType.set(record.nodeType, []);
+          byType.get(record.nodeType)!.push(record);
+        }
+      } catch (err) {
+        errors.push(
+          `Failed to fetch ${pkg.name}: ${err instanceof Error ? err.message : "Unknown"}`
+        );
+      }
+    }
+    console.log(`[ingest-schemas] Got schemas for ${byType.size} node types`);
+
+    const ingestionDb = getDbUnpooled();
+    // Node types an earlier invocation of this stage already wrote
+    const written = new Set<string>();
+    if (run?.stage.startedAt) {
+      const rows = await ingestionDb
+        .select({ nodeType: nodeParameterSchemas.nodeType })
+        .from(nodeParameterSchemas)
+        .where(gte(nodeParameterSchemas.updatedAt, new Date(run.stage.startedAt)));
+      for (const row of rows) written.add(row.nodeType);
+    }
+    const remaining = [...byType].filter(([nodeType]) => !written.has(nodeType));
+    if (run) run.stage.total = byType.size;
+
+    for (let i = 0; i < remaining.length; i++) {
+      if (run && i % UPSERT_BATCH === 0) {
+        if (i > 0) await run.save();
+        if (run.outOfTime()) {
+          complete = false;
+          break;
+        }
+      }
+      const [nodeType, records] = remaining[i];
+      try {
+        await ingestionDb
+          .delete(nodeParameterSchemas)
+          .where(eq(nodeParameterSchemas.nodeType, nodeType));
+        await ingestionDb.insert(nodeParameterSchemas).values(records);
+        schemasProcessed += records.length;
+        if (run) run.stage.done++;
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : "Unknown";
+        errors.push(
+          `Upsert failed for ${nodeType}: ${errMsg.length > 200 ? errMsg.slice(0, 200) + "…" : errMsg}`
+        );
+        if (run) run.stage.errors++;
+      }
+    }
+
+    console.log(
+      complete
+        ? `[ingest-schemas] Done. ${schemasProcessed} schemas upserted, ${errors.length} errors.`
+        : `[ingest-schemas] Out of time after ${schemasProcessed} schemas; the next run continues.`
+    );
+    await logSchemaSync(
+      !complete ? "partial" : errors.length === 0 ? "success" : "error",
+      schemasProcessed,
+      errors.length > 0 ? errors.slice(0, 5).join("; ") : undefined
+    );
+
+    return {
+      success: errors.length === 0,
+      complete,
+      schemasProcessed,
+      errors,
+      duration: Date.now() - startTime,
+    };
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : "Unknown error";
+    errors.push(errMsg);
+    await logSchemaSync("error", schemasProcessed, errMsg).catch(() => {});
+    return {
+      success: false,
+      complete,
+      schemasProcessed,
+      errors,
+      duration: Date.now() - startTime,
+    };
+  }
+}
+
+// ─── Sync Log ─────────────────────────────────────────────────────────────────
+
+async function logSchemaSync(
+  status: string,
+  schemasProcessed: number,
+  error?: string
+) {
+  try {
+    const ingestionDb = getDbUnpooled();
+    const truncatedError = error
+      ? error.length > 500
+        ? error.slice(0, 500) + "…[truncated]"
+        : error
+      : null;
+    await ingestionDb.insert(syncLog).values({
+      source: "n8n-node-schemas",
+      status,
+      nodesProcessed: schemasProcessed,
+      error: truncatedError,
+    });
+  } catch (err) {
+    console.error("[ingest-schemas] Failed to log sync:", err);
+  }
+}
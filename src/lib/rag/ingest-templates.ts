@@ -1,8 +1,9 @@
 import { neon } from "@neondatabase/serverless";
 import { getDbUnpooled } from "@/lib/db";
 import { workflowTemplates, syncLog } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
-import { generateEmbeddings } from "./embedding";
+import { eq, gte, not } from "drizzle-orm";
+import { generateEmbeddings, getEmbeddingProvider, sameEmbeddingSpace } from "./embedding";
+import type { StageRun } from "./types";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -102,6 +103,8 @@ interface TemplateRecord {
 
 export interface TemplateSyncResult {
   success: boolean;
+  // False when it stopped at the run's time budget; the next run resumes it
+  complete: boolean;
   templatesProcessed: number;
   errors: string[];
   duration: number;
@@ -481,19 +484,24 @@ function buildFlowDescription(workflow: {
 /**
  * Run the template ingestion pipeline:
  * 1. Fetch template summaries from the n8n Templates API (paginated, AI-first)
- * 2. Fetch full workflow JSON for each template (concurrent with rate limiting)
- * 3. Build semantic content for embedding
- * 4. Generate embeddings
- * 5. Upsert into the workflow_templates table
- * 6. Log to sync_log
+ * 2. In batches: fetch full workflow JSON for each template (concurrent with
+ *    rate limiting), build semantic content, embed, and upsert into the
+ *    workflow_templates table
+ * 3. Log to sync_log
+ *
+ * As a stage of a sync `run`, it saves progress after every batch, stops
+ * once the run is out of time, and skips templates written since the stage
+ * began.
  */
-export async function runTemplateIngestion(): Promise<TemplateSyncResult> {
+export async function runTemplateIngestion(run?: StageRun): Promise<TemplateSyncResult> {
   const startTime = Date.now();
   const errors: string[] = [];
   let templatesProcessed = 0;
+  let complete = true;
 
   try {
     console.log("[ingest-templates] Starting template ingestion...");
+    const ingestionDb = getDbUnpooled();
 
     // Step 1: Fetch template list
     const summaries = await fetchTemplateList();
@@ -503,117 +511,153 @@ export async function runTemplateIngestion(): Promise<TemplateSyncResult> {
       await logTemplateSync("error", 0, errors.join("; "));
       return {
         success: false,
+        complete,
         templatesProcessed: 0,
         errors,
         duration: Date.now() - startTime,
       };
     }
 
-    // Step 2: Fetch full details for each template
-    console.log(
-      `[ingest-templates] Fetching full details for ${summaries.length} templates...`
-    );
-    const details = await fetchAllTemplateDetails(summaries, errors);
+    // Templates an earlier invocation of this stage already wrote
+    const written = new Set<number>();
+    if (run?.stage.startedAt) {
+      const rows = await ingestionDb
+        .select({ templateId: workflowTemplates.templateId })
+        .from(workflowTemplates)
+        .where(gte(workflowTemplates.updatedAt, new Date(run.stage.startedAt)));
+      for (const row of rows) written.add(row.templateId);
+    }
+    const remaining = summaries.filter((s) => !written.has(s.id));
+    if (run) run.stage.total = summaries.length;
     console.log(
-      `[ingest-templates] Got details for ${details.length} templates`
+      `[ingest-templates] ${remaining.length} of ${summaries.length} templates to ingest`
     );
 
-    // Step 3: Build records
+    const embeddingProvider = getEmbeddingProvider();
+    const rawSql = getRawSql();
     const summaryMap = new Map(summaries.map((s) => [s.id, s]));
-    const records: TemplateRecord[] = [];
-    for (const detail of details) {
-      const record = buildTemplateRecord(detail, summaryMap.get(detail.id));
-      if (record) {
-        records.push(record);
-      }
-    }
-
-    console.log(
-      `[ingest-templates] Built ${records.length} template records`
-    );
+    let dimensions = embeddingProvider.dimensions;
 
-    if (records.length === 0) {
-      errors.push("No valid template records could be built");
-      await logTemplateSync("error", 0, errors.join("; "));
-      return {
-        success: false,
-        templatesProcessed: 0,
-        errors,
-        duration: Date.now() - startTime,
-      };
-    }
+    const UPSERT_BATCH = 50;
+    for (let i = 0; i < remaining.length; i += UPSERT_BATCH) {
+      if (run?.outOfTime()) {
+        complete = false;
+        break;
+      }
+      const errorsBefore = errors.length;
+      const processedBefore = templatesProcessed;
 
-    // Step 4: Generate embeddings
-    console.log("[ingest-templates] Generating embeddings...");
-    const contentTexts = records.map((r) => r.content);
-    const embeddings = await generateEmbeddings(contentTexts);
+      // Step 2: Fetch full details for the batch
+      console.log(
+        `[ingest-templates] Fetching templates ${i + 1}-${Math.min(i + UPSERT_BATCH, remaining.length)} of ${remaining.length}...`
+      );
+      const details = await fetchAllTemplateDetails(
+        remaining.slice(i, i + UPSERT_BATCH),
+        errors
+      );
 
-    // Step 5: Upsert into database
-    console.log("[ingest-templates] Upserting into database...");
-    const rawSql = getRawSql();
-    const ingestionDb = getDbUnpooled();
+      // Step 3: Build records
+      const records: TemplateRecord[] = [];
+      for (const detail of details) {
+        const record = buildTemplateRecord(detail, summaryMap.get(detail.id));
+        if (record) {
+          records.push(record);
+        }
+      }
 
-    const UPSERT_BATCH = 50;
-    for (let i = 0; i < records.length; i += UPSERT_BATCH) {
-      const batchRecords = records.slice(i, i + UPSERT_BATCH);
-      const batchEmbeddings = embeddings.slice(i, i + UPSERT_BATCH);
-
-      for (let j = 0; j < batchRecords.length; j++) {
-        const record = batchRecords[j];
-        const embedding = batchEmbeddings[j];
-
-        try {
-          // Delete existing row for this template
-          await ingestionDb
-            .delete(workflowTemplates)
-            .where(eq(workflowTemplates.templateId, record.templateId));
-
-          // Convert embedding array to PostgreSQL vector literal
-          const embeddingLiteral = `[${embedding.join(",")}]`;
-
-          // Insert using raw SQL to avoid Neon HTTP driver pgvector limits
-          await rawSql`
-            INSERT INTO workflow_templates
-              (template_id, name, description, category, total_views,
-               node_types, workflow_json, content, embedding, updated_at)
-            VALUES
-              (${record.templateId}, ${record.name}, ${record.description},
-               ${record.category}, ${record.totalViews},
-               ${JSON.stringify(record.nodeTypes)}::jsonb,
-               ${JSON.stringify(record.workflowJson)}::jsonb,
-               ${record.content},
-               ${embeddingLiteral}::vector,
-               NOW())
-          `;
-
-          templatesProcessed++;
-        } catch (err) {
-          const errMsg = err instanceof Error ? err.message : "Unknown";
-          const shortErr =
-            errMsg.length > 200 ? errMsg.slice(0, 200) + "…" : errMsg;
-          errors.push(
-            `Upsert failed for template ${record.templateId}: ${shortErr}`
-          );
-          console.error(
-            `[ingest-templates] Failed template ${record.templateId}:`,
-            shortErr
-          );
+      if (records.length > 0) {
+        // Step 4: Generate embeddings
+        const embeddings = await generateEmbeddings(
+          records.map((r) => r.content),
+          embeddingProvider
+        );
+        dimensions = embeddings[0].length;
+
+        // Step 5: Upsert into database
+        for (let j = 0; j < records.length; j++) {
+          const record = records[j];
+          const embedding = embeddings[j];
+
+          try {
+            // Delete existing row for this template
+            await ingestionDb
+              .delete(workflowTemplates)
+              .where(eq(workflowTemplates.templateId, record.templateId));
+
+            // Convert embedding array to PostgreSQL vector literal
+            const embeddingLiteral = `[${embedding.join(",")}]`;
+
+            // Insert using raw SQL to avoid Neon HTTP driver pgvector limits
+            await rawSql`
+              INSERT INTO workflow_templates
+                (template_id, name, description, category, total_views,
+                 node_types, workflow_json, content,
+                 embedding, embedding_model, embedding_dimensions, updated_at)
+              VALUES
+                (${record.templateId}, ${record.name}, ${record.description},
+                 ${record.category}, ${record.totalViews},
+                 ${JSON.stringify(record.nodeTypes)}::jsonb,
+                 ${JSON.stringify(record.workflowJson)}::jsonb,
+                 ${record.content},
+                 ${embeddingLiteral}::vector, ${embeddingProvider.model}, ${dimensions},
+                 NOW())
+            `;
+
+            templatesProcessed++;
+          } catch (err) {
+            const errMsg = err instanceof Error ? err.message : "Unknown";
+            const shortErr =
+              errMsg.length > 200 ? errMsg.slice(0, 200) + "…" : errMsg;
+            errors.push(
+              `Upsert failed for template ${record.templateId}: ${shortErr}`
+            );
+            console.error(
+              `[ingest-templates] Failed template ${record.templateId}:`,
+              shortErr
+            );
+          }
         }
       }
+
+      if (run) {
+        run.stage.done += templatesProcessed - processedBefore;
+        run.stage.errors += errors.length - errorsBefore;
+        await run.save();
+      }
+    }
+
+    if (complete && templatesProcessed + written.size === 0) {
+      errors.push("No valid template records could be built");
+    }
+
+    // Templates no longer listed that still have another model's vectors.
+    // Errors in earlier invocations of the stage count too
+    if (
+      complete &&
+      errors.length === 0 &&
+      !run?.stage.errors &&
+      dimensions !== undefined
+    ) {
+      await ingestionDb
+        .delete(workflowTemplates)
+        .where(not(sameEmbeddingSpace(workflowTemplates, embeddingProvider.model, dimensions)));
     }
 
     console.log(
-      `[ingest-templates] Done. ${templatesProcessed} templates upserted, ${errors.length} errors.`
+      complete
+        ? `[ingest-templates] Done. ${templatesProcessed} templates upserted, ${errors.length} errors.`
+        : `[ingest-templates] Out of time after ${templatesProcessed} templates; the next run continues.`
     );
 
     await logTemplateSync(
-      errors.length === 0 ? "success" : "error",
+      !complete ? "partial" : errors.length === 0 ? "success" : "error",
       templatesProcessed,
       errors.length > 0 ? errors.slice(0, 5).join("; ") : undefined
     );
 
     return {
       success: errors.length === 0,
+      complete,
       templatesProcessed,
       errors,
       duration: Date.now() - startTime,
@@ -624,6 +668,7 @@ export async function runTemplateIngestion(): Promise<TemplateSyncResult> {
     await logTemplateSync("error", templatesProcessed, errMsg).catch(() => {});
     return {
       success: false,
+      complete,
       templatesProcessed,
       errors,
       duration: Date.now() - startTime,
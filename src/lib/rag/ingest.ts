@@ -1,9 +1,12 @@
+import { createHash } from "node:crypto";
 import { neon } from "@neondatabase/serverless";
 import { getDbUnpooled } from "@/lib/db";
-import { nodeDocs, syncLog } from "@/lib/db/schema";
-import { eq, and } from "drizzle-orm";
-import { generateEmbeddings } from "./embedding";
+import { githubFiles, nodeDocs, syncLog } from "@/lib/db/schema";
+import { eq, and, desc, gt, lt, ne, not, or, sql } from "drizzle-orm";
+import { generateEmbeddings, getEmbeddingProvider, sameEmbeddingSpace } from "./embedding";
 import { runTemplateIngestion } from "./ingest-templates";
+import { runSchemaIngestion } from "./ingest-schemas";
+import type { DocChanges, StageProgress, SyncProgress, SyncStage } from "./types";
 
 // Max content length per chunk (in characters).
 const MAX_CONTENT_LENGTH = 2000;
@@ -38,9 +41,20 @@ interface NodeDocChunk {
 interface GitHubTreeItem {
   path: string;
   type: "blob" | "tree";
+  sha: string; // blob sha, changes whenever the file's content does
   url: string;
 }
 
+/**
+ * Files downloaded by earlier syncs, keyed by `repo/path`, with what was
+ * kept from each. A file whose blob sha still matches isn't downloaded again.
+ */
+interface FileCache {
+  files: Map<string, { sha: string; data: unknown }>;
+  // Downloaded by this sync, to be saved to github_files
+  fetched: Array<{ repo: string; path: string; sha: string; data: unknown }>;
+}
+
 interface NodeSourceInfo {
   nodeType: string;
   displayName: string;
@@ -71,11 +85,11 @@ async function githubFetch(url: string): Promise<Response> {
 }
 
 /**
- * Fetch the file tree of a GitHub repository path.
+ * Fetch the files of a GitHub repository under any of `paths`.
  */
 async function fetchGitHubTree(
   repo: string,
-  path: string
+  paths: string[]
 ): Promise<GitHubTreeItem[]> {
   // First get the default branch SHA
   const repoRes = await githubFetch(`${GITHUB_API}/repos/${repo}`);
@@ -90,7 +104,7 @@ async function fetchGitHubTree(
 
   return (treeData.tree ?? []).filter(
     (item: GitHubTreeItem) =>
-      item.path.startsWith(path) && item.type === "blob"
+      item.type === "blob" && paths.some((path) => item.path.startsWith(path))
   );
 }
 
@@ -120,15 +134,95 @@ async function fetchRawFile(repo: string, path: string): Promise<string> {
   return res.text();
 }
 
+// Files downloaded at once, with a pause between batches to be nice to GitHub
+const FETCH_BATCH = 15;
+const FETCH_BATCH_DELAY_MS = 500;
+
+/**
+ * Read `files` through the cache: files whose sha changed are downloaded and
+ * passed to `parse`; the rest come from what was kept last time. Returns
+ * the parsed value by path, without the files that failed to download.
+ */
+async function readFiles<T>(
+  repo: string,
+  files: GitHubTreeItem[],
+  cache: FileCache,
+  parse: (content: string, path: string) => T
+): Promise<Map<string, T>> {
+  const results = new Map<string, T>();
+  const changed = files.filter((file) => {
+    const cached = cache.files.get(`${repo}/${file.path}`);
+    if (cached?.sha !== file.sha) return true;
+    results.set(file.path, cached.data as T);
+    return false;
+  });
+  console.log(
+    `[ingest] ${repo}: ${files.length - changed.length} files unchanged, downloading ${changed.length}`
+  );
+
+  for (let i = 0; i < changed.length; i += FETCH_BATCH) {
+    const batch = changed.slice(i, i + FETCH_BATCH);
+    const settled = await Promise.allSettled(
+      batch.map(async (file) => {
+        const data = parse(await fetchRawFile(repo, file.path), file.path);
+        results.set(file.path, data);
+        cache.fetched.push({ repo, path: file.path, sha: file.sha, data });
+      })
+    );
+    settled.forEach((r, idx) => {
+      if (r.status === "rejected") {
+        console.warn(`[ingest] Failed to fetch: ${batch[idx].path} - ${r.reason}`);
+      }
+    });
+    if (i + FETCH_BATCH < changed.length) {
+      await new Promise((resolve) => setTimeout(resolve, FETCH_BATCH_DELAY_MS));
+    }
+  }
+  return results;
+}
+
+async function loadFileCache(): Promise<FileCache> {
+  const rows = await getDbUnpooled()
+    .select({
+      repo: githubFiles.repo,
+      path: githubFiles.path,
+      sha: githubFiles.sha,
+      data: githubFiles.data,
+    })
+    .from(githubFiles);
+  return {
+    files: new Map(rows.map((row) => [`${row.repo}/${row.path}`, row])),
+    fetched: [],
+  };
+}
+
+/** Save what this sync downloaded, so a resumed or later sync skips it. */
+async function saveFileCache(cache: FileCache) {
+  const db = getDbUnpooled();
+  for (let i = 0; i < cache.fetched.length; i += UPSERT_BATCH) {
+    await db
+      .insert(githubFiles)
+      .values(cache.fetched.slice(i, i + UPSERT_BATCH))
+      .onConflictDoUpdate({
+        target: [githubFiles.repo, githubFiles.path],
+        set: {
+          sha: sql`excluded.sha`,
+          data: sql`excluded.data`,
+          updatedAt: sql`now()`,
+        },
+      });
+  }
+}
+
 // ─── Source 1: n8n-docs (Markdown documentation) ─────────────────────────────
 
 /**
  * Fetch and parse markdown documentation files from n8n-io/n8n-docs.
  * These contain human-readable parameter descriptions, usage guides, etc.
  */
-async function fetchDocsFromGitHub(): Promise<
-  Map<string, { content: string; path: string }>
-> {
+async function fetchDocsFromGitHub(
+  cache: FileCache
+): Promise<Map<string, { content: string; path: string }>> {
   const docs = new Map<string, { content: string; path: string }>();
   const docPaths = [
     "docs/integrations/builtin/app-nodes",
@@ -137,38 +231,23 @@ async function fetchDocsFromGitHub(): Promise<
     "docs/integrations/builtin/cluster-nodes",
   ];
 
-  for (const basePath of docPaths) {
-    try {
-      const tree = await fetchGitHubTree("n8n-io/n8n-docs", basePath);
-      const mdFiles = tree.filter(
-        (f) => f.path.endsWith(".md") || f.path.endsWith("index.md")
-      );
-
-      // Limit to index.md files which contain the main node docs
-      const indexFiles = mdFiles.filter(
-        (f) =>
-          f.path.endsWith("/index.md") ||
-          (f.path.endsWith(".md") && !f.path.includes("/"))
-      );
-
-      for (const file of indexFiles) {
-        try {
-          const content = await fetchRawFile("n8n-io/n8n-docs", file.path);
-          // Extract node type from the path, e.g.:
-          // docs/integrations/builtin/app-nodes/n8n-nodes-base.slack/index.md -> n8n-nodes-base.slack
-          const pathParts = file.path.split("/");
-          const nodeFolder = pathParts[pathParts.length - 2]; // folder name before index.md
-          if (nodeFolder && nodeFolder.startsWith("n8n-nodes-base.")) {
-            docs.set(nodeFolder, { content, path: file.path });
-          }
-        } catch {
-          // Skip files that fail to fetch
-          console.warn(`[ingest] Failed to fetch doc: ${file.path}`);
-        }
+  try {
+    const tree = await fetchGitHubTree("n8n-io/n8n-docs", docPaths);
+    // index.md files contain the main node docs
+    const indexFiles = tree.filter((f) => f.path.endsWith("/index.md"));
+
+    const contents = await readFiles("n8n-io/n8n-docs", indexFiles, cache, (content) => content);
+    for (const [path, content] of contents) {
+      // Extract node type from the path, e.g.:
+      // docs/integrations/builtin/app-nodes/n8n-nodes-base.slack/index.md -> n8n-nodes-base.slack
+      const pathParts = path.split("/");
+      const nodeFolder = pathParts[pathParts.length - 2]; // folder name before index.md
+      if (nodeFolder && nodeFolder.startsWith("n8n-nodes-base.")) {
+        docs.set(nodeFolder, { content, path });
       }
-    } catch {
-      console.warn(`[ingest] Failed to fetch tree for: ${basePath}`);
     }
+  } catch {
+    console.warn("[ingest] Failed to fetch the n8n-docs tree");
   }
 
   return docs;
@@ -260,14 +339,11 @@ function parseNodeSource(content: string, nodeType: string): NodeSourceInfo | nu
 /**
  * Fetch node source files from the n8n GitHub repo to get type versions and parameters.
  */
-async function fetchNodeSourceInfo(): Promise<Map<string, NodeSourceInfo>> {
+async function fetchNodeSourceInfo(cache: FileCache): Promise<Map<string, NodeSourceInfo>> {
   const nodeInfoMap = new Map<string, NodeSourceInfo>();
 
   try {
-    const tree = await fetchGitHubTree(
-      "n8n-io/n8n",
-      "packages/nodes-base/nodes"
-    );
+    const tree = await fetchGitHubTree("n8n-io/n8n", ["packages/nodes-base/nodes"]);
 
     // Find .node.ts files (the main node definition files)
     const nodeFiles = tree.filter(
@@ -277,43 +353,21 @@ async function fetchNodeSourceInfo(): Promise<Map<string, NodeSourceInfo>> {
         !f.path.includes("__tests__")
     );
 
-    // Process in batches to avoid rate limits
-    const BATCH = 15;
-    for (let i = 0; i < nodeFiles.length; i += BATCH) {
-      const batch = nodeFiles.slice(i, i + BATCH);
-      const results = await Promise.allSettled(
-        batch.map(async (file) => {
-          const content = await fetchRawFile("n8n-io/n8n", file.path);
-          // Derive node type from filename, e.g. HttpRequest.node.ts
-          const fileBaseName = file.path.split("/").pop()?.replace(".node.ts", "") ?? "";
-
-          // Try to find the exact node type name in the source
-          const nameMatch = content.match(
-            /name\s*[:=]\s*['"`](n8n-nodes-base\.\w+)['"`]|name\s*[:=]\s*['"`](\w+)['"`]/
-          );
-          const nodeTypeName = nameMatch?.[1]
-            ?? `n8n-nodes-base.${fileBaseName.charAt(0).toLowerCase() + fileBaseName.slice(1)}`;
+    const infos = await readFiles("n8n-io/n8n", nodeFiles, cache, (content, path) => {
+      // Derive node type from filename, e.g. HttpRequest.node.ts
+      const fileBaseName = path.split("/").pop()?.replace(".node.ts", "") ?? "";
 
-          const info = parseNodeSource(content, nodeTypeName);
-          if (info) {
-            nodeInfoMap.set(info.nodeType, info);
-          }
-        })
+      // Try to find the exact node type name in the source
+      const nameMatch = content.match(
+        /name\s*[:=]\s*['"`](n8n-nodes-base\.\w+)['"`]|name\s*[:=]\s*['"`](\w+)['"`]/
       );
+      const nodeTypeName = nameMatch?.[1]
+        ?? `n8n-nodes-base.${fileBaseName.charAt(0).toLowerCase() + fileBaseName.slice(1)}`;
 
-      // Log failures
-      results.forEach((r, idx) => {
-        if (r.status === "rejected") {
-          console.warn(
-            `[ingest] Failed to process: ${batch[idx].path} - ${r.reason}`
-          );
-        }
-      });
-
-      // Small delay between batches to be nice to GitHub
-      if (i + BATCH < nodeFiles.length) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
+      return parseNodeSource(content, nodeTypeName);
+    });
+    for (const info of infos.values()) {
+      if (info) nodeInfoMap.set(info.nodeType, info);
     }
   } catch (err) {
     console.error("[ingest] Failed to fetch node source tree:", err);
@@ -531,228 +585,574 @@ function extractExamplesSection(content: string): string | null {
 
 export interface SyncResult {
   success: boolean;
+  // False when the run stopped at its time budget; the next run resumes it
+  complete: boolean;
+  resumed: boolean;
+  dryRun: boolean;
   nodesProcessed: number;
   chunksCreated: number;
+  changes: DocChanges;
+  // Another sync holds the lock; this one did nothing
+  alreadyRunning: boolean;
   templatesProcessed: number;
+  schemasProcessed: number;
   errors: string[];
   duration: number;
 }
 
+export interface IngestionOptions {
+  // Only compare fetched docs with stored ones; nothing is embedded or written
+  dryRun?: boolean;
+  // Start no new batch after this long, leaving the rest to the next run
+  timeBudgetMs?: number;
+}
+
+const SYNC_SOURCE = "github-docs";
+const STAGES: SyncStage[] = ["docs", "templates", "schemas"];
+// An unfinished run older than this is started over instead of resumed
+const RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+// A running sync refreshes its sync_log row this often. One that hasn't for
+// LOCK_TIMEOUT_MS was killed, and the next run takes it over
+const HEARTBEAT_MS = 30_000;
+const LOCK_TIMEOUT_MS = 3 * HEARTBEAT_MS;
+const UPSERT_BATCH = 50;
+
+interface SyncRun {
+  id: number;
+  progress: SyncProgress;
+}
+
 /**
- * Run the full ingestion pipeline:
- * 1. Fetch docs from n8n-docs GitHub repo
- * 2. Fetch node source info from n8n GitHub repo
- * 3. Combine and chunk
- * 4. Generate embeddings
- * 5. Upsert into database
+ * Run the ingestion pipeline in stages:
+ * 1. docs — fetch node docs and source from GitHub, chunk them, and embed
+ *    and write the chunks whose content or embedding model changed
+ * 2. templates — ingest workflow templates
+ * 3. schemas — ingest node parameter schemas
+ *
+ * Progress is saved in sync_log after every batch. A run that stops — at
+ * `timeBudgetMs`, or killed by a platform timeout — is resumed by the next
+ * one from the stage it was in; within the docs stage, chunks it already
+ * wrote are found unchanged by their hashes, and the later stages skip rows
+ * written since they began.
+ *
+ * Only one run writes at a time: its sync_log row stays "running" with a
+ * heartbeat, and a run started meanwhile returns `alreadyRunning`.
  */
-export async function runIngestion(): Promise<SyncResult> {
+export async function runIngestion(
+  options: IngestionOptions = {}
+): Promise<SyncResult> {
+  const { dryRun = false, timeBudgetMs } = options;
   const startTime = Date.now();
-  const errors: string[] = [];
-  let nodesProcessed = 0;
-  let chunksCreated = 0;
-  let templatesProcessed = 0;
+  const outOfTime = () =>
+    timeBudgetMs !== undefined && Date.now() - startTime > timeBudgetMs;
+  const result: SyncResult = {
+    success: false,
+    complete: false,
+    resumed: false,
+    dryRun,
+    nodesProcessed: 0,
+    chunksCreated: 0,
+    changes: { added: [], changed: [], reembedded: [], unchanged: 0 },
+    alreadyRunning: false,
+    templatesProcessed: 0,
+    schemasProcessed: 0,
+    errors: [],
+    duration: 0,
+  };
+  const errors = result.errors;
+  let run: SyncRun | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
 
   try {
-    console.log("[ingest] Starting ingestion pipeline...");
-
-    // Step 1 & 2: Fetch from both sources in parallel
-    console.log("[ingest] Fetching from GitHub sources...");
-    const [docsMap, sourceMap] = await Promise.all([
-      fetchDocsFromGitHub().catch((err) => {
-        errors.push(`Docs fetch failed: ${err.message}`);
-        return new Map<string, { content: string; path: string }>();
-      }),
-      fetchNodeSourceInfo().catch((err) => {
-        errors.push(`Source fetch failed: ${err.message}`);
-        return new Map<string, NodeSourceInfo>();
-      }),
-    ]);
-
-    console.log(
-      `[ingest] Fetched ${docsMap.size} doc files, ${sourceMap.size} source files`
-    );
-
-    // Step 3: Merge all known node types
-    const allNodeTypes = new Set([...docsMap.keys(), ...sourceMap.keys()]);
-    console.log(`[ingest] Total unique node types: ${allNodeTypes.size}`);
-
-    // Step 4: Create chunks for each node
-    const allChunks: NodeDocChunk[] = [];
-    for (const nodeType of allNodeTypes) {
-      const docContent = docsMap.get(nodeType)?.content ?? null;
-      const sourceInfo = sourceMap.get(nodeType) ?? null;
-      const chunks = createNodeChunks(nodeType, docContent, sourceInfo);
-      allChunks.push(...chunks);
-      nodesProcessed++;
+    if (dryRun) {
+      console.log("[ingest] Dry run: comparing node docs with the database...");
+      await syncNodeDocs(result, null);
+      result.complete = true;
+      result.success = errors.length === 0;
+      return { ...result, duration: Date.now() - startTime };
     }
 
+    const acquired = await acquireSyncRun();
+    if (!acquired) {
+      console.log("[ingest] Another sync is running; not starting");
+      result.alreadyRunning = true;
+      result.success = true;
+      return { ...result, duration: Date.now() - startTime };
+    }
+    result.resumed = acquired.resumed;
+    run = acquired.run;
+    const { id, progress } = run;
+    heartbeat = setInterval(() => void touchSyncRun(id), HEARTBEAT_MS);
+    const save = () => saveSyncProgress(id, progress);
     console.log(
-      `[ingest] Created ${allChunks.length} chunks from ${nodesProcessed} nodes`
+      result.resumed
+        ? `[ingest] Resuming sync #${id} at stage "${progress.stage}"`
+        : `[ingest] Starting sync #${id}`
     );
 
-    if (allChunks.length === 0) {
-      errors.push("No chunks generated — check GitHub API access");
-      await logSync("github-docs", "error", 0, errors.join("; "));
-      // Don't return — still run template ingestion below
-    }
+    while (progress.stage !== "done" && !outOfTime()) {
+      const stage = progress.stage;
 
-    if (allChunks.length > 0) {
-      // Step 5: Generate embeddings in batches
-      console.log("[ingest] Generating embeddings...");
-      const chunkTexts = allChunks.map((c) => c.content);
-      const embeddings = await generateEmbeddings(chunkTexts);
-
-      // Step 6: Upsert into database
-      console.log("[ingest] Upserting into database...");
-      const UPSERT_BATCH = 50;
-
-      // Use raw SQL via the neon() driver for inserts.
-      // Drizzle ORM's pgvector serialization through the Neon HTTP driver fails
-      // for certain records because the 1536-float embedding array, when encoded
-      // as a JSON parameter, can exceed the driver's internal limits.
-      // By sending the embedding as a text literal with ::vector cast, we avoid this.
-      const rawSql = getRawSql();
-
-      // Use Drizzle for deletes (no embedding involved, so no size issue)
-      const ingestionDb = getDbUnpooled();
-
-      for (let i = 0; i < allChunks.length; i += UPSERT_BATCH) {
-        const batchChunks = allChunks.slice(i, i + UPSERT_BATCH);
-        const batchEmbeddings = embeddings.slice(i, i + UPSERT_BATCH);
-
-        for (let j = 0; j < batchChunks.length; j++) {
-          const chunk = batchChunks[j];
-          const embedding = batchEmbeddings[j];
-
-          try {
-            // Delete existing row for this node + chunk type
-            await ingestionDb
-              .delete(nodeDocs)
-              .where(
-                and(
-                  eq(nodeDocs.nodeType, chunk.nodeType),
-                  eq(nodeDocs.chunkType, chunk.chunkType)
-                )
-              );
-
-            // Truncate content to a reasonable length
-            const truncatedContent =
-              chunk.content.length > MAX_CONTENT_LENGTH
-                ? chunk.content.slice(0, MAX_CONTENT_LENGTH) + "\n…[truncated]"
-                : chunk.content;
-
-            // Convert embedding array to PostgreSQL vector literal string
-            const embeddingLiteral = `[${embedding.join(",")}]`;
-
-            // Insert using raw SQL — embedding sent as text with ::vector cast
-            await rawSql`
-              INSERT INTO node_docs
-                (node_type, display_name, type_version, chunk_type, content, metadata, embedding, updated_at)
-              VALUES
-                (${chunk.nodeType}, ${chunk.displayName}, ${chunk.typeVersion},
-                 ${chunk.chunkType}, ${truncatedContent},
-                 ${JSON.stringify(chunk.metadata ?? {})}::jsonb,
-                 ${embeddingLiteral}::vector,
-                 NOW())
-            `;
-
-            chunksCreated++;
-          } catch (err) {
-            const errMsg = err instanceof Error ? err.message : "Unknown";
-            // Truncate error message to avoid huge logs (embedding text in error)
-            const shortErr =
-              errMsg.length > 200
-                ? errMsg.slice(0, 200) + "…"
-                : errMsg;
+      if (stage === "docs") {
+        const finished = await syncNodeDocs(result, { progress, save, outOfTime });
+        if (!finished) break;
+      }
+
+      // ── Template ingestion (independent, fault-isolated) ──
+      if (stage === "templates") {
+        try {
+          console.log("[ingest] Starting template ingestion...");
+          const stageProgress = startStage(progress, "templates");
+          const templateResult = await runTemplateIngestion({
+            stage: stageProgress,
+            save,
+            outOfTime,
+          });
+          result.templatesProcessed = templateResult.templatesProcessed;
+          if (templateResult.errors.length > 0) {
             errors.push(
-              `Upsert failed for ${chunk.nodeType}/${chunk.chunkType}: ${shortErr}`
+              ...templateResult.errors.slice(0, 5).map((e) => `[templates] ${e}`)
             );
-            console.error(
-              `[ingest] Failed ${chunk.nodeType}/${chunk.chunkType}:`,
-              shortErr
+          }
+          if (!templateResult.complete) break;
+          console.log(
+            `[ingest] Template ingestion done: ${result.templatesProcessed} templates processed`
+          );
+        } catch (err) {
+          const errMsg = err instanceof Error ? err.message : "Unknown";
+          errors.push(`Template ingestion failed: ${errMsg}`);
+          console.error("[ingest] Template ingestion failed:", errMsg);
+        }
+      }
+
+      // ── Parameter schema ingestion (independent, fault-isolated) ──
+      if (stage === "schemas") {
+        try {
+          console.log("[ingest] Starting parameter schema ingestion...");
+          const stageProgress = startStage(progress, "schemas");
+          const schemaResult = await runSchemaIngestion({
+            stage: stageProgress,
+            save,
+            outOfTime,
+          });
+          result.schemasProcessed = schemaResult.schemasProcessed;
+          if (schemaResult.errors.length > 0) {
+            errors.push(
+              ...schemaResult.errors.slice(0, 5).map((e) => `[schemas] ${e}`)
             );
           }
+          if (!schemaResult.complete) break;
+          console.log(
+            `[ingest] Schema ingestion done: ${result.schemasProcessed} node types stored`
+          );
+        } catch (err) {
+          const errMsg = err instanceof Error ? err.message : "Unknown";
+          errors.push(`Schema ingestion failed: ${errMsg}`);
+          console.error("[ingest] Schema ingestion failed:", errMsg);
         }
       }
 
-      console.log(
-        `[ingest] Done. ${chunksCreated} chunks upserted, ${errors.length} errors.`
-      );
+      progress.stage = STAGES[STAGES.indexOf(stage) + 1] ?? "done";
+      await save();
+    }
 
-      // Log node docs sync
-      await logSync(
-        "github-docs",
-        errors.length === 0 ? "success" : "error",
-        nodesProcessed,
-        errors.length > 0 ? errors.slice(0, 5).join("; ") : undefined
-      );
+    result.complete = progress.stage === "done";
+    result.success = errors.length === 0;
+    if (!result.complete) {
+      console.log(`[ingest] Out of time; the next run resumes at "${progress.stage}"`);
     }
+    // Errors from earlier invocations of a resumed run count too
+    const failed =
+      !result.success || Object.values(progress.stages).some((s) => s.errors > 0);
+    await finishSyncRun(
+      run,
+      !result.complete ? "partial" : failed ? "error" : "success",
+      errors
+    );
+    return { ...result, duration: Date.now() - startTime };
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : "Unknown error";
+    errors.push(errMsg);
+    if (run) await finishSyncRun(run, "error", errors);
+    return { ...result, success: false, duration: Date.now() - startTime };
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * The progress of a later stage, started now unless a resumed run already
+ * began it. Its `startedAt` lets the stage skip rows it wrote before.
+ */
+function startStage(progress: SyncProgress, stage: SyncStage): StageProgress {
+  progress.stages[stage] ??= { done: 0, errors: 0, startedAt: new Date().toISOString() };
+  return progress.stages[stage];
+}
 
-    // ── Template ingestion (independent, fault-isolated) ──
-    try {
-      console.log("[ingest] Starting template ingestion...");
-      const templateResult = await runTemplateIngestion();
-      templatesProcessed = templateResult.templatesProcessed;
-      if (templateResult.errors.length > 0) {
+/**
+ * The docs stage: fetch, chunk and compare with what's stored, then embed
+ * and write new and changed chunks, and chunks embedded with another model.
+ * Without `run` (dry run) it stops after the comparison. Returns false when
+ * it ran out of time before writing every chunk.
+ */
+async function syncNodeDocs(
+  result: SyncResult,
+  run: {
+    progress: SyncProgress;
+    save: () => Promise<void>;
+    outOfTime: () => boolean;
+  } | null
+): Promise<boolean> {
+  const { errors, changes } = result;
+
+  // Step 1 & 2: Fetch from both sources in parallel, downloading only
+  // files that changed since the last sync
+  console.log("[ingest] Fetching from GitHub sources...");
+  const cache = await loadFileCache();
+  const [docsMap, sourceMap] = await Promise.all([
+    fetchDocsFromGitHub(cache).catch((err) => {
+      errors.push(`Docs fetch failed: ${err.message}`);
+      return new Map<string, { content: string; path: string }>();
+    }),
+    fetchNodeSourceInfo(cache).catch((err) => {
+      errors.push(`Source fetch failed: ${err.message}`);
+      return new Map<string, NodeSourceInfo>();
+    }),
+  ]);
+  if (run) await saveFileCache(cache);
+
+  console.log(
+    `[ingest] Fetched ${docsMap.size} doc files, ${sourceMap.size} source files`
+  );
+
+  // Step 3: Merge all known node types
+  const allNodeTypes = new Set([...docsMap.keys(), ...sourceMap.keys()]);
+  console.log(`[ingest] Total unique node types: ${allNodeTypes.size}`);
+
+  // Step 4: Create chunks for each node
+  const allChunks: NodeDocChunk[] = [];
+  for (const nodeType of allNodeTypes) {
+    const docContent = docsMap.get(nodeType)?.content ?? null;
+    const sourceInfo = sourceMap.get(nodeType) ?? null;
+    const chunks = createNodeChunks(nodeType, docContent, sourceInfo);
+    allChunks.push(...chunks);
+    result.nodesProcessed++;
+  }
+
+  console.log(
+    `[ingest] Created ${allChunks.length} chunks from ${result.nodesProcessed} nodes`
+  );
+
+  if (allChunks.length === 0) {
+    errors.push("No chunks generated — check GitHub API access");
+    return true; // Still run template ingestion
+  }
+
+  // Step 5: Compare with stored chunks by content hash and embedding model
+  const embeddingProvider = getEmbeddingProvider();
+  const ingestionDb = getDbUnpooled();
+  const stored = new Map(
+    (
+      await ingestionDb
+        .select({
+          nodeType: nodeDocs.nodeType,
+          chunkType: nodeDocs.chunkType,
+          contentHash: nodeDocs.contentHash,
+          embeddingModel: nodeDocs.embeddingModel,
+          embeddingDimensions: nodeDocs.embeddingDimensions,
+        })
+        .from(nodeDocs)
+    ).map((row) => [`${row.nodeType}/${row.chunkType}`, row])
+  );
+
+  const pending: Array<{ chunk: NodeDocChunk; key: string; content: string; hash: string }> = [];
+  for (const chunk of allChunks) {
+    const key = `${chunk.nodeType}/${chunk.chunkType}`;
+    // Truncate content to a reasonable length
+    const content =
+      chunk.content.length > MAX_CONTENT_LENGTH
+        ? chunk.content.slice(0, MAX_CONTENT_LENGTH) + "\n…[truncated]"
+        : chunk.content;
+    const hash = hashChunk(chunk, content);
+    const row = stored.get(key);
+    if (!row) {
+      changes.added.push(key);
+    } else if (row.contentHash !== hash) {
+      changes.changed.push(key);
+    } else if (
+      row.embeddingModel !== embeddingProvider.model ||
+      (embeddingProvider.dimensions !== undefined &&
+        row.embeddingDimensions !== embeddingProvider.dimensions)
+    ) {
+      changes.reembedded.push(key);
+    } else {
+      changes.unchanged++;
+      continue;
+    }
+    pending.push({ chunk, key, content, hash });
+  }
+
+  console.log(
+    `[ingest] ${changes.added.length} new, ${changes.changed.length} changed, ` +
+      `${changes.reembedded.length} to re-embed, ${changes.unchanged} unchanged`
+  );
+  if (!run) return true;
+
+  const stage: StageProgress = {
+    total: pending.length,
+    done: 0,
+    skipped: changes.unchanged,
+    errors: 0,
+  };
+  run.progress.stages.docs = stage;
+  run.progress.nodes = result.nodesProcessed;
+  await run.save();
+
+  // Step 6: Embed and upsert in batches, saving progress after each
+  // Use raw SQL via the neon() driver for inserts.
+  // Drizzle ORM's pgvector serialization through the Neon HTTP driver fails
+  // for certain records because the embedding array, when encoded
+  // as a JSON parameter, can exceed the driver's internal limits.
+  // By sending the embedding as a text literal with ::vector cast, we avoid this.
+  const rawSql = getRawSql();
+  let dimensions = embeddingProvider.dimensions;
+
+  for (let i = 0; i < pending.length; i += UPSERT_BATCH) {
+    if (run.outOfTime()) return false;
+    const batch = pending.slice(i, i + UPSERT_BATCH);
+    console.log(
+      `[ingest] Embedding chunks ${i + 1}-${i + batch.length} of ${pending.length} ` +
+        `with ${embeddingProvider.model}...`
+    );
+    const embeddings = await generateEmbeddings(
+      batch.map((p) => p.content),
+      embeddingProvider
+    );
+
+    for (let j = 0; j < batch.length; j++) {
+      const { chunk, content, hash } = batch[j];
+      const embedding = embeddings[j];
+      dimensions = embedding.length;
+
+      try {
+        // Delete existing row for this node + chunk type
+        await ingestionDb
+          .delete(nodeDocs)
+          .where(
+            and(
+              eq(nodeDocs.nodeType, chunk.nodeType),
+              eq(nodeDocs.chunkType, chunk.chunkType)
+            )
+          );
+
+        // Convert embedding array to PostgreSQL vector literal string
+        const embeddingLiteral = `[${embedding.join(",")}]`;
+
+        // Insert using raw SQL — embedding sent as text with ::vector cast
+        await rawSql`
+          INSERT INTO node_docs
+            (node_type, display_name, type_version, chunk_type, content, metadata,
+             embedding, embedding_model, embedding_dimensions, content_hash, updated_at)
+          VALUES
+            (${chunk.nodeType}, ${chunk.displayName}, ${chunk.typeVersion},
+             ${chunk.chunkType}, ${content},
+             ${JSON.stringify(chunk.metadata ?? {})}::jsonb,
+             ${embeddingLiteral}::vector, ${embeddingProvider.model}, ${embedding.length},
+             ${hash}, NOW())
+        `;
+
+        result.chunksCreated++;
+        stage.done++;
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : "Unknown";
+        // Truncate error message to avoid huge logs (embedding text in error)
+        const shortErr =
+          errMsg.length > 200
+            ? errMsg.slice(0, 200) + "…"
+            : errMsg;
         errors.push(
-          ...templateResult.errors.slice(0, 5).map((e) => `[templates] ${e}`)
+          `Upsert failed for ${chunk.nodeType}/${chunk.chunkType}: ${shortErr}`
+        );
+        console.error(
+          `[ingest] Failed ${chunk.nodeType}/${chunk.chunkType}:`,
+          shortErr
         );
+        stage.errors++;
       }
-      console.log(
-        `[ingest] Template ingestion done: ${templatesProcessed} templates processed`
-      );
-    } catch (err) {
-      const errMsg = err instanceof Error ? err.message : "Unknown";
-      errors.push(`Template ingestion failed: ${errMsg}`);
-      console.error("[ingest] Template ingestion failed:", errMsg);
     }
 
-    return {
-      success: errors.length === 0,
-      nodesProcessed,
-      chunksCreated,
-      templatesProcessed,
-      errors,
-      duration: Date.now() - startTime,
-    };
+    await run.save();
+  }
+
+  // Every current chunk now has a vector from this model; what's left
+  // from another model is for node types that no longer exist
+  if (stage.errors === 0 && dimensions !== undefined) {
+    await ingestionDb
+      .delete(nodeDocs)
+      .where(not(sameEmbeddingSpace(nodeDocs, embeddingProvider.model, dimensions)));
+  }
+
+  console.log(
+    `[ingest] Node docs done. ${stage.done} chunks upserted, ${stage.errors} errors.`
+  );
+  return true;
+}
+
+/** sha256 of everything stored for a chunk except its embedding. */
+function hashChunk(chunk: NodeDocChunk, content: string): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([chunk.displayName, chunk.typeVersion, content, chunk.metadata ?? {}])
+    )
+    .digest("hex");
+}
+
+// ─── Sync Log ─────────────────────────────────────────────────────────────────
+
+/** The latest run, if it stopped before finishing and recently enough to resume. */
+async function findUnfinishedRun(): Promise<(SyncRun & { alive: boolean }) | null> {
+  const [latest] = await getDbUnpooled()
+    .select()
+    .from(syncLog)
+    .where(eq(syncLog.source, SYNC_SOURCE))
+    .orderBy(desc(syncLog.syncedAt))
+    .limit(1);
+  if (
+    !latest?.progress ||
+    latest.progress.stage === "done" ||
+    (latest.status !== "running" && latest.status !== "partial") ||
+    !latest.syncedAt ||
+    Date.now() - latest.syncedAt.getTime() > RESUME_WINDOW_MS
+  ) {
+    return null;
+  }
+  return {
+    id: latest.id,
+    progress: latest.progress,
+    alive:
+      latest.status === "running" &&
+      Date.now() - latest.syncedAt.getTime() < LOCK_TIMEOUT_MS,
+  };
+}
+
+/** Whether the next run would resume an unfinished one. */
+export async function hasUnfinishedSync(): Promise<boolean> {
+  return (await findUnfinishedRun()) !== null;
+}
+
+/**
+ * Take the sync lock: resume the unfinished run, or start a new one. Null
+ * when another run is alive, or won the race to take the lock.
+ */
+async function acquireSyncRun(): Promise<{ run: SyncRun; resumed: boolean } | null> {
+  const db = getDbUnpooled();
+  const staleBefore = () => new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+  const unfinished = await findUnfinishedRun();
+  if (unfinished?.alive) return null;
+  if (unfinished) {
+    // Only one of several runs resuming at once gets the row
+    const [claimed] = await db
+      .update(syncLog)
+      .set({ status: "running", syncedAt: new Date() })
+      .where(
+        and(
+          eq(syncLog.id, unfinished.id),
+          or(ne(syncLog.status, "running"), lt(syncLog.syncedAt, staleBefore()))
+        )
+      )
+      .returning({ id: syncLog.id });
+    return claimed
+      ? { run: { id: unfinished.id, progress: unfinished.progress }, resumed: true }
+      : null;
+  }
+
+  const run = await startSyncRun();
+  // Runs starting at once each insert a row; the first one keeps going
+  const [first] = await db
+    .select({ id: syncLog.id })
+    .from(syncLog)
+    .where(
+      and(
+        eq(syncLog.source, SYNC_SOURCE),
+        eq(syncLog.status, "running"),
+        gt(syncLog.syncedAt, staleBefore())
+      )
+    )
+    .orderBy(syncLog.id)
+    .limit(1);
+  if (first && first.id !== run.id) {
+    await db.delete(syncLog).where(eq(syncLog.id, run.id));
+    return null;
+  }
+  return { run, resumed: false };
+}
+
+async function startSyncRun(): Promise<SyncRun> {
+  const progress: SyncProgress = { stage: STAGES[0], stages: {} };
+  const [row] = await getDbUnpooled()
+    .insert(syncLog)
+    .values({
+      source: SYNC_SOURCE,
+      status: "running",
+      stage: progress.stage,
+      progress,
+      syncedAt: new Date(),
+    })
+    .returning({ id: syncLog.id });
+  return { id: row.id, progress };
+}
+
+/** Heartbeat: keep the lock while a stage runs without saving progress. */
+async function touchSyncRun(id: number) {
+  try {
+    await getDbUnpooled()
+      .update(syncLog)
+      .set({ syncedAt: new Date() })
+      .where(and(eq(syncLog.id, id), eq(syncLog.status, "running")));
   } catch (err) {
-    const errMsg = err instanceof Error ? err.message : "Unknown error";
-    errors.push(errMsg);
-    await logSync("github-docs", "error", nodesProcessed, errMsg).catch(
-      () => {}
-    );
-    return {
-      success: false,
-      nodesProcessed,
-      chunksCreated,
-      templatesProcessed,
-      errors,
-      duration: Date.now() - startTime,
-    };
+    console.error("[ingest] Failed to refresh the sync lock:", err);
   }
 }
 
-async function logSync(
-  source: string,
-  status: string,
-  nodesProcessed: number,
-  error?: string
+async function saveSyncProgress(id: number, progress: SyncProgress) {
+  try {
+    await getDbUnpooled()
+      .update(syncLog)
+      .set({
+        status: "running",
+        stage: progress.stage,
+        progress,
+        nodesProcessed: progress.nodes ?? 0,
+        syncedAt: new Date(),
+      })
+      .where(eq(syncLog.id, id));
+  } catch (err) {
+    console.error("[ingest] Failed to save sync progress:", err);
+  }
+}
+
+async function finishSyncRun(
+  { id, progress }: SyncRun,
+  status: "partial" | "success" | "error",
+  errors: string[]
 ) {
   try {
-    const ingestionDb = getDbUnpooled();
     // Truncate error text to avoid oversized insert as well
-    const truncatedError = error
-      ? error.length > 500
-        ? error.slice(0, 500) + "…[truncated]"
-        : error
-      : null;
-    await ingestionDb.insert(syncLog).values({
-      source,
-      status,
-      nodesProcessed,
-      error: truncatedError,
-    });
+    const error = errors.length > 0 ? errors.slice(0, 5).join("; ") : null;
+    const truncatedError =
+      error && error.length > 500 ? error.slice(0, 500) + "…[truncated]" : error;
+    await getDbUnpooled()
+      .update(syncLog)
+      .set({
+        status,
+        stage: progress.stage,
+        progress,
+        nodesProcessed: progress.nodes ?? 0,
+        error: truncatedError,
+        syncedAt: new Date(),
+      })
+      .where(eq(syncLog.id, id));
   } catch (err) {
     console.error("[ingest] Failed to log sync:", err);
   }
@@ -1,7 +1,17 @@
 import { db } from "@/lib/db";
-import { nodeDocs, workflowTemplates } from "@/lib/db/schema";
-import { cosineDistance, desc, eq, gt, sql } from "drizzle-orm";
-import { generateEmbedding } from "./embedding";
+import {
+  nodeDocs,
+  nodeParameterSchemas,
+  workflowTemplates,
+} from "@/lib/db/schema";
+import type { NodeCredentialRequirement, NodePropertySchema } from "@/lib/n8n/types";
+import { asc, desc, eq, inArray, lt, max, sql } from "drizzle-orm";
+import {
+  embeddingDistance,
+  embeddingSimilarity,
+  embedQuery,
+  sameEmbeddingSpace,
+} from "./embedding";
 
 export interface RelevantNodeDoc {
   nodeType: string;
@@ -15,45 +25,188 @@ export interface RelevantNodeDoc {
     credentialTypes?: string[];
     operations?: string[];
   } | null;
-  similarity: number;
+  similarity: number; // cosine similarity to the query; 0 when it couldn't be embedded
+  score?: number; // rank-fusion score, from hybrid search only
 }
 
+// Candidates each search contributes to the fusion
+const HYBRID_CANDIDATES = 40;
+// Reciprocal rank fusion constant: higher flattens the gap between ranks
+const RRF_K = 60;
+// Overviews and parameter lists answer most questions; credentials chunks
+// win only when the query is about authentication
+const CHUNK_BOOST: Record<string, number> = {
+  overview: 1.2,
+  parameters: 1.1,
+  examples: 1,
+  credentials: 0.9,
+};
+const CREDENTIAL_QUERY = /\b(credential|auth|oauth|api key|token|login)/i;
+
 /**
- * Find node documentation chunks that are semantically relevant to the query.
- * Uses cosine similarity search against pgvector embeddings.
+ * Find node documentation chunks relevant to the query by combining
+ * full-text search (node name, type and content) with vector similarity,
+ * fused by rank. Exact names like "httpRequest" or "Postgres upsert" are
+ * found by the keyword side even when their embedding is a weak match.
+ * Falls back to keyword search alone when the query can't be embedded.
+ *
+ * @param query - Natural language or keyword query (e.g., "How to send a Slack message")
+ * @param limit - Maximum number of chunks to return (default 8)
+ * @param options.perNodeType - Most chunks returned for one node type (default 2)
+ * @param options.minSimilarity - Vector matches below this are ignored (default 0.2)
+ */
+export async function findRelevantNodeDocs(
+  query: string,
+  limit = 8,
+  options: { perNodeType?: number; minSimilarity?: number } = {}
+): Promise<RelevantNodeDoc[]> {
+  const { perNodeType = 2, minSimilarity = 0.2 } = options;
+
+  let queryEmbedding: { embedding: number[]; model: string } | null = null;
+  try {
+    queryEmbedding = await embedQuery(query);
+  } catch (err) {
+    console.error("[retrieval] Embedding failed, using keyword search only:", err);
+  }
+
+  const tsQuery = toTsQuery(query);
+  const keywordQuery = sql`to_tsquery('english', ${tsQuery})`;
+
+  const [byVector, byKeyword] = await Promise.all([
+    queryEmbedding
+      ? nearestNodeDocs(queryEmbedding, HYBRID_CANDIDATES, minSimilarity)
+      : [],
+    tsQuery
+      ? db
+          .select({
+            ...nodeDocColumns,
+            similarity: queryEmbedding
+              ? embeddingSimilarity(nodeDocs, queryEmbedding.model, queryEmbedding.embedding)
+              : sql<number>`0`,
+          })
+          .from(nodeDocs)
+          .where(sql`${nodeDocs.searchVector} @@ ${keywordQuery}`)
+          .orderBy(desc(sql`ts_rank_cd(${nodeDocs.searchVector}, ${keywordQuery})`))
+          .limit(HYBRID_CANDIDATES)
+      : [],
+  ]);
+
+  const boost = (chunkType: string) =>
+    chunkType === "credentials" && CREDENTIAL_QUERY.test(query)
+      ? 1.5
+      : (CHUNK_BOOST[chunkType] ?? 1);
+  // One row per node type and chunk type
+  const ranked = fuseByRank([byVector, byKeyword], (doc) => `${doc.nodeType}/${doc.chunkType}`)
+    .map(({ item, score }) => ({ ...item, score: score * boost(item.chunkType) }))
+    .sort((a, b) => b.score - a.score);
+
+  const perType = new Map<string, number>();
+  const results: RelevantNodeDoc[] = [];
+  for (const doc of ranked) {
+    const count = perType.get(doc.nodeType) ?? 0;
+    if (count >= perNodeType) continue;
+    perType.set(doc.nodeType, count + 1);
+    results.push(doc);
+    if (results.length >= limit) break;
+  }
+  return results;
+}
+
+/**
+ * Reciprocal rank fusion: each list adds 1 / (k + rank) for every item it
+ * contains, so items ranked well by several searches rise to the top
+ * without having to compare their raw scores.
+ */
+export function fuseByRank<T>(
+  lists: T[][],
+  key: (item: T) => string | number
+): Array<{ item: T; score: number }> {
+  const fused = new Map<string | number, { item: T; score: number }>();
+  for (const list of lists) {
+    list.forEach((item, rank) => {
+      const entry = fused.get(key(item)) ?? { item, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(key(item), entry);
+    });
+  }
+  return [...fused.values()];
+}
+
+/**
+ * An OR query over the query's words for to_tsquery, with camelCase words
+ * both whole and split ("httpRequest" → httprequest | http | request).
+ * Null when no word is left.
+ */
+export function toTsQuery(query: string): string | null {
+  const terms = new Set<string>();
+  for (const word of query.split(/[^A-Za-z0-9]+/)) {
+    const parts = [word, ...word.split(/(?<=[a-z0-9])(?=[A-Z])/)];
+    for (const part of parts) {
+      if (part.length >= 2) terms.add(part.toLowerCase());
+    }
+  }
+  return terms.size > 0 ? [...terms].join(" | ") : null;
+}
+
+/**
+ * Pure vector search: chunks whose embedding is within `minSimilarity` of
+ * the query's. What findRelevantNodeDocs did before keyword search was
+ * added; kept as the baseline for scripts/eval-retrieval.ts.
  *
  * @param query - Natural language query (e.g., "How to send a Slack message")
  * @param limit - Maximum number of chunks to return (default 8)
  * @param minSimilarity - Minimum cosine similarity threshold (default 0.3)
  */
-export async function findRelevantNodeDocs(
+export async function findRelevantNodeDocsByVector(
   query: string,
   limit = 8,
   minSimilarity = 0.3
 ): Promise<RelevantNodeDoc[]> {
-  const queryEmbedding = await generateEmbedding(query);
+  return nearestNodeDocs(await embedQuery(query), limit, minSimilarity);
+}
 
-  const similarity = sql<number>`1 - (${cosineDistance(
-    nodeDocs.embedding,
-    queryEmbedding
-  )})`;
+const nodeDocColumns = {
+  nodeType: nodeDocs.nodeType,
+  displayName: nodeDocs.displayName,
+  typeVersion: nodeDocs.typeVersion,
+  chunkType: nodeDocs.chunkType,
+  content: nodeDocs.content,
+  metadata: nodeDocs.metadata,
+};
 
-  const results = await db
-    .select({
-      nodeType: nodeDocs.nodeType,
-      displayName: nodeDocs.displayName,
-      typeVersion: nodeDocs.typeVersion,
-      chunkType: nodeDocs.chunkType,
-      content: nodeDocs.content,
-      metadata: nodeDocs.metadata,
-      similarity,
-    })
+/**
+ * The `limit` chunks nearest to the query embedding, most similar first.
+ * Distances are computed in a subquery that only sees rows from the
+ * query's embedding space, ordered so the vector index can serve it.
+ */
+async function nearestNodeDocs(
+  queryEmbedding: { embedding: number[]; model: string },
+  limit: number,
+  minSimilarity: number
+): Promise<RelevantNodeDoc[]> {
+  const { embedding, model } = queryEmbedding;
+  const distance = embeddingDistance(nodeDocs, embedding);
+  const nearest = db
+    .select({ ...nodeDocColumns, distance: distance.as("distance") })
     .from(nodeDocs)
-    .where(gt(similarity, minSimilarity))
-    .orderBy(desc(similarity))
-    .limit(limit);
+    .where(sameEmbeddingSpace(nodeDocs, model, embedding.length))
+    .orderBy(distance)
+    .limit(limit)
+    .as("nearest");
 
-  return results;
+  return db
+    .select({
+      nodeType: nearest.nodeType,
+      displayName: nearest.displayName,
+      typeVersion: nearest.typeVersion,
+      chunkType: nearest.chunkType,
+      content: nearest.content,
+      metadata: nearest.metadata,
+      similarity: sql<number>`1 - ${nearest.distance}`,
+    })
+    .from(nearest)
+    .where(lt(nearest.distance, 1 - minSimilarity))
+    .orderBy(asc(nearest.distance));
 }
 
 /**
@@ -79,6 +232,75 @@ export async function getNodeDocsByType(
   return results;
 }
 
+/**
+ * Latest ingested typeVersion for each of the given node types.
+ * Types with no documentation are absent from the map.
+ */
+export async function getLatestNodeVersions(
+  nodeTypes: string[]
+): Promise<Map<string, number>> {
+  if (nodeTypes.length === 0) return new Map();
+  const rows = await db
+    .select({
+      nodeType: nodeDocs.nodeType,
+      typeVersion: max(nodeDocs.typeVersion),
+    })
+    .from(nodeDocs)
+    .where(inArray(nodeDocs.nodeType, nodeTypes))
+    .groupBy(nodeDocs.nodeType);
+
+  return new Map(
+    rows
+      .filter((r) => r.typeVersion !== null)
+      .map((r) => [r.nodeType, r.typeVersion as number])
+  );
+}
+
+/**
+ * Whether any node documentation has been ingested at all, so callers can
+ * tell "unknown node type" apart from "docs not synced yet".
+ */
+export async function hasNodeDocs(): Promise<boolean> {
+  const rows = await db.select({ id: nodeDocs.id }).from(nodeDocs).limit(1);
+  return rows.length > 0;
+}
+
+export interface StoredNodeSchema {
+  typeVersions: number[];
+  properties: NodePropertySchema[];
+  credentials: NodeCredentialRequirement[];
+}
+
+/**
+ * Stored parameter schemas for the given node types, one entry per group of
+ * typeVersions that share a description. Types with no schema are absent.
+ */
+export async function getParameterSchemas(
+  nodeTypes: string[]
+): Promise<Map<string, StoredNodeSchema[]>> {
+  const schemas = new Map<string, StoredNodeSchema[]>();
+  if (nodeTypes.length === 0) return schemas;
+  const rows = await db
+    .select({
+      nodeType: nodeParameterSchemas.nodeType,
+      typeVersions: nodeParameterSchemas.typeVersions,
+      properties: nodeParameterSchemas.properties,
+      credentials: nodeParameterSchemas.credentials,
+    })
+    .from(nodeParameterSchemas)
+    .where(inArray(nodeParameterSchemas.nodeType, nodeTypes));
+
+  for (const row of rows) {
+    if (!schemas.has(row.nodeType)) schemas.set(row.nodeType, []);
+    schemas.get(row.nodeType)!.push({
+      typeVersions: row.typeVersions,
+      properties: row.properties,
+      credentials: row.credentials ?? [],
+    });
+  }
+  return schemas;
+}
+
 // ─── Workflow Template Retrieval ──────────────────────────────────────────────
 
 export interface RelevantTemplate {
@@ -107,14 +329,11 @@ export async function findRelevantTemplates(
   limit = 3,
   minSimilarity = 0.3
 ): Promise<RelevantTemplate[]> {
-  const queryEmbedding = await generateEmbedding(query);
-
-  const similarity = sql<number>`1 - (${cosineDistance(
-    workflowTemplates.embedding,
-    queryEmbedding
-  )})`;
+  const { embedding: queryEmbedding, model } = await embedQuery(query);
 
-  const results = await db
+  // As in nearestNodeDocs: distances only for rows of the query's space
+  const distance = embeddingDistance(workflowTemplates, queryEmbedding);
+  const nearest = db
     .select({
       templateId: workflowTemplates.templateId,
       name: workflowTemplates.name,
@@ -122,14 +341,27 @@ export async function findRelevantTemplates(
       category: workflowTemplates.category,
       nodeTypes: workflowTemplates.nodeTypes,
       workflowJson: workflowTemplates.workflowJson,
-      similarity,
+      distance: distance.as("distance"),
     })
     .from(workflowTemplates)
-    .where(gt(similarity, minSimilarity))
-    .orderBy(desc(similarity))
-    .limit(limit);
+    .where(sameEmbeddingSpace(workflowTemplates, model, queryEmbedding.length))
+    .orderBy(distance)
+    .limit(limit)
+    .as("nearest");
 
-  return results;
+  return db
+    .select({
+      templateId: nearest.templateId,
+      name: nearest.name,
+      description: nearest.description,
+      category: nearest.category,
+      nodeTypes: nearest.nodeTypes,
+      workflowJson: nearest.workflowJson,
+      similarity: sql<number>`1 - ${nearest.distance}`,
+    })
+    .from(nearest)
+    .where(lt(nearest.distance, 1 - minSimilarity))
+    .orderBy(asc(nearest.distance));
 }
 
 /**
@@ -0,0 +1,36 @@
+/** Stages of a documentation sync, in the order they run. */
+export type SyncStage = "docs" | "templates" | "schemas";
+
+export interface StageProgress {
+  total?: number; // items the stage had to write, when known up front
+  done: number; // items written
+  skipped?: number; // items found unchanged
+  errors: number;
+  // When the stage began (ISO); a resumed stage skips rows written since
+  startedAt?: string;
+}
+
+/** What a stage of a sync run is given by the run. */
+export interface StageRun {
+  stage: StageProgress; // updated in place
+  save: () => Promise<void>; // saves the run's progress
+  outOfTime: () => boolean; // start no new batch once true
+}
+
+/**
+ * Where a sync run is, saved in sync_log after every batch so a run that
+ * stops (time budget, platform timeout) is resumed by the next one.
+ */
+export interface SyncProgress {
+  stage: SyncStage | "done"; // next stage to run
+  stages: Partial<Record<SyncStage, StageProgress>>;
+  nodes?: number; // node types found by the docs stage
+}
+
+/** How the stored node doc chunks differ from freshly fetched ones. */
+export interface DocChanges {
+  added: string[]; // "nodeType/chunkType"
+  changed: string[];
+  reembedded: string[]; // same content, embedded with another model
+  unchanged: number;
+}
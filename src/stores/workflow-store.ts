@@ -1,11 +1,69 @@
 import { create } from "zustand";
-import type { Edge, Node } from "@xyflow/react";
-import type { N8nWorkflow, NodeExecutionStatus, NodeStatus } from "@/lib/n8n/types";
-import { n8nToReactFlow, autoLayout } from "@/lib/n8n/converter";
+import {
+  addEdge,
+  applyEdgeChanges,
+  applyNodeChanges,
+  type Connection,
+  type Edge,
+  type EdgeChange,
+  type Node,
+  type NodeChange,
+} from "@xyflow/react";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  N8nNode,
+  N8nWorkflow,
+  NodeExecutionStatus,
+  NodeRunIO,
+  NodeStatus,
+  PinnedItem,
+} from "@/lib/n8n/types";
+import {
+  n8nToReactFlow,
+  autoLayout,
+  parseHandleId,
+  reactFlowToN8n,
+  toFlowNode,
+} from "@/lib/n8n/converter";
+import { buildDiffPreview, type WorkflowDiff } from "@/lib/n8n/workflow-diff";
+import { getNodeInfo } from "@/lib/n8n/node-registry";
+import { fetchLatestTypeVersion } from "@/lib/n8n/parameter-form";
+import { renameNodeInParameters, type RenameReport } from "@/lib/n8n/node-rename";
+import { loadPinData, savePinData } from "@/lib/execution/pin-data";
 
-interface NodeOutputData {
-  input: Record<string, unknown>[];
-  output: Record<string, unknown>[];
+/** Everything a node received and sent during an execution, run by run. */
+export interface NodeOutputData {
+  runs: NodeRunIO[];
+}
+
+/** A message for the chat panel to send on behalf of another part of the UI. */
+export interface ChatRequest {
+  text: string;
+  // Extra fields for the /api/chat request body
+  body?: Record<string, unknown>;
+}
+
+/** A canvas state that undo/redo can return to. */
+export interface HistoryEntry {
+  // What the change that followed this snapshot was, e.g. "Moved 3 nodes"
+  label: string;
+  workflow: N8nWorkflow | null;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+const MAX_HISTORY = 50;
+
+/** An AI change awaiting approval, previewed on the canvas as a diff overlay. */
+export interface WorkflowProposal {
+  toolCallId: string;
+  toolName: string;
+  workflow: N8nWorkflow;
+  // updatedAt of the n8n workflow the proposal was built from
+  baseUpdatedAt?: string;
+  diff: WorkflowDiff;
+  nodes: Node[];
+  edges: Edge[];
 }
 
 interface WorkflowState {
@@ -15,6 +73,15 @@ interface WorkflowState {
   // React Flow state
   nodes: Node[];
   edges: Edge[];
+  // True when the canvas has edits not yet saved back to n8n
+  isDirty: boolean;
+
+  // Undo/redo stacks, most recent last
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+
+  // Pending AI change shown instead of the canvas until applied or rejected
+  proposal: WorkflowProposal | null;
 
   // Execution
   executionId: string | null;
@@ -26,13 +93,55 @@ interface WorkflowState {
   selectedNodeId: string | null;
   isDrawerOpen: boolean;
 
+  // Message waiting for the chat panel to send
+  chatRequest: ChatRequest | null;
+
   // Actions
-  setWorkflow: (wf: N8nWorkflow) => void;
+  /** Replace the canvas. Pass `historyLabel` to make the replacement undoable. */
+  setWorkflow: (wf: N8nWorkflow, historyLabel?: string) => void;
   clearWorkflow: () => void;
   setNodes: (nodes: Node[]) => void;
   setEdges: (edges: Edge[]) => void;
-  onNodesChange: (changes: unknown[]) => void;
-  onEdgesChange: (changes: unknown[]) => void;
+  onNodesChange: (changes: NodeChange[]) => void;
+  onEdgesChange: (changes: EdgeChange[]) => void;
+  onConnect: (connection: Connection) => void;
+  addNode: (n8nType: string, position?: { x: number; y: number }) => Promise<void>;
+  /**
+   * Rename a node and every expression referencing it. Null when the name
+   * is empty or taken.
+   */
+  renameNode: (nodeId: string, name: string) => RenameReport | null;
+  duplicateNode: (nodeId: string) => void;
+  deleteNode: (nodeId: string) => void;
+  setPinData: (nodeId: string, items: PinnedItem[] | null) => void;
+  /**
+   * Replace a node's parameters. Pass `historyLabel` to snapshot first; a
+   * run of keystrokes in one field passes it only for the first.
+   */
+  updateNodeParameters: (
+    nodeId: string,
+    parameters: Record<string, unknown>,
+    historyLabel?: string
+  ) => void;
+  /** Assign an n8n credential to a node for one credential type, or clear it. */
+  setNodeCredential: (
+    nodeId: string,
+    credentialType: string,
+    credential: { id: string; name: string } | null
+  ) => void;
+  /** Snapshot the current canvas before a change made outside the store actions. */
+  recordHistory: (label: string) => void;
+  undo: () => HistoryEntry | null;
+  redo: () => HistoryEntry | null;
+  setProposal: (
+    proposal: Pick<
+      WorkflowProposal,
+      "toolCallId" | "toolName" | "workflow" | "baseUpdatedAt"
+    >
+  ) => void;
+  clearProposal: () => void;
+  requestChat: (request: ChatRequest) => void;
+  clearChatRequest: () => void;
   updateNodeStatus: (nodeId: string, status: NodeStatus) => void;
   setNodeOutput: (nodeId: string, data: NodeOutputData) => void;
   setSelectedNode: (nodeId: string | null) => void;
@@ -45,29 +154,53 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   workflow: null,
   nodes: [],
   edges: [],
+  isDirty: false,
+  past: [],
+  future: [],
+  proposal: null,
   executionId: null,
   executionStatus: "idle",
   nodeStatuses: {},
   nodeOutputs: {},
   selectedNodeId: null,
   isDrawerOpen: false,
+  chatRequest: null,
 
-  setWorkflow: (wf) => {
+  setWorkflow: (loaded, historyLabel) => {
+    // n8n doesn't return pins; put back the ones saved for this workflow
+    const pinData = loaded.pinData ?? (loaded.id ? loadPinData(loaded.id) : undefined);
+    const wf = pinData ? { ...loaded, pinData } : loaded;
     const flowData = n8nToReactFlow(wf);
     // Check if nodes need auto-layout (all at 0,0 or overlapping)
     const needsLayout = flowData.nodes.every(
       (n) => n.position.x === 0 && n.position.y === 0
     );
     const laid = needsLayout ? autoLayout(flowData) : flowData;
-    set({
+    set((state) => ({
+      // Loading onto an empty canvas isn't worth an undo step
+      ...(historyLabel && state.workflow ? pushHistory(state, historyLabel) : {}),
       workflow: wf,
       nodes: laid.nodes,
       edges: laid.edges,
+      isDirty: false,
+      proposal: null,
       nodeStatuses: {},
       nodeOutputs: {},
       executionStatus: "idle",
       executionId: null,
-    });
+    }));
+
+// Pins change through setPinData, renames, undo/redo and loads; save them
+// whatever the cause so they outlive reloads and AI updates
+useWorkflowStore.subscribe((state, prev) => {
+  const { workflow } = state;
+  if (
+    workflow?.id &&
+    (workflow.pinData !== prev.workflow?.pinData || workflow.id !== prev.workflow?.id)
+  ) {
+    savePinData(workflow.id, workflow.pinData);
+  }
+});
   },
 
   clearWorkflow: () =>
@@ -75,6 +208,10 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
       workflow: null,
       nodes: [],
       edges: [],
+      isDirty: false,
+      past: [],
+      future: [],
+      proposal: null,
       nodeStatuses: {},
       nodeOutputs: {},
       executionStatus: "idle",
@@ -86,13 +223,293 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
   setNodes: (nodes) => set({ nodes }),
   setEdges: (edges) => set({ edges }),
 
-  onNodesChange: () => {
-    // Handled by React Flow's onNodesChange callback
+  onNodesChange: (changes) => {
+    set((state) => {
+      const removed = new Set(
+        changes.filter((c) => c.type === "remove").map((c) => c.id)
+      );
+      const closeDrawer =
+        state.selectedNodeId !== null && removed.has(state.selectedNodeId);
+      return {
+        nodes: applyNodeChanges(changes, state.nodes),
+        // Selection and measurement changes don't touch the n8n workflow
+        isDirty: state.isDirty || changes.some(isPersistedChange),
+        ...(closeDrawer ? { selectedNodeId: null, isDrawerOpen: false } : {}),
+      };
+    });
+  },
+
+  onEdgesChange: (changes) => {
+    set((state) => ({
+      edges: applyEdgeChanges(changes, state.edges),
+      isDirty: state.isDirty || changes.some(isPersistedChange),
+    }));
+  },
+
+  onConnect: (connection) => {
+    const source = parseHandleId(connection.sourceHandle);
+    const target = parseHandleId(connection.targetHandle);
+    const connectionType = target.type !== "main" ? target.type : source.type;
+    set((state) => ({
+      ...pushHistory(state, "Connected nodes"),
+      edges: addEdge(
+        {
+          ...connection,
+          id: `${connection.source}-${connectionType}-${source.index}-${connection.target}-${target.index}`,
+          type: "workflowEdge",
+          animated: false,
+          data: { status: "idle", connectionType },
+        },
+        state.edges
+      ),
+      isDirty: true,
+    }));
+  },
+
+  addNode: async (n8nType, position) => {
+    // The version the validator expects; 1 when the docs aren't synced
+    const latest = await fetchLatestTypeVersion(n8nType);
+    const typeVersion = (latest.success && latest.typeVersion) || 1;
+    const state = get();
+    // Default to the right of the right-most node
+    const fallback = state.nodes.reduce(
+      (pos, n) =>
+        n.position.x + 300 > pos.x ? { x: n.position.x + 300, y: n.position.y } : pos,
+      { x: 250, y: 300 }
+    );
+    const at = position ?? fallback;
+    const n8nNode: N8nNode = {
+      id: uuidv4(),
+      name: getUniqueNodeName(getNodeInfo(n8nType).label, state.nodes),
+      type: n8nType,
+      typeVersion,
+      position: [Math.round(at.x), Math.round(at.y)],
+      parameters: {},
+    };
+    set({
+      ...pushHistory(state, `Added "${n8nNode.name}"`),
+      nodes: [...state.nodes, toFlowNode(n8nNode)],
+      isDirty: true,
+    });
+  },
+
+  renameNode: (nodeId, name) => {
+    const state = get();
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+    const taken = state.nodes.some(
+      (n) => n.id !== nodeId && n.data.label === trimmed
+    );
+    if (taken) return null;
+    const oldName = state.nodes.find((n) => n.id === nodeId)?.data.label as
+      | string
+      | undefined;
+    if (!oldName) return null;
+    const pins = state.workflow?.pinData?.[oldName];
+    // Edges point at node ids, so they follow without rewriting
+    const connections = state.edges.filter(
+      (e) => e.source === nodeId || e.target === nodeId
+    ).length;
+    const report: RenameReport = {
+      from: oldName,
+      to: trimmed,
+      connections,
+      expressions: [],
+      pinData: !!pins,
+    };
+    set({
+      ...pushHistory(state, `Renamed to "${trimmed}"`),
+      nodes: state.nodes.map((n) => {
+        const label = n.id === nodeId ? trimmed : (n.data.label as string);
+        const { parameters, paths } = renameNodeInParameters(
+          (n.data.parameters as Record<string, unknown>) ?? {},
+          oldName,
+          trimmed,
+          n.data.n8nType as string
+        );
+        report.expressions.push(...paths.map((path) => ({ node: label, path })));
+        if (n.id !== nodeId && paths.length === 0) return n;
+        return {
+          ...n,
+          data: {
+            ...n.data,
+            label,
+            ...(paths.length > 0 ? { parameters } : {}),
+          },
+        };
+      }),
+      // pinData is keyed by node name, so the pins follow the rename
+      ...(state.workflow && pins
+        ? {
+            workflow: {
+              ...state.workflow,
+              pinData: {
+                ...withoutKey(state.workflow.pinData!, oldName),
+                [trimmed]: pins,
+              },
+            },
+          }
+        : {}),
+      isDirty: true,
+    });
+    return report;
   },
-  onEdgesChange: () => {
-    // Handled by React Flow's onEdgesChange callback
+
+  duplicateNode: (nodeId) => {
+    const state = get();
+    const node = state.nodes.find((n) => n.id === nodeId);
+    if (!node) return;
+    const original = node.data.n8nNode as N8nNode | undefined;
+    const id = uuidv4();
+    const copy: Node = {
+      ...node,
+      id,
+      selected: false,
+      position: { x: node.position.x + 40, y: node.position.y + 80 },
+      data: {
+        ...node.data,
+        label: getUniqueNodeName(node.data.label as string, state.nodes),
+        parameters: structuredClone(node.data.parameters ?? {}),
+        // A copied webhook must not share its path registration with the original
+        n8nNode: original && {
+          ...original,
+          id,
+          ...(original.webhookId ? { webhookId: uuidv4() } : {}),
+        },
+        executionStatus: "idle",
+        itemCount: 0,
+      },
+    };
+    set({
+      ...pushHistory(state, `Duplicated "${node.data.label as string}"`),
+      nodes: [...state.nodes, copy],
+      isDirty: true,
+    });
   },
 
+  deleteNode: (nodeId) => {
+    const state = get();
+    const node = state.nodes.find((n) => n.id === nodeId);
+    if (!node) return;
+    set({
+      ...pushHistory(state, `Deleted "${node.data.label as string}"`),
+      nodes: state.nodes.filter((n) => n.id !== nodeId),
+      edges: state.edges.filter((e) => e.source !== nodeId && e.target !== nodeId),
+      isDirty: true,
+      ...(state.selectedNodeId === nodeId
+        ? { selectedNodeId: null, isDrawerOpen: false }
+        : {}),
+    });
+  },
+
+  setPinData: (nodeId, items) => {
+    const state = get();
+    const node = state.nodes.find((n) => n.id === nodeId);
+    if (!node || !state.workflow) return;
+    const name = node.data.label as string;
+    const pinData = withoutKey(state.workflow.pinData ?? {}, name);
+    if (items) pinData[name] = items;
+    set({
+      ...pushHistory(state, items ? `Pinned data on "${name}"` : `Unpinned "${name}"`),
+      workflow: { ...state.workflow, pinData },
+      isDirty: true,
+    });
+  },
+
+  updateNodeParameters: (nodeId, parameters, historyLabel) => {
+    const state = get();
+    if (!state.nodes.some((n) => n.id === nodeId)) return;
+    set({
+      ...(historyLabel ? pushHistory(state, historyLabel) : {}),
+      nodes: state.nodes.map((n) =>
+        n.id === nodeId ? { ...n, data: { ...n.data, parameters } } : n
+      ),
+      isDirty: true,
+    });
+  },
+
+  setNodeCredential: (nodeId, credentialType, credential) => {
+    const state = get();
+    const node = state.nodes.find((n) => n.id === nodeId);
+    const n8nNode = node?.data.n8nNode as N8nNode | undefined;
+    if (!node || !n8nNode) return;
+    const credentials = withoutKey(n8nNode.credentials ?? {}, credentialType);
+    if (credential) credentials[credentialType] = credential;
+    const name = node.data.label as string;
+    set({
+      ...pushHistory(
+        state,
+        credential ? `Set credentials on "${name}"` : `Cleared credentials on "${name}"`
+      ),
+      nodes: state.nodes.map((n) =>
+        n.id === nodeId
+          ? {
+              ...n,
+              data: {
+                ...n.data,
+                n8nNode: {
+                  ...n8nNode,
+                  credentials: Object.keys(credentials).length > 0 ? credentials : undefined,
+                },
+              },
+            }
+          : n
+      ),
+      isDirty: true,
+    });
+  },
+
+  recordHistory: (label) => {
+    set((state) => pushHistory(state, label));
+  },
+
+  undo: () => {
+    const state = get();
+    const entry = state.past.at(-1);
+    if (!entry) return null;
+    set({
+      ...restore(entry, state.workflow),
+      past: state.past.slice(0, -1),
+      future: [...state.future, { ...snapshot(state), label: entry.label }],
+      ...closedDrawerIfGone(state.selectedNodeId, entry.nodes),
+    });
+    return entry;
+  },
+
+  redo: () => {
+    const state = get();
+    const entry = state.future.at(-1);
+    if (!entry) return null;
+    set({
+      ...restore(entry, state.workflow),
+      past: [...state.past, { ...snapshot(state), label: entry.label }],
+      future: state.future.slice(0, -1),
+      ...closedDrawerIfGone(state.selectedNodeId, entry.nodes),
+    });
+    return entry;
+  },
+
+  setProposal: (proposal) => {
+    const { workflow, nodes, edges } = get();
+    // Diff against what is on the canvas; a proposal for a workflow that
+    // isn't open shows every node as added
+    const base =
+      workflow && workflow.id === proposal.workflow.id
+        ? reactFlowToN8n(nodes, edges, workflow)
+        : { nodes: [], connections: {} };
+    const preview = buildDiffPreview(base, proposal.workflow);
+    set({
+      proposal: { ...proposal, ...preview },
+      selectedNodeId: null,
+      isDrawerOpen: false,
+    });
+  },
+
+  clearProposal: () => set({ proposal: null }),
+
+  requestChat: (request) => set({ chatRequest: request }),
+  clearChatRequest: () => set({ chatRequest: null }),
+
   updateNodeStatus: (nodeId, status) => {
     set((state) => {
       const newStatuses = { ...state.nodeStatuses, [nodeId]: status };
@@ -107,6 +524,7 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
               itemCount: status.itemCount ?? 0,
               executionTime: status.executionTime,
               error: status.error,
+              skipReason: status.skipReason,
             },
           };
         }
@@ -191,3 +609,80 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     });
   },
 }));
+
+function isPersistedChange(change: NodeChange | EdgeChange): boolean {
+  return (
+    change.type === "add" ||
+    change.type === "remove" ||
+    change.type === "replace" ||
+    change.type === "position"
+  );
+}
+
+/**
+ * n8n-style unique node name: "Slack", then "Slack1", "Slack2", …
+ */
+function getUniqueNodeName(base: string, nodes: Node[]): string {
+  const names = new Set(nodes.map((n) => n.data.label as string));
+  if (!names.has(base)) return base;
+  const stem = base.replace(/\d+$/, "");
+  let i = 1;
+  while (names.has(`${stem}${i}`)) i++;
+  return `${stem}${i}`;
+}
+
+// ── History helpers ──
+
+function snapshot(state: WorkflowState): Omit<HistoryEntry, "label"> {
+  return {
+    workflow: state.workflow,
+    nodes: state.nodes,
+    edges: state.edges,
+  };
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+}
+
+/** Push the current canvas onto the undo stack; a new change clears redo. */
+function pushHistory(
+  state: WorkflowState,
+  label: string
+): Pick<WorkflowState, "past" | "future"> {
+  return {
+    past: [...state.past, { ...snapshot(state), label }].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+function restore(
+  entry: HistoryEntry,
+  current: N8nWorkflow | null
+): Pick<WorkflowState, "workflow" | "nodes" | "edges" | "isDirty"> {
+  // For the same n8n workflow, everything goes back (name, pins, …) except
+  // updatedAt, which stays the latest known, or the next save would conflict
+  // with this app's own earlier write
+  const workflow =
+    entry.workflow && current?.id && entry.workflow.id === current.id
+      ? { ...entry.workflow, updatedAt: current.updatedAt }
+      : entry.workflow;
+  return {
+    workflow,
+    nodes: entry.nodes,
+    edges: entry.edges,
+    // n8n may have moved on since the snapshot (e.g. an AI update), so a
+    // restored canvas always counts as unsaved
+    isDirty: workflow !== null,
+  };
+}
+
+function closedDrawerIfGone(
+  selectedNodeId: string | null,
+  nodes: Node[]
+): Partial<WorkflowState> {
+  if (selectedNodeId === null || nodes.some((n) => n.id === selectedNodeId)) {
+    return {};
+  }
+  return { selectedNodeId: null, isDrawerOpen: false };
+}